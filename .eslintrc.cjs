@@ -332,7 +332,8 @@ function createTypeScriptConfig(opts) {
 						"**/jest.config.ts",
 						"**/prettier.config.cjs",
 						"**/webpack.config.ts",
-						"**/*.+(test|spec).+(js|cjs|mjs|jsx|ts|cts|mts|tsx)"
+						"**/*.+(test|spec).+(js|cjs|mjs|jsx|ts|cts|mts|tsx)",
+						"**/__mocks__/**/*"
 					],
 					optionalDependencies: false,
 					peerDependencies: false,
@@ -0,0 +1,30 @@
+import type * as NodeFetch from "node-fetch";
+import { jest } from "@jest/globals";
+
+/**
+ * NOTE:
+ * `fetch-mock` mocks requests by replacing the global `fetch`, while `fetchTransport`
+ * sends them with `node-fetch`. Requests are forwarded to the global `fetch` once it is replaced,
+ * otherwise the actual `node-fetch` is used.
+ *
+ * `fetch-mock` itself requires this mock too (as `jest` is not a global), so classes
+ * of the actual `node-fetch` are exported as well.
+ */
+const actualNodeFetch = jest.requireActual<typeof NodeFetch>("node-fetch");
+const globalObject = globalThis as { fetch?: unknown };
+const initialFetch = globalObject.fetch;
+
+async function mockedNodeFetch(
+	...args: Parameters<typeof NodeFetch.default>
+): ReturnType<typeof NodeFetch.default> {
+	if (globalObject.fetch === initialFetch) {
+		return actualNodeFetch.default(...args);
+	}
+
+	const fetch = globalObject.fetch as typeof NodeFetch.default;
+	return fetch(...args);
+}
+
+export default mockedNodeFetch;
+
+export const { Headers, Request, Response, FetchError } = actualNodeFetch;
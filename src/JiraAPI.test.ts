@@ -1,15 +1,54 @@
+import { setTimeout as sleep } from "node:timers/promises";
 import { afterEach, describe, expect, it } from "@jest/globals";
 import fetchMock from "fetch-mock";
-import { ZodError } from "zod";
-import type { GetComponentsResponse, GetIssuesByComponentsResponse } from "./JiraAPI";
+import { FetchError } from "node-fetch";
+import type {
+	GetAssignableUsersResponse,
+	GetComponentsResponse,
+	GetIssuesByComponentsResponse,
+	GetProjectResponse,
+	JiraSchemaWarning,
+	SearchIssuesByJqlResponse,
+	SearchProjectsResponse
+} from "./JiraAPI";
 import {
 	GetComponentsResponseSchema,
 	GetIssuesByComponentsResponseSchema,
 	JiraAPI,
-	JiraResponseError
+	JiraAuthError,
+	JiraNetworkError,
+	JiraNotFoundError,
+	JiraOfflineError,
+	JiraPermissionError,
+	JiraRateLimitError,
+	JiraResponseError,
+	JiraSchemaError,
+	JiraTimeoutError,
+	SearchIssuesByJqlResponseSchema,
+	ServerGetComponentsResponseSchema,
+	getJiraUserId
 } from "./JiraAPI";
 import ExampleGetComponentsResponse from "./__fixtures__/GetComponentsResponse.json";
 import ExampleGetIssuesByComponentsResponse from "./__fixtures__/GetIssuesByComponentsResponse.json";
+import ExampleServerGetComponentsResponse from "./__fixtures__/ServerGetComponentsResponse.json";
+import ExampleServerGetIssuesByComponentsResponse from "./__fixtures__/ServerGetIssuesByComponentsResponse.json";
+import type { CachedResponse, ResponseCache } from "./responseCache";
+
+function createMemoryCache(ttlMs: number): ResponseCache {
+	const responses = new Map<string, CachedResponse>();
+
+	return {
+		ttlMs: ttlMs,
+		get: async (key) => {
+			await Promise.resolve();
+			return responses.get(key);
+		},
+		set: async (key, response) => {
+			await Promise.resolve();
+			responses.set(key, response);
+		}
+	};
+}
 
 describe("JiraAPI (mocked)", () => {
 	afterEach(() => {
@@ -19,7 +58,7 @@ describe("JiraAPI (mocked)", () => {
 	describe("getComponents", () => {
 		const baseUrl = "https://xxx.atlassian.net";
 		const projectId = "XYZ";
-		const config = { baseUrl, projectId };
+		const config = { baseUrl };
 		const url = `${baseUrl}/rest/api/3/project/${projectId}/components`;
 
 		it("should fail when response status is not ok", async () => {
@@ -28,7 +67,7 @@ describe("JiraAPI (mocked)", () => {
 			fetchMock.mock(url, { status: 400 });
 
 			const api = new JiraAPI(config);
-			await expect(api.getComponents()).rejects.toThrow(JiraResponseError);
+			await expect(api.getComponents({ projectId })).rejects.toThrow(JiraResponseError);
 		});
 
 		it("should fail when response data is not valid", async () => {
@@ -37,7 +76,7 @@ describe("JiraAPI (mocked)", () => {
 			fetchMock.mock(url, { status: 200, body: { abc: "xyz" } });
 
 			const api = new JiraAPI(config);
-			await expect(api.getComponents()).rejects.toThrow(ZodError);
+			await expect(api.getComponents({ projectId })).rejects.toThrow(JiraSchemaError);
 		});
 
 		it("should succeed when response data is valid", async () => {
@@ -48,18 +87,628 @@ describe("JiraAPI (mocked)", () => {
 			fetchMock.mock(url, { status: 200, body: body });
 
 			const api = new JiraAPI(config);
-			await expect(api.getComponents()).resolves.toStrictEqual(
+			await expect(api.getComponents({ projectId })).resolves.toStrictEqual(
 				GetComponentsResponseSchema.parse(body)
 			);
 		});
 	});
 
-	describe("getIssuesByComponents", () => {
+	describe("credentials", () => {
+		const baseUrl = "https://xxx.atlassian.net";
+		const projectId = "XYZ";
+		const url = `${baseUrl}/rest/api/3/project/${projectId}/components`;
+
+		it("should send basic authorization header for email and API token", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(
+				{
+					url: url,
+					headers: {
+						Authorization: `Basic ${Buffer.from("me@xxx.com:secret-token").toString(
+							"base64"
+						)}`
+					}
+				},
+				{ status: 200, body: [] }
+			);
+
+			const api = new JiraAPI({
+				baseUrl: baseUrl,
+				credentials: { type: "basic", email: "me@xxx.com", apiToken: "secret-token" }
+			});
+			await expect(api.getComponents({ projectId })).resolves.toStrictEqual([]);
+		});
+
+		it("should send bearer authorization header for personal access token", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(
+				{ url: url, headers: { Authorization: "Bearer secret-pat" } },
+				{ status: 200, body: [] }
+			);
+
+			const api = new JiraAPI({
+				baseUrl: baseUrl,
+				credentials: { type: "bearer", personalAccessToken: "secret-pat" }
+			});
+			await expect(api.getComponents({ projectId })).resolves.toStrictEqual([]);
+		});
+	});
+
+	describe("errors", () => {
+		const baseUrl = "https://xxx.atlassian.net";
+		const projectId = "XYZ";
+		const url = `${baseUrl}/rest/api/3/project/${projectId}/components`;
+
+		it.each([
+			[401, JiraAuthError],
+			[403, JiraPermissionError],
+			[404, JiraNotFoundError],
+			[400, JiraResponseError]
+		])("should throw a matching error of status %i", async (status, errorClass) => {
+			expect.hasAssertions();
+
+			fetchMock.mock(url, { status: status, body: {} });
+
+			const api = new JiraAPI({ baseUrl });
+			await expect(api.getComponents({ projectId })).rejects.toThrow(errorClass);
+		});
+
+		it("should parse messages of a Jira error response", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(url, {
+				status: 404,
+				body: {
+					errorMessages: ["No project could be found with key 'XYZ'."],
+					errors: { projectKey: "Invalid project key." }
+				}
+			});
+
+			const api = new JiraAPI({ baseUrl });
+			await expect(api.getComponents({ projectId })).rejects.toMatchObject({
+				name: "JiraNotFoundError",
+				status: 404,
+				message:
+					"Not Found - No project could be found with key 'XYZ'. - projectKey: Invalid project key.",
+				errorMessages: [
+					"No project could be found with key 'XYZ'.",
+					"projectKey: Invalid project key."
+				]
+			});
+		});
+
+		it("should ignore bodies of errors that are not JSON", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(url, { status: 403, body: "<html>Forbidden</html>" });
+
+			const api = new JiraAPI({ baseUrl });
+			await expect(api.getComponents({ projectId })).rejects.toMatchObject({
+				message: "Forbidden",
+				errorMessages: []
+			});
+		});
+
+		it("should throw a rate limit error after the last attempt", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(url, { status: 429, headers: { "Retry-After": "0" } });
+
+			const api = new JiraAPI({ baseUrl: baseUrl, retry: { maxAttempts: 2 } });
+			await expect(api.getComponents({ projectId })).rejects.toThrow(
+				new JiraRateLimitError({ url: url, status: 429, message: "Too Many Requests" })
+			);
+			expect(fetchMock.calls()).toHaveLength(2);
+		});
+
+		it("should throw a network error when Jira can't be reached", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(url, {
+				throws: new FetchError("getaddrinfo ENOTFOUND xxx.atlassian.net", "system", {
+					name: "Error",
+					message: "getaddrinfo ENOTFOUND xxx.atlassian.net",
+					code: "ENOTFOUND"
+				})
+			});
+
+			const api = new JiraAPI({ baseUrl });
+			const promise = api.getComponents({ projectId });
+
+			await expect(promise).rejects.toThrow(JiraNetworkError);
+			await expect(promise).rejects.toMatchObject({
+				code: "ENOTFOUND",
+				message: `Request GET ${url} failed: getaddrinfo ENOTFOUND xxx.atlassian.net`
+			});
+		});
+
+		it("should throw a schema error with issues of an unexpected response", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(url, { status: 200, body: [{ id: 1 }] });
+
+			const api = new JiraAPI({ baseUrl });
+			await expect(api.getComponents({ projectId })).rejects.toMatchObject({
+				name: "JiraSchemaError",
+				url: url,
+				issues: [
+					expect.objectContaining({ path: [0, "id"] }),
+					expect.objectContaining({ path: [0, "name"] })
+				]
+			});
+		});
+	});
+
+	describe("validation", () => {
+		const baseUrl = "https://xxx.atlassian.net";
+		const projectId = "XYZ";
+		const url = `${baseUrl}/rest/api/3/project/${projectId}/components`;
+		const [firstComponent, secondComponent] = ExampleGetComponentsResponse;
+
+		it("should skip records that don't match in the lenient mode", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(url, {
+				status: 200,
+				body: [firstComponent, { id: "10001", name: null }, secondComponent, {}]
+			});
+
+			const warnings: JiraSchemaWarning[] = [];
+			const api = new JiraAPI({
+				baseUrl: baseUrl,
+				validation: "lenient",
+				onSchemaWarning: (warning) => {
+					warnings.push(warning);
+				}
+			});
+
+			await expect(api.getComponents({ projectId })).resolves.toStrictEqual(
+				GetComponentsResponseSchema.parse([firstComponent, secondComponent])
+			);
+			expect(warnings).toStrictEqual([
+				{
+					url: url,
+					path: "1",
+					recordId: "10001",
+					issues: [expect.objectContaining({ path: [1, "name"] })]
+				},
+				{
+					url: url,
+					path: "3",
+					recordId: undefined,
+					issues: [
+						expect.objectContaining({ path: [3, "id"] }),
+						expect.objectContaining({ path: [3, "name"] })
+					]
+				}
+			]);
+		});
+
+		it("should skip issues of a search page in the lenient mode", async () => {
+			expect.hasAssertions();
+
+			const { issues } = ExampleGetIssuesByComponentsResponse;
+
+			fetchMock.mock(`begin:${baseUrl}/rest/api/3/search/jql?`, {
+				status: 200,
+				body: { issues: [{ id: "1", fields: { components: null } }, ...issues] }
+			});
+
+			const warnings: JiraSchemaWarning[] = [];
+			const api = new JiraAPI({
+				baseUrl: baseUrl,
+				validation: "lenient",
+				onSchemaWarning: (warning) => {
+					warnings.push(warning);
+				}
+			});
+
+			await expect(
+				api.getIssuesByComponents({ projectId: projectId, componentIds: ["a"] })
+			).resolves.toStrictEqual(SearchIssuesByJqlResponseSchema.parse({ issues }).issues);
+			expect(warnings).toMatchObject([{ path: "issues.0", recordId: "1" }]);
+		});
+
+		it("should fail on mismatches outside of records in the lenient mode", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(`begin:${baseUrl}/rest/api/3/search/jql?`, {
+				status: 200,
+				body: { issues: [], isLast: "yes" }
+			});
+
+			const api = new JiraAPI({ baseUrl: baseUrl, validation: "lenient" });
+			await expect(
+				api.getIssuesByComponents({ projectId: projectId, componentIds: ["a"] })
+			).rejects.toThrow(JiraSchemaError);
+		});
+
+		it("should not validate responses when validation is off", async () => {
+			expect.hasAssertions();
+
+			const body = [{ id: 10_001 }];
+
+			fetchMock.mock(url, { status: 200, body: body });
+
+			const api = new JiraAPI({ baseUrl: baseUrl, validation: "off" });
+			await expect(api.getComponents({ projectId })).resolves.toStrictEqual(body);
+		});
+	});
+
+	describe("retries", () => {
+		const baseUrl = "https://xxx.atlassian.net";
+		const projectId = "XYZ";
+		const retry = { maxAttempts: 3, baseDelayMs: 0 };
+		const config = { baseUrl, retry };
+		const url = `${baseUrl}/rest/api/3/project/${projectId}/components`;
+
+		it("should retry rate limited and failed requests", async () => {
+			expect.hasAssertions();
+
+			const statuses = [429, 503, 200];
+			let attempts = 0;
+
+			fetchMock.mock(url, () => {
+				const status = statuses[attempts++];
+				return { status: status, body: [], headers: { "Retry-After": "0" } };
+			});
+
+			const api = new JiraAPI(config);
+			await expect(api.getComponents({ projectId })).resolves.toStrictEqual([]);
+			expect(attempts).toBe(3);
+		});
+
+		it("should fail when max attempts are exceeded", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(url, { status: 429 });
+
+			const api = new JiraAPI(config);
+			await expect(api.getComponents({ projectId })).rejects.toThrow(JiraResponseError);
+			expect(fetchMock.calls()).toHaveLength(3);
+		});
+
+		it("should not retry client errors", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(url, { status: 404 });
+
+			const api = new JiraAPI(config);
+			await expect(api.getComponents({ projectId })).rejects.toThrow(JiraResponseError);
+			expect(fetchMock.calls()).toHaveLength(1);
+		});
+	});
+
+	describe("timeouts", () => {
+		const baseUrl = "https://xxx.atlassian.net";
+		const projectId = "XYZ";
+		const url = `${baseUrl}/rest/api/3/project/${projectId}/components`;
+
+		it("should fail when a request takes longer than the request timeout", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(url, { status: 200, body: [] }, { delay: 1000 });
+
+			const api = new JiraAPI({ baseUrl: baseUrl, requestTimeout: 20 });
+			await expect(api.getComponents({ projectId })).rejects.toThrow(
+				new JiraTimeoutError({
+					url: url,
+					message: `Request GET ${url} timed out after 20 ms.`
+				})
+			);
+		});
+
+		it("should fail when a signal times out", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(url, { status: 200, body: [] }, { delay: 1000 });
+
+			const api = new JiraAPI({ baseUrl });
+			await expect(
+				api.getComponents({ projectId: projectId, signal: AbortSignal.timeout(20) })
+			).rejects.toThrow(
+				`Request GET ${url} was cancelled, as its deadline was exceeded.`
+			);
+		});
+
+		it("should fail with a reason of an aborted signal", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(url, { status: 200, body: [] });
+
+			const controller = new AbortController();
+			const reason = new Error("Cancelled by user.");
+			controller.abort(reason);
+
+			const api = new JiraAPI({ baseUrl });
+			await expect(
+				api.getComponents({ projectId: projectId, signal: controller.signal })
+			).rejects.toBe(reason);
+			expect(fetchMock.called()).toBe(false);
+		});
+
+		it("should not wait for a retry of a cancelled request", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(url, { status: 503 });
+
+			const retry = { maxAttempts: 3, baseDelayMs: 60_000, maxDelayMs: 60_000 };
+			const api = new JiraAPI({ baseUrl, retry });
+			await expect(
+				api.getComponents({ projectId: projectId, signal: AbortSignal.timeout(20) })
+			).rejects.toThrow(JiraTimeoutError);
+			expect(fetchMock.calls()).toHaveLength(1);
+		});
+
+		it("should throw an error if requestTimeout is not a positive safe integer", () => {
+			expect(() => {
+				return new JiraAPI({ baseUrl: baseUrl, requestTimeout: 0 });
+			}).toThrow(TypeError);
+		});
+	});
+
+	describe("cache", () => {
+		const baseUrl = "https://xxx.atlassian.net";
+		const projectId = "XYZ";
+		const url = `${baseUrl}/rest/api/3/project/${projectId}`;
+		const project: GetProjectResponse = { id: "1", key: projectId, name: "Project XYZ" };
+
+		it("should not send requests while cached responses are fresh", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(url, { status: 200, body: project });
+
+			const api = new JiraAPI({ baseUrl: baseUrl, cache: createMemoryCache(60_000) });
+			await api.getProject({ projectId });
+
+			await expect(api.getProject({ projectId })).resolves.toStrictEqual(project);
+			expect(fetchMock.calls()).toHaveLength(1);
+		});
+
+		it("should revalidate stale responses with ETag and Last-Modified", async () => {
+			expect.hasAssertions();
+
+			const lastModified = "Wed, 21 Oct 2026 07:28:00 GMT";
+
+			fetchMock.mock(
+				{
+					name: "notModified",
+					url: url,
+					headers: { "If-None-Match": '"v1"', "If-Modified-Since": lastModified }
+				},
+				{ status: 304 }
+			);
+			fetchMock.mock(url, {
+				status: 200,
+				body: project,
+				headers: { "ETag": '"v1"', "Last-Modified": lastModified }
+			});
+
+			const api = new JiraAPI({ baseUrl: baseUrl, cache: createMemoryCache(0) });
+			await api.getProject({ projectId });
+
+			await expect(api.getProject({ projectId })).resolves.toStrictEqual(project);
+			expect(fetchMock.called("notModified")).toBe(true);
+		});
+
+		it("should keep responses of different users apart", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(url, { status: 200, body: project });
+
+			const cache = createMemoryCache(60_000);
+			const credentials = { type: "bearer" as const, personalAccessToken: "abc" };
+
+			await new JiraAPI({ baseUrl, cache }).getProject({ projectId });
+			await new JiraAPI({ baseUrl, cache, credentials }).getProject({ projectId });
+
+			expect(fetchMock.calls()).toHaveLength(2);
+		});
+
+		it("should answer only from the cache in the offline mode", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(url, { status: 200, body: project });
+
+			const cache = createMemoryCache(0);
+			await new JiraAPI({ baseUrl, cache }).getProject({ projectId });
+
+			const api = new JiraAPI({ baseUrl: baseUrl, cache: cache, offline: true });
+
+			await expect(api.getProject({ projectId })).resolves.toStrictEqual(project);
+			await expect(api.getComponents({ projectId })).rejects.toThrow(JiraOfflineError);
+			await expect(
+				api.updateComponentLead({ componentId: "10130", userId: "abc" })
+			).rejects.toThrow(JiraOfflineError);
+			expect(fetchMock.calls()).toHaveLength(1);
+		});
+
+		it("should require a cache in the offline mode", () => {
+			expect(() => {
+				return new JiraAPI({ baseUrl: baseUrl, offline: true });
+			}).toThrow(TypeError);
+		});
+	});
+
+	describe("searchProjects", () => {
+		const baseUrl = "https://xxx.atlassian.net";
+		const url = `begin:${baseUrl}/rest/api/3/project/search`;
+
+		const projects = ["A", "B", "C"].map((key, index) => {
+			return { id: String(index), key: key, name: `Project ${key}` };
+		});
+
+		it("should fail when response data is not valid", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(url, { status: 200, body: { abc: "xyz" } });
+
+			const api = new JiraAPI({ baseUrl });
+			await expect(api.searchProjects()).rejects.toThrow(JiraSchemaError);
+		});
+
+		it("should be able to handle paginated responses", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(url, (requestUrl: string) => {
+				const startAt = Number(new URL(requestUrl).searchParams.get("startAt"));
+
+				const page: SearchProjectsResponse = {
+					startAt: startAt,
+					maxResults: 2,
+					total: projects.length,
+					values: projects.slice(startAt, startAt + 2)
+				};
+
+				return { status: 200, body: page };
+			});
+
+			const api = new JiraAPI({ baseUrl });
+			await expect(api.searchProjects()).resolves.toStrictEqual(projects);
+			expect(fetchMock.calls()).toHaveLength(2);
+		});
+	});
+
+	describe("getAssignableUsers", () => {
+		const baseUrl = "https://xxx.atlassian.net";
+		const url = `${baseUrl}/rest/api/3/user/assignable/search?project=XYZ&accountId=abc`;
+
+		it("should search for a given user in a given project", async () => {
+			expect.hasAssertions();
+
+			const body: GetAssignableUsersResponse = [
+				{ accountId: "abc", displayName: "John Doe" }
+			];
+
+			fetchMock.mock(url, { status: 200, body: body });
+
+			const api = new JiraAPI({ baseUrl });
+			await expect(
+				api.getAssignableUsers({ projectId: "XYZ", userId: "abc" })
+			).resolves.toStrictEqual(body);
+		});
+	});
+
+	describe("getProject", () => {
+		const baseUrl = "https://xxx.atlassian.net";
+		const url = `${baseUrl}/rest/api/3/project/XYZ`;
+
+		it("should return project with its lead", async () => {
+			expect.hasAssertions();
+
+			const body: GetProjectResponse = {
+				id: "1",
+				key: "XYZ",
+				name: "Project XYZ",
+				lead: { accountId: "abc", displayName: "John Doe", active: true }
+			};
+
+			fetchMock.mock(url, { status: 200, body: body });
+
+			const api = new JiraAPI({ baseUrl });
+			await expect(api.getProject({ projectId: "XYZ" })).resolves.toStrictEqual(body);
+		});
+	});
+
+	describe("updateComponentLead", () => {
+		const baseUrl = "https://xxx.atlassian.net";
+		const url = `${baseUrl}/rest/api/3/component/10130`;
+
+		it("should send lead account id as JSON", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(
+				{
+					url: url,
+					method: "PUT",
+					headers: { "Content-Type": "application/json" },
+					body: { leadAccountId: "abc" }
+				},
+				{ status: 200, body: {} }
+			);
+
+			const api = new JiraAPI({ baseUrl });
+			await expect(
+				api.updateComponentLead({ componentId: "10130", userId: "abc" })
+			).resolves.toBeUndefined();
+		});
+
+		it("should fail when response status is not ok", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock({ url: url, method: "PUT" }, { status: 403 });
+
+			const api = new JiraAPI({ baseUrl });
+			await expect(
+				api.updateComponentLead({ componentId: "10130", userId: "abc" })
+			).rejects.toThrow(JiraResponseError);
+		});
+	});
+
+	describe("countIssuesByComponent", () => {
+		const baseUrl = "https://xxx.atlassian.net";
+		const query = { projectId: "XYZ", componentId: "10130" };
+
+		it("should use the approximate count on Cloud", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(
+				{
+					url: `${baseUrl}/rest/api/3/search/approximate-count`,
+					method: "POST",
+					body: { jql: "project = XYZ AND component = 10130" }
+				},
+				{ status: 200, body: { count: 42 } }
+			);
+
+			const api = new JiraAPI({ baseUrl });
+			await expect(api.countIssuesByComponent(query)).resolves.toBe(42);
+		});
+
+		it("should use total of an empty page with offset pagination", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(
+				{
+					url: `begin:${baseUrl}/rest/api/2/search?`,
+					query: {
+						jql: "project = XYZ AND component = 10130",
+						maxResults: "0"
+					}
+				},
+				{ status: 200, body: { startAt: 0, maxResults: 0, total: 7, issues: [] } }
+			);
+
+			const api = new JiraAPI({ baseUrl: baseUrl, flavor: "server" });
+			await expect(api.countIssuesByComponent(query)).resolves.toBe(7);
+		});
+
+		it("should fail when response data is not valid", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(`${baseUrl}/rest/api/3/search/approximate-count`, {
+				status: 200,
+				body: { total: 42 }
+			});
+
+			const api = new JiraAPI({ baseUrl });
+			await expect(api.countIssuesByComponent(query)).rejects.toThrow(JiraSchemaError);
+		});
+	});
+
+	describe("getIssuesByComponents (token pagination)", () => {
 		const baseUrl = "https://xxx.atlassian.net";
 		const projectId = "XYZ";
-		const config = { baseUrl, projectId };
-		const url = `begin:${baseUrl}/rest/api/3/search`;
-		const query: { componentIds: string[] } = { componentIds: ["a", "b", "c"] };
+		const config = { baseUrl };
+		const url = `begin:${baseUrl}/rest/api/3/search/jql?`;
+		const query: { projectId: string; componentIds: string[] } = {
+			projectId: projectId,
+			componentIds: ["a", "b", "c"]
+		};
+
+		const { issues } = ExampleGetIssuesByComponentsResponse;
 
 		it("should fail when response status is not ok", async () => {
 			expect.hasAssertions();
@@ -76,7 +725,153 @@ describe("JiraAPI (mocked)", () => {
 			fetchMock.mock(url, { status: 200, body: { abc: "xyz" } });
 
 			const api = new JiraAPI(config);
-			await expect(api.getIssuesByComponents(query)).rejects.toThrow(ZodError);
+			await expect(api.getIssuesByComponents(query)).rejects.toThrow(JiraSchemaError);
+		});
+
+		it("should be used by default on Cloud", async () => {
+			expect.hasAssertions();
+
+			const body: SearchIssuesByJqlResponse = { issues: issues, isLast: true };
+
+			fetchMock.mock(url, { status: 200, body: body });
+
+			const api = new JiraAPI(config);
+			await expect(api.getIssuesByComponents(query)).resolves.toStrictEqual(
+				SearchIssuesByJqlResponseSchema.parse(body).issues
+			);
+
+			const searchParams = new URL(String(fetchMock.lastUrl())).searchParams;
+			expect(Object.fromEntries(searchParams)).toStrictEqual({
+				fields: "id,components",
+				jql: `project = ${projectId} AND component IN (a, b, c)`,
+				maxResults: "5000"
+			});
+		});
+
+		it("should fetch pages one by one until there is no next page token", async () => {
+			expect.hasAssertions();
+
+			const pages = new Map<string | null, SearchIssuesByJqlResponse>([
+				[null, { issues: issues.slice(0, 3), nextPageToken: "3" }],
+				["3", { issues: issues.slice(3, 6), nextPageToken: "6" }],
+				["6", { issues: issues.slice(6) }]
+			]);
+			const requestedTokens: (string | null)[] = [];
+
+			fetchMock.mock(url, (requestUrl: string) => {
+				const token = new URL(requestUrl).searchParams.get("nextPageToken");
+				requestedTokens.push(token);
+
+				return { status: 200, body: pages.get(token) };
+			});
+
+			const api = new JiraAPI(config);
+
+			await expect(api.getIssuesByComponents(query)).resolves.toStrictEqual(
+				GetIssuesByComponentsResponseSchema.parse(ExampleGetIssuesByComponentsResponse)
+					.issues
+			);
+			expect(requestedTokens).toStrictEqual([null, "3", "6"]);
+		});
+
+		it("should stop at the last page", async () => {
+			expect.hasAssertions();
+
+			const body: SearchIssuesByJqlResponse = {
+				issues: issues,
+				nextPageToken: "xyz",
+				isLast: true
+			};
+
+			fetchMock.mock(url, { status: 200, body: body });
+
+			const api = new JiraAPI(config);
+			await expect(api.getIssuesByComponents(query)).resolves.toHaveLength(issues.length);
+			expect(fetchMock.calls()).toHaveLength(1);
+		});
+
+		it("should be able to forward errors in paginated responses", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(
+				{ name: "nextPage", url: url, query: { nextPageToken: "abc" } },
+				{ status: 400 }
+			);
+			fetchMock.mock(url, {
+				status: 200,
+				body: { issues: issues, nextPageToken: "abc" }
+			});
+
+			const api = new JiraAPI(config);
+			await expect(api.getIssuesByComponents(query)).rejects.toThrow(JiraResponseError);
+		});
+
+		it("should split a long list of components into several searches", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(url, { status: 200, body: { issues: issues, isLast: true } });
+
+			const componentIds = Array.from({ length: 500 }, (value, index) => {
+				return String(10_000 + index);
+			});
+
+			const api = new JiraAPI(config);
+
+			await expect(
+				api.getIssuesByComponents({ projectId, componentIds })
+			).resolves.toStrictEqual(
+				GetIssuesByComponentsResponseSchema.parse(ExampleGetIssuesByComponentsResponse)
+					.issues
+			);
+
+			const searchedComponentIds = fetchMock.calls().map(([requestUrl]) => {
+				const jql = String(new URL(requestUrl).searchParams.get("jql"));
+				expect(jql.length).toBeLessThanOrEqual(2100);
+
+				return jql.replace(/^.* IN \((.*)\)$/u, "$1").split(", ");
+			});
+
+			expect(searchedComponentIds.length).toBeGreaterThan(1);
+			expect(searchedComponentIds.flat()).toStrictEqual(componentIds);
+		});
+
+		it("should not be supported on Data Center / Server", () => {
+			expect(() => {
+				return new JiraAPI({
+					...config,
+					flavor: "server",
+					issueSearchPagination: "token"
+				});
+			}).toThrow(TypeError);
+		});
+	});
+
+	describe("getIssuesByComponents (offset pagination)", () => {
+		const baseUrl = "https://xxx.atlassian.net";
+		const projectId = "XYZ";
+		const config = { baseUrl: baseUrl, issueSearchPagination: "offset" as const };
+		const url = `begin:${baseUrl}/rest/api/3/search?`;
+		const query: { projectId: string; componentIds: string[] } = {
+			projectId: projectId,
+			componentIds: ["a", "b", "c"]
+		};
+
+		it("should fail when response status is not ok", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(url, { status: 400 });
+
+			const api = new JiraAPI(config);
+			await expect(api.getIssuesByComponents(query)).rejects.toThrow(JiraResponseError);
+		});
+
+		it("should fail when response data is not valid", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(url, { status: 200, body: { abc: "xyz" } });
+
+			const api = new JiraAPI(config);
+			await expect(api.getIssuesByComponents(query)).rejects.toThrow(JiraSchemaError);
 		});
 
 		it("should succeed when response data is valid", async () => {
@@ -136,6 +931,68 @@ describe("JiraAPI (mocked)", () => {
 			]);
 		});
 
+		it("should limit number of concurrently fetched pages", async () => {
+			expect.hasAssertions();
+
+			const MAX_RESULTS_UPPER_LIMIT = 1;
+			const body: GetIssuesByComponentsResponse = ExampleGetIssuesByComponentsResponse;
+
+			let runningCount = 0;
+			let maxRunningCount = 0;
+
+			fetchMock.mock(url, async (requestUrl: string) => {
+				const startAt = Number(new URL(requestUrl).searchParams.get("startAt"));
+
+				runningCount++;
+				maxRunningCount = Math.max(maxRunningCount, runningCount);
+				await sleep(5);
+				runningCount--;
+
+				const chunk: GetIssuesByComponentsResponse = {
+					...body,
+					startAt: startAt,
+					maxResults: MAX_RESULTS_UPPER_LIMIT,
+					issues: body.issues.slice(startAt, startAt + MAX_RESULTS_UPPER_LIMIT)
+				};
+
+				return { status: 200, body: chunk };
+			});
+
+			const api = new JiraAPI({ ...config, maxConcurrency: 3 });
+
+			await expect(api.getIssuesByComponents(query)).resolves.toStrictEqual(
+				GetIssuesByComponentsResponseSchema.parse(body).issues
+			);
+			expect(fetchMock.calls()).toHaveLength(body.issues.length);
+			expect(maxRunningCount).toBe(3);
+		});
+
+		it("should stop fetching pages when cancelled", async () => {
+			expect.hasAssertions();
+
+			const body: GetIssuesByComponentsResponse = ExampleGetIssuesByComponentsResponse;
+			const controller = new AbortController();
+
+			fetchMock.mock(
+				{ name: "firstPage", url: url, query: { startAt: "0" } },
+				{
+					status: 200,
+					body: { ...body, maxResults: 1, issues: body.issues.slice(0, 1) }
+				}
+			);
+			fetchMock.mock({ name: "restPages", url: url }, () => {
+				controller.abort(new Error("Cancelled by user."));
+				return { status: 200, body: body };
+			});
+
+			const api = new JiraAPI({ ...config, maxConcurrency: 1 });
+
+			await expect(
+				api.getIssuesByComponents({ ...query, signal: controller.signal })
+			).rejects.toThrow("Cancelled by user.");
+			expect(fetchMock.calls()).toHaveLength(2);
+		});
+
 		it("should be able to forward errors in paginated responses", async () => {
 			expect.hasAssertions();
 
@@ -165,4 +1022,117 @@ describe("JiraAPI (mocked)", () => {
 			await expect(api.getIssuesByComponents(query)).rejects.toThrow(JiraResponseError);
 		});
 	});
+
+	describe("server flavor", () => {
+		const baseUrl = "https://jira.xxx.com";
+		const projectId = "XYZ";
+		const config = { baseUrl: baseUrl, flavor: "server" as const };
+
+		it("should use REST API v2 to get components with server users as leads", async () => {
+			expect.hasAssertions();
+
+			const body: GetComponentsResponse = ExampleServerGetComponentsResponse;
+
+			fetchMock.mock(`${baseUrl}/rest/api/2/project/${projectId}/components`, {
+				status: 200,
+				body: body
+			});
+
+			const api = new JiraAPI(config);
+			const components = await api.getComponents({ projectId });
+
+			expect(components).toStrictEqual(ServerGetComponentsResponseSchema.parse(body));
+			expect(components[1]?.lead).toMatchObject({
+				key: "JIRAUSER10100",
+				name: "ahevia"
+			});
+		});
+
+		it("should fail when cloud users are returned as leads", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(`${baseUrl}/rest/api/2/project/${projectId}/components`, {
+				status: 200,
+				body: ExampleGetComponentsResponse
+			});
+
+			const api = new JiraAPI(config);
+			await expect(api.getComponents({ projectId })).rejects.toThrow(JiraSchemaError);
+		});
+
+		it("should use REST API v2 to search for issues", async () => {
+			expect.hasAssertions();
+
+			const body: GetIssuesByComponentsResponse =
+				ExampleServerGetIssuesByComponentsResponse;
+
+			fetchMock.mock(`begin:${baseUrl}/rest/api/2/search`, { status: 200, body: body });
+
+			const api = new JiraAPI(config);
+			await expect(
+				api.getIssuesByComponents({
+					projectId: projectId,
+					componentIds: ["10130", "10128"]
+				})
+			).resolves.toStrictEqual(GetIssuesByComponentsResponseSchema.parse(body).issues);
+
+			expect(fetchMock.lastUrl()).toContain("maxResults=1000");
+		});
+
+		it("should list all projects without pagination", async () => {
+			expect.hasAssertions();
+
+			const projects = [{ id: "1", key: "A", name: "Project A" }];
+
+			fetchMock.mock(`${baseUrl}/rest/api/2/project`, { status: 200, body: projects });
+
+			const api = new JiraAPI(config);
+			await expect(api.searchProjects()).resolves.toStrictEqual(projects);
+		});
+
+		it("should identify users with username instead of account id", () => {
+			expect.hasAssertions();
+
+			expect(
+				getJiraUserId({ key: "JIRAUSER10100", name: "jdoe", displayName: "John Doe" })
+			).toBe("jdoe");
+			expect(getJiraUserId({ accountId: "abc", displayName: "John Doe" })).toBe("abc");
+		});
+
+		it("should update component lead with username", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(
+				{
+					url: `${baseUrl}/rest/api/2/component/10130`,
+					method: "PUT",
+					body: { leadUserName: "jdoe" }
+				},
+				{ status: 200, body: {} }
+			);
+
+			const api = new JiraAPI(config);
+			await expect(
+				api.updateComponentLead({ componentId: "10130", userId: "jdoe" })
+			).resolves.toBeUndefined();
+		});
+
+		it("should search for assignable users by username", async () => {
+			expect.hasAssertions();
+
+			const body: GetAssignableUsersResponse = [
+				{ key: "JIRAUSER10100", name: "jdoe", displayName: "John Doe" }
+			];
+
+			fetchMock.mock(
+				`${baseUrl}/rest/api/2/user/assignable/search?project=XYZ&username=jdoe`,
+				{ status: 200, body: body }
+			);
+
+			const api = new JiraAPI(config);
+			await expect(
+				api.getAssignableUsers({ projectId: "XYZ", userId: "jdoe" })
+			).resolves.toStrictEqual(body);
+		});
+	});
 });
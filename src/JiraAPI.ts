@@ -1,37 +1,174 @@
-import nodeFetch from "node-fetch";
-import z, { ZodError } from "zod";
+import { setTimeout as sleep } from "node:timers/promises";
+import z from "zod";
+import type { ConcurrencyLimiter } from "./createConcurrencyLimiter";
+import { createConcurrencyLimiter } from "./createConcurrencyLimiter";
+import { createJqlBatches } from "./createJqlBatches";
 import { createPaginationChunks } from "./createPaginationChunks";
-
-/**
- * NOTE:
- * In NodeJS 18.0.0+ compatible environment, native fetch would be used instead.
- */
-declare global {
-	let fetch: typeof nodeFetch;
-}
-fetch = nodeFetch;
+import type {
+	JiraTransport,
+	JiraTransportMiddleware,
+	JiraTransportRequest,
+	JiraTransportResponse
+} from "./jiraTransport";
+import { applyTransportMiddlewares, fetchTransport } from "./jiraTransport";
+import type { SkippedRecord } from "./parseLeniently";
+import { parseLeniently } from "./parseLeniently";
+import type { JiraCredentials } from "./resolveJiraCredentials";
+import { createAuthorizationHeader, redactCredentials } from "./resolveJiraCredentials";
+import type { CachedResponse, ResponseCache } from "./responseCache";
+import { createResponseCacheKey, isCachedResponseFresh } from "./responseCache";
+import type { RetryPolicy } from "./retryPolicy";
+import {
+	DEFAULT_RETRY_POLICY,
+	getRequestedRetryDelay,
+	getRetryDelay,
+	isRetryableStatus
+} from "./retryPolicy";
 
 /* -------------------------------------------------------------------------- */
 /*                                CUSTOM ERRORS                               */
 /* -------------------------------------------------------------------------- */
 
+type JiraResponseErrorOptions = {
+	url: string | URL;
+	status: number;
+	message: string;
+
+	/** Messages of a Jira error response, see `getJiraErrorMessages`. */
+	errorMessages?: string[] | undefined;
+};
+
 export class JiraResponseError extends Error {
 	readonly status: number;
 	readonly url: string | URL;
+	readonly errorMessages: string[];
+
+	constructor({ url, status, message, errorMessages = [] }: JiraResponseErrorOptions) {
+		super(message);
+		this.url = url;
+		this.status = status;
+		this.errorMessages = errorMessages;
+		this.name = "JiraResponseError";
+	}
+}
+
+/**
+ * 401 - credentials are missing, wrong, or no longer valid.
+ */
+export class JiraAuthError extends JiraResponseError {
+	constructor(opts: JiraResponseErrorOptions) {
+		super(opts);
+		this.name = "JiraAuthError";
+	}
+}
+
+/**
+ * 403 - the user is authenticated, but is not allowed to do the request.
+ */
+export class JiraPermissionError extends JiraResponseError {
+	constructor(opts: JiraResponseErrorOptions) {
+		super(opts);
+		this.name = "JiraPermissionError";
+	}
+}
+
+/**
+ * 404 - the resource doesn't exist (Jira responds the same way when the user can't see it).
+ */
+export class JiraNotFoundError extends JiraResponseError {
+	constructor(opts: JiraResponseErrorOptions) {
+		super(opts);
+		this.name = "JiraNotFoundError";
+	}
+}
+
+/**
+ * 429 - the request was still rate limited after the last attempt allowed by the retry policy.
+ */
+export class JiraRateLimitError extends JiraResponseError {
+	/** Delay requested by Jira, see `getRequestedRetryDelay`. */
+	readonly retryAfterMs: number | undefined;
+
+	constructor(opts: JiraResponseErrorOptions & { retryAfterMs?: number | undefined }) {
+		super(opts);
+		this.retryAfterMs = opts.retryAfterMs;
+		this.name = "JiraRateLimitError";
+	}
+}
+
+/**
+ * Thrown when a response doesn't match its schema, which means that Jira API has changed
+ * (or that a wrong API flavor is used).
+ */
+export class JiraSchemaError extends Error {
+	readonly url: string | URL;
+	readonly issues: z.ZodIssue[];
 
 	constructor({
 		url,
-		status,
+		issues,
 		message
 	}: {
 		url: string | URL;
-		status: number;
+		issues: z.ZodIssue[];
 		message: string;
 	}) {
 		super(message);
 		this.url = url;
-		this.status = status;
-		this.name = "JiraResponseError";
+		this.issues = issues;
+		this.name = "JiraSchemaError";
+	}
+}
+
+/**
+ * Thrown when Jira can't be reached at all (like on a DNS failure, or a refused connection).
+ */
+export class JiraNetworkError extends Error {
+	readonly url: string | URL;
+
+	/** System error code, like `ENOTFOUND` or `ECONNREFUSED`. */
+	readonly code: string | undefined;
+
+	constructor({
+		url,
+		code,
+		message
+	}: {
+		url: string | URL;
+		code?: string | undefined;
+		message: string;
+	}) {
+		super(message);
+		this.url = url;
+		this.code = code;
+		this.name = "JiraNetworkError";
+	}
+}
+
+/**
+ * Thrown in the offline mode, when a response is not cached, or a request would change data.
+ */
+export class JiraOfflineError extends Error {
+	readonly url: string | URL;
+
+	constructor({ url, message }: { url: string | URL; message: string }) {
+		super(message);
+		this.url = url;
+		this.name = "JiraOfflineError";
+	}
+}
+
+/**
+ * Thrown when a request takes longer than `JiraAPIConfig.requestTimeout`,
+ * or when it's cancelled by a signal that timed out (like a deadline of the whole run).
+ */
+export class JiraTimeoutError extends Error {
+	readonly url: string | URL;
+
+	constructor({ url, message }: { url: string | URL; message: string }) {
+		super(message);
+		this.url = url;
+		this.name = "JiraTimeoutError";
 	}
 }
 
@@ -50,20 +187,87 @@ export class JiraResponseError extends Error {
  * Best approach when it comes to data validation (assertion vs parsing) depends on a given use case.
  */
 
-export type GetComponentsResponse = z.infer<typeof GetComponentsResponseSchema>;
+/**
+ * Jira Cloud identifies users with `accountId`.
+ */
+export type JiraCloudUser = z.infer<typeof JiraCloudUserSchema>;
 
-export const GetComponentsResponseSchema = z
-	.object({
-		id: z.string(),
-		name: z.string(),
-		lead: z
+export const JiraCloudUserSchema = z.object({
+	accountId: z.string(),
+	displayName: z.string(),
+	active: z.boolean().optional()
+});
+
+/**
+ * Jira Data Center / Server identifies users with `key` and `name` (username).
+ */
+export type JiraServerUser = z.infer<typeof JiraServerUserSchema>;
+
+export const JiraServerUserSchema = z.object({
+	key: z.string(),
+	name: z.string(),
+	displayName: z.string(),
+	active: z.boolean().optional()
+});
+
+export type JiraUser = JiraCloudUser | JiraServerUser;
+
+function createGetComponentsResponseSchema<T extends z.ZodTypeAny>(leadSchema: T) {
+	return z
+		.object({
+			id: z.string(),
+			name: z.string(),
+			description: z.string().optional(),
+			assigneeType: z.string().optional(),
+			lead: leadSchema.optional()
+		})
+		.array();
+}
+
+export type GetComponentsResponse = (
+	| z.infer<typeof GetComponentsResponseSchema>[number]
+	| z.infer<typeof ServerGetComponentsResponseSchema>[number]
+)[];
+
+export const GetComponentsResponseSchema =
+	createGetComponentsResponseSchema(JiraCloudUserSchema);
+
+export const ServerGetComponentsResponseSchema =
+	createGetComponentsResponseSchema(JiraServerUserSchema);
+
+export type JiraIssue = z.infer<typeof JiraIssueSchema>;
+
+export const JiraIssueSchema = z.object({
+	id: z.string(),
+	fields: z.object({
+		components: z
 			.object({
-				accountId: z.string(),
-				displayName: z.string()
+				id: z.string(),
+				name: z.string()
 			})
-			.optional()
+			.array(),
+
+		/*
+				Fields below are fetched only on request (see `ISSUE_EXTRA_FIELDS`).
+			*/
+
+		/** `null` when unassigned. */
+		assignee: z.union([JiraCloudUserSchema, JiraServerUserSchema]).nullish(),
+		status: z
+			.object({
+				name: z.string(),
+				statusCategory: z.object({ key: z.string(), name: z.string() })
+			})
+			.optional(),
+		issuetype: z.object({ name: z.string() }).optional(),
+
+		/** `null` when priorities are disabled. */
+		priority: z.object({ name: z.string() }).nullish(),
+
+		/** ISO 8601 timestamp. */
+		updated: z.string().optional()
 	})
-	.array();
+});
 
 export type GetIssuesByComponentsResponse = z.infer<
 	typeof GetIssuesByComponentsResponseSchema
@@ -73,127 +277,1048 @@ export const GetIssuesByComponentsResponseSchema = z.object({
 	startAt: z.number(),
 	maxResults: z.number(),
 	total: z.number(),
-	issues: z
+	issues: JiraIssueSchema.array()
+});
+
+/**
+ * Enhanced JQL search doesn't return `total`, pages are linked with `nextPageToken` instead.
+ */
+export type SearchIssuesByJqlResponse = z.infer<typeof SearchIssuesByJqlResponseSchema>;
+
+export const SearchIssuesByJqlResponseSchema = z.object({
+	issues: JiraIssueSchema.array(),
+	nextPageToken: z.string().optional(),
+	isLast: z.boolean().optional()
+});
+
+export type ApproximateCountResponse = z.infer<typeof ApproximateCountResponseSchema>;
+
+export const ApproximateCountResponseSchema = z.object({
+	count: z.number()
+});
+
+/**
+ * Body of failed responses, `errors` are messages of invalid fields (of a sent body).
+ */
+export const JiraErrorResponseSchema = z.object({
+	errorMessages: z.string().array().optional(),
+	errors: z.record(z.string()).optional()
+});
+
+/**
+ * Issue fields that are not fetched unless explicitly requested.
+ */
+export const ISSUE_EXTRA_FIELDS = [
+	"assignee",
+	"status",
+	"issuetype",
+	"priority",
+	"updated"
+] as const;
+
+export type IssueExtraField = (typeof ISSUE_EXTRA_FIELDS)[number];
+
+export type SearchProjectsResponse = z.infer<typeof SearchProjectsResponseSchema>;
+
+export const SearchProjectsResponseSchema = z.object({
+	startAt: z.number(),
+	maxResults: z.number(),
+	total: z.number(),
+	values: z
 		.object({
 			id: z.string(),
-			fields: z.object({
-				components: z
-					.object({
-						id: z.string(),
-						name: z.string()
-					})
-					.array()
-			})
+			key: z.string(),
+			name: z.string()
 		})
 		.array()
 });
 
+function createGetProjectResponseSchema<T extends z.ZodTypeAny>(leadSchema: T) {
+	return z.object({
+		id: z.string(),
+		key: z.string(),
+		name: z.string(),
+		lead: leadSchema.optional()
+	});
+}
+
+export type GetProjectResponse =
+	| z.infer<typeof GetProjectResponseSchema>
+	| z.infer<typeof ServerGetProjectResponseSchema>;
+
+export const GetProjectResponseSchema =
+	createGetProjectResponseSchema(JiraCloudUserSchema);
+
+export const ServerGetProjectResponseSchema =
+	createGetProjectResponseSchema(JiraServerUserSchema);
+
+/**
+ * Jira Data Center / Server doesn't paginate projects.
+ */
+export type ServerGetProjectsResponse = z.infer<typeof ServerGetProjectsResponseSchema>;
+
+export const ServerGetProjectsResponseSchema = SearchProjectsResponseSchema.shape.values;
+
+export type GetAssignableUsersResponse = JiraUser[];
+
+export const GetAssignableUsersResponseSchema = JiraCloudUserSchema.array();
+
+export const ServerGetAssignableUsersResponseSchema = JiraServerUserSchema.array();
+
 /* -------------------------------------------------------------------------- */
 /*                                     API                                    */
 /* -------------------------------------------------------------------------- */
 
+/**
+ * - `cloud` - Jira Cloud, REST API v3,
+ * - `server` - Jira Data Center / Server, REST API v2.
+ */
+export const JIRA_API_FLAVORS = ["cloud", "server"] as const;
+
+export type JiraAPIFlavor = (typeof JIRA_API_FLAVORS)[number];
+
+/**
+ * NOTE:
+ * Jira reduces `maxResults` to its own limit (and returns the reduced value),
+ * so the initial value just has to be big enough. Cloud returns at most 100 issues per page,
+ * while Data Center / Server defaults to 1000 (`jira.search.views.default.max`).
+ */
+const JIRA_API_FLAVOR_SETTINGS: Record<
+	JiraAPIFlavor,
+	{ apiPath: string; initialMaxResults: number }
+> = {
+	cloud: { apiPath: "/rest/api/3", initialMaxResults: 10_000 },
+	server: { apiPath: "/rest/api/2", initialMaxResults: 1000 }
+};
+
+/**
+ * Issue search pagination:
+ * - `token` - enhanced JQL search (`/search/jql`), pages are fetched one by one with
+ *   `nextPageToken` (Cloud only, the offset based search is deprecated there),
+ * - `offset` - classic search (`/search`), remaining pages are fetched at once with `startAt`.
+ */
+export const ISSUE_SEARCH_PAGINATIONS = ["token", "offset"] as const;
+
+export type IssueSearchPagination = (typeof ISSUE_SEARCH_PAGINATIONS)[number];
+
+/**
+ * Upper limit of `maxResults` of the enhanced JQL search,
+ * Jira returns fewer issues when many fields are requested.
+ */
+const SEARCH_JQL_MAX_RESULTS = 5000;
+
+/**
+ * Validation of response bodies:
+ * - `strict` - a body that doesn't match its schema fails the request (`JiraSchemaError`),
+ * - `lenient` - records (like components or issues) that don't match are skipped
+ *   and reported to `JiraAPIConfig.onSchemaWarning`, other mismatches fail the request,
+ * - `off` - bodies are not validated at all, mismatches can break the audit later.
+ */
+export const VALIDATION_MODES = ["strict", "lenient", "off"] as const;
+
+export type ValidationMode = (typeof VALIDATION_MODES)[number];
+
+/**
+ * A record skipped in the `lenient` validation mode.
+ */
+export type JiraSchemaWarning = {
+	/** Redacted URL of the response. */
+	url: string;
+
+	/** Path of the record in the response body, like `issues.3`. */
+	path: string;
+
+	/** `id` of the record, when it has one. */
+	recordId: string | undefined;
+
+	/** Mismatches of the record, their paths are relative to the response body. */
+	issues: z.ZodIssue[];
+};
+
+/**
+ * Max length of a list of component IDs in a single JQL query. Searched JQL is sent in a URL,
+ * which is rejected (414 / 400) by Jira or proxies when it gets too long (usually over 4-8 KB),
+ * and an encoded list is about 1.5 times longer.
+ */
+const JQL_COMPONENT_LIST_MAX_LENGTH = 2000;
+
+/**
+ * A single `JiraAPI` instance can (and should) be shared by all scanned projects,
+ * so that they share the concurrency limit too.
+ */
+export type JiraAPIConfig = Readonly<{
+	baseUrl: string;
+
+	/**
+	 * Defaults to `cloud`.
+	 */
+	flavor?: JiraAPIFlavor;
+
+	/**
+	 * Defaults to `token` on Cloud, Data Center / Server supports only `offset`.
+	 */
+	issueSearchPagination?: IssueSearchPagination;
+
+	/**
+	 * Defaults to anonymous access, which works only with public Jira sites.
+	 */
+	credentials?: JiraCredentials;
+
+	/**
+	 * Shared by all requests, missing values are taken from `DEFAULT_RETRY_POLICY`.
+	 */
+	retry?: Partial<RetryPolicy>;
+
+	/**
+	 * Max number of requests sent at the same time, defaults to `DEFAULT_MAX_CONCURRENCY`.
+	 */
+	maxConcurrency?: number;
+
+	/**
+	 * Sends requests, defaults to `fetchTransport` (`node-fetch`), a different fetch
+	 * can be used with `createFetchTransport`.
+	 */
+	transport?: JiraTransport;
+
+	/**
+	 * Hooks run around every request of `transport`, in order
+	 * (see `createProxyMiddleware`, `createCaBundleMiddleware` and `createTimeoutMiddleware`).
+	 */
+	middlewares?: readonly JiraTransportMiddleware[];
+
+	/**
+	 * Timeout (in ms) of every attempt of a request, including reading of its body.
+	 * Defaults to no timeout.
+	 */
+	requestTimeout?: number;
+
+	/**
+	 * Caches responses of all requests that don't change data, see `createResponseCache`.
+	 */
+	cache?: ResponseCache;
+
+	/**
+	 * Answers only from `cache` (whatever the age of cached responses), nothing is sent to Jira.
+	 */
+	offline?: boolean;
+
+	/**
+	 * Defaults to `strict`.
+	 */
+	validation?: ValidationMode;
+
+	/**
+	 * Called for every record skipped in the `lenient` validation mode.
+	 */
+	onSchemaWarning?: (warning: JiraSchemaWarning) => void;
+}>;
+
+export const DEFAULT_MAX_CONCURRENCY = 5;
+
+/**
+ * Only idempotent requests are sent (`POST` is used just to count issues),
+ * so every request can be safely retried. Aborting `signal` cancels the request
+ * (and its pending retries).
+ */
+type JiraRequestInit = {
+	method?: "GET" | "POST" | "PUT";
+	body?: unknown;
+	signal?: AbortSignal | undefined;
+};
+
+/**
+ * Returns messages of a Jira error response (`errorMessages`, and then `errors` of fields),
+ * or nothing when the body is not one.
+ */
+export function getJiraErrorMessages(body: unknown): string[] {
+	const result = JiraErrorResponseSchema.safeParse(body);
+
+	if (!result.success) {
+		return [];
+	}
+
+	const { errorMessages = [], errors = {} } = result.data;
+
+	return [
+		...errorMessages,
+		...Object.entries(errors).map(([field, message]) => `${field}: ${message}`)
+	];
+}
+
+/**
+ * Creates an error matching the status of a failed response.
+ */
+function createJiraResponseError(
+	opts: JiraResponseErrorOptions & { retryAfterMs?: number | undefined }
+): JiraResponseError {
+	const { retryAfterMs, ...errorOptions } = opts;
+
+	switch (opts.status) {
+		case 401: {
+			return new JiraAuthError(errorOptions);
+		}
+		case 403: {
+			return new JiraPermissionError(errorOptions);
+		}
+		case 404: {
+			return new JiraNotFoundError(errorOptions);
+		}
+		case 429: {
+			return new JiraRateLimitError({ ...errorOptions, retryAfterMs });
+		}
+		default: {
+			return new JiraResponseError(errorOptions);
+		}
+	}
+}
+
+/**
+ * Reads a JSON body of a failed response, which doesn't have to be JSON.
+ */
+async function readErrorBody(response: JiraTransportResponse): Promise<unknown> {
+	try {
+		return await response.json();
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Errors of `node-fetch` (`FetchError`), and Node.js system errors (like `ENOTFOUND`)
+ * of other transports.
+ */
+function isNetworkError(error: unknown): error is Error & { code?: string } {
+	if (!(error instanceof Error)) {
+		return false;
+	}
+
+	const { code } = error as { code?: unknown };
+
+	return (
+		error.name === "FetchError" || (typeof code === "string" && code.startsWith("E"))
+	);
+}
+
+/**
+ * Returns `id` of a skipped record, when it has a string (or numeric) one.
+ */
+function getRecordId({ record }: SkippedRecord): string | undefined {
+	const { id } = (record ?? {}) as { id?: unknown };
+
+	return typeof id === "string" || typeof id === "number" ? String(id) : undefined;
+}
+
+/**
+ * Not yet validated JSON body, and validators of its cached copy.
+ */
+type FetchedJson = {
+	body: unknown;
+	etag?: string | undefined;
+	lastModified?: string | undefined;
+};
+
 export class JiraAPI {
-	private readonly config: Readonly<{
-		baseUrl: string;
-		projectId: string;
-	}>;
+	private readonly config: JiraAPIConfig;
+	private readonly flavor: JiraAPIFlavor;
+	private readonly issueSearchPagination: IssueSearchPagination;
+	private readonly limit: ConcurrencyLimiter;
+	private readonly transport: JiraTransport;
 
-	constructor(jiraApiConfig: JiraAPI["config"]) {
+	/**
+	 * @throws {TypeError}
+	 */
+	constructor(jiraApiConfig: JiraAPIConfig) {
 		this.config = jiraApiConfig;
+		this.flavor = jiraApiConfig.flavor ?? "cloud";
+		this.issueSearchPagination =
+			jiraApiConfig.issueSearchPagination ??
+			(this.flavor === "cloud" ? "token" : "offset");
+
+		if (this.flavor === "server" && this.issueSearchPagination === "token") {
+			throw new TypeError(
+				`Jira Data Center / Server doesn't support token based issue search pagination.`
+			);
+		}
+
+		if (jiraApiConfig.offline && !jiraApiConfig.cache) {
+			throw new TypeError(`Offline mode requires a response cache.`);
+		}
+
+		if (
+			jiraApiConfig.requestTimeout !== undefined &&
+			(!Number.isSafeInteger(jiraApiConfig.requestTimeout) ||
+				jiraApiConfig.requestTimeout <= 0)
+		) {
+			throw new TypeError(`Option 'requestTimeout' needs to be a positive safe integer.`);
+		}
+
+		this.limit = createConcurrencyLimiter({
+			maxConcurrency: jiraApiConfig.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY
+		});
+		this.transport = applyTransportMiddlewares(
+			jiraApiConfig.transport ?? fetchTransport,
+			jiraApiConfig.middlewares ?? []
+		);
 	}
 
 	/**
-	 * @see https://developer.atlassian.com/cloud/jira/platform/rest/v3/api-group-project-components/#api-rest-api-3-project-projectidorkey-components-get
-	 * @throws {ZodError | JiraResponseError}
+	 * Creates URL of a given endpoint of the REST API version used by the flavor.
 	 */
-	async getComponents(): Promise<GetComponentsResponse> {
-		const { baseUrl, projectId } = this.config;
+	private createUrl(endpoint: string): URL {
+		const { apiPath } = JIRA_API_FLAVOR_SETTINGS[this.flavor];
+		return new URL(`${this.config.baseUrl}${apiPath}${endpoint}`);
+	}
+
+	/**
+	 * Sends an authenticated request (GET, unless a JSON `body` is sent with a different method),
+	 * and returns a not yet validated JSON body.
+	 * Rate limited (429) and failed (5xx) requests are retried according to the retry policy,
+	 * while holding a concurrency slot (so backoff slows down the other requests too).
+	 * Responses of requests that don't change data are cached (when there is a cache),
+	 * stale ones are revalidated with `ETag` / `Last-Modified` when Jira sent them.
+	 * @throws {JiraResponseError | JiraOfflineError | JiraTimeoutError | JiraNetworkError}
+	 */
+	private async fetchJson(
+		url: string | URL,
+		init: JiraRequestInit = {}
+	): Promise<unknown> {
+		const { cache, offline = false, credentials = { type: "anonymous" } } = this.config;
+		const { method = "GET", body } = init;
+
+		if (!cache || method === "PUT") {
+			if (offline) {
+				throw new JiraOfflineError({
+					url: url,
+					message: `Request ${method} ${String(url)} can't be sent in the offline mode.`
+				});
+			}
+
+			const response = await this.sendWithRetries(url, init);
+			return response.body;
+		}
+
+		const key = createResponseCacheKey({
+			identity: createAuthorizationHeader(credentials) ?? "anonymous",
+			method: method,
+			url: String(url),
+			body: body
+		});
 
-		const url = `${baseUrl}/rest/api/3/project/${projectId}/components`;
-		const res = await fetch(url);
+		const cached = await cache.get(key);
 
-		if (res.status !== 200) {
-			throw new JiraResponseError({
+		if (
+			cached &&
+			(offline || isCachedResponseFresh({ response: cached, ttlMs: cache.ttlMs }))
+		) {
+			return cached.body;
+		}
+
+		if (offline) {
+			throw new JiraOfflineError({
 				url: url,
-				status: res.status,
-				message: res.statusText
+				message: `Response of ${method} ${String(url)} is not cached (offline mode).`
+			});
+		}
+
+		const response = await this.sendWithRetries(url, init, cached);
+
+		const { etag, lastModified } = response;
+
+		await cache.set(key, {
+			url: String(url),
+			storedAt: Date.now(),
+			...(etag === undefined ? {} : { etag }),
+			...(lastModified === undefined ? {} : { lastModified }),
+			body: response.body
+		});
+
+		return response.body;
+	}
+
+	/**
+	 * Waits for a concurrency slot, and then sends a request with retries.
+	 * When `signal` is aborted (while waiting, sending or backing off), its reason is thrown,
+	 * or `JiraTimeoutError` when it timed out.
+	 * @throws {JiraResponseError | JiraTimeoutError | JiraNetworkError}
+	 */
+	private async sendWithRetries(
+		url: string | URL,
+		init: JiraRequestInit,
+		cached?: CachedResponse
+	): Promise<FetchedJson> {
+		const { credentials = { type: "anonymous" } } = this.config;
+		const { method = "GET", signal } = init;
+
+		try {
+			return await this.limit(async () => {
+				signal?.throwIfAborted();
+				return this.fetchJsonWithRetries(url, init, cached);
+			});
+		} catch (error) {
+			if (!signal?.aborted) {
+				throw error;
+			}
+
+			const reason: unknown = signal.reason;
+
+			/*
+				Signals created with `AbortSignal.timeout` are aborted with a `TimeoutError` DOMException.
+			*/
+			if ((reason as { name?: unknown } | undefined)?.name === "TimeoutError") {
+				const redactedUrl = redactCredentials(String(url), credentials);
+
+				throw new JiraTimeoutError({
+					url: redactedUrl,
+					message: `Request ${method} ${redactedUrl} was cancelled, as its deadline was exceeded.`
+				});
+			}
+
+			throw reason;
+		}
+	}
+
+	/**
+	 * Sends a single attempt of a request, and reads its body (bodies of errors are optional,
+	 * as they don't have to be JSON, like error pages of proxies).
+	 * The attempt is aborted together with `signal`, or after `requestTimeout`.
+	 * @throws {JiraTimeoutError | JiraNetworkError}
+	 */
+	private async sendAttempt(
+		request: JiraTransportRequest,
+		signal: AbortSignal | undefined
+	): Promise<{ response: JiraTransportResponse; body: unknown }> {
+		const { credentials = { type: "anonymous" }, requestTimeout } = this.config;
+
+		const controller = new AbortController();
+		const abort = () => {
+			controller.abort(signal?.reason);
+		};
+
+		signal?.addEventListener("abort", abort, { once: true });
+		const timeout =
+			requestTimeout === undefined
+				? undefined
+				: setTimeout(() => {
+						controller.abort();
+				  }, requestTimeout);
+
+		try {
+			const response = await this.transport({ ...request, signal: controller.signal });
+
+			if (response.status === 200) {
+				return { response: response, body: await response.json() };
+			}
+
+			return {
+				response: response,
+				body: response.status === 304 ? undefined : await readErrorBody(response)
+			};
+		} catch (error) {
+			const redactedUrl = redactCredentials(request.url, credentials);
+
+			if (controller.signal.aborted && !signal?.aborted) {
+				throw new JiraTimeoutError({
+					url: redactedUrl,
+					message: `Request ${request.method} ${redactedUrl} timed out after ${String(
+						requestTimeout
+					)} ms.`
+				});
+			}
+
+			if (!signal?.aborted && isNetworkError(error)) {
+				throw new JiraNetworkError({
+					url: redactedUrl,
+					code: error.code,
+					message: redactCredentials(
+						`Request ${request.method} ${redactedUrl} failed: ${error.message}`,
+						credentials
+					)
+				});
+			}
+
+			throw error;
+		} finally {
+			clearTimeout(timeout);
+			signal?.removeEventListener("abort", abort);
+		}
+	}
+
+	/**
+	 * Makes the request conditional when a (stale) `cached` response is given,
+	 * its body is returned when Jira responds with 304 Not Modified.
+	 * @throws {JiraResponseError | JiraTimeoutError | JiraNetworkError}
+	 */
+	private async fetchJsonWithRetries(
+		url: string | URL,
+		init: JiraRequestInit,
+		cached?: CachedResponse
+	): Promise<FetchedJson> {
+		const { credentials = { type: "anonymous" }, retry } = this.config;
+		const { method = "GET", body, signal } = init;
+		const retryPolicy = { ...DEFAULT_RETRY_POLICY, ...retry };
+
+		const headers: Record<string, string> = { Accept: "application/json" };
+
+		if (body !== undefined) {
+			headers["Content-Type"] = "application/json";
+		}
+
+		const authorizationHeader = createAuthorizationHeader(credentials);
+		if (authorizationHeader) {
+			headers.Authorization = authorizationHeader;
+		}
+
+		if (cached?.etag !== undefined) {
+			headers["If-None-Match"] = cached.etag;
+		}
+
+		if (cached?.lastModified !== undefined) {
+			headers["If-Modified-Since"] = cached.lastModified;
+		}
+
+		for (let attempt = 1; ; attempt++) {
+			// eslint-disable-next-line no-await-in-loop
+			const { response: res, body: resBody } = await this.sendAttempt(
+				{
+					url: String(url),
+					method: method,
+					headers: headers,
+					body: body === undefined ? undefined : JSON.stringify(body)
+				},
+				signal
+			);
+
+			if (res.status === 200) {
+				return {
+					body: resBody,
+					etag: res.headers.get("ETag") ?? undefined,
+					lastModified: res.headers.get("Last-Modified") ?? undefined
+				};
+			}
+
+			if (res.status === 304 && cached) {
+				return {
+					body: cached.body,
+					etag: res.headers.get("ETag") ?? cached.etag,
+					lastModified: res.headers.get("Last-Modified") ?? cached.lastModified
+				};
+			}
+
+			const requestedDelay = getRequestedRetryDelay({ headers: res.headers });
+			const retryDelay = isRetryableStatus(res.status)
+				? getRetryDelay({
+						policy: retryPolicy,
+						attempt: attempt,
+						requestedDelay: requestedDelay
+				  })
+				: undefined;
+
+			if (retryDelay === undefined) {
+				const errorMessages = getJiraErrorMessages(resBody).map((message) => {
+					return redactCredentials(message, credentials);
+				});
+
+				throw createJiraResponseError({
+					url: redactCredentials(String(url), credentials),
+					status: res.status,
+					message: [redactCredentials(res.statusText, credentials), ...errorMessages]
+						.filter(Boolean)
+						.join(" - "),
+					errorMessages: errorMessages,
+					retryAfterMs: requestedDelay
+				});
+			}
+
+			// eslint-disable-next-line no-await-in-loop
+			await sleep(retryDelay, undefined, { signal });
+		}
+	}
+
+	/**
+	 * Validates a response body, see `JiraAPIConfig.validation`.
+	 * @throws {JiraSchemaError}
+	 */
+	private parseResponse<T>(
+		schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+		json: unknown,
+		url: string | URL
+	): T {
+		const { credentials = { type: "anonymous" }, validation = "strict" } = this.config;
+
+		if (validation === "off") {
+			return json as T;
+		}
+
+		const result = schema.safeParse(json);
+
+		if (!result.success) {
+			const redactedUrl = redactCredentials(String(url), credentials);
+			const lenientResult =
+				validation === "lenient" ? parseLeniently(schema, json) : undefined;
+
+			if (lenientResult) {
+				for (const skippedRecord of lenientResult.skipped) {
+					this.config.onSchemaWarning?.({
+						url: redactedUrl,
+						path: skippedRecord.path.join("."),
+						recordId: getRecordId(skippedRecord),
+						issues: skippedRecord.issues
+					});
+				}
+
+				return lenientResult.data;
+			}
+
+			const { issues } = result.error;
+
+			throw new JiraSchemaError({
+				url: redactedUrl,
+				issues: issues,
+				message: `Response of ${redactedUrl} doesn't match the expected schema (${String(
+					issues.length
+				)} issue(s)).`
 			});
 		}
 
-		const json: unknown = await res.json();
+		return result.data;
+	}
+
+	/**
+	 * Fetches pages linked with `nextPageToken` one by one, until there is no next page.
+	 * @throws {JiraSchemaError | JiraResponseError | JiraOfflineError | JiraTimeoutError | JiraNetworkError}
+	 */
+	private async fetchAllTokenPages<T>(
+		url: URL,
+		parsePage: (
+			json: unknown,
+			url: URL
+		) => { nextPageToken: string | undefined; items: T[] },
+		signal?: AbortSignal
+	): Promise<T[]> {
+		const createPageUrl = (nextPageToken: string | undefined) => {
+			const pageUrl = new URL(url.href);
+			pageUrl.searchParams.set("maxResults", String(SEARCH_JQL_MAX_RESULTS));
+			if (nextPageToken !== undefined) {
+				pageUrl.searchParams.set("nextPageToken", nextPageToken);
+			}
+
+			return pageUrl;
+		};
+
+		const firstPageUrl = createPageUrl(undefined);
+		let page = parsePage(await this.fetchJson(firstPageUrl, { signal }), firstPageUrl);
+		const items = [...page.items];
+
+		while (page.nextPageToken !== undefined) {
+			const pageUrl = createPageUrl(page.nextPageToken);
+			// eslint-disable-next-line no-await-in-loop
+			page = parsePage(await this.fetchJson(pageUrl, { signal }), pageUrl);
+			items.push(...page.items);
+		}
+
+		return items;
+	}
+
+	/**
+	 * Fetches the first page with `url`, and then all the remaining pages at once
+	 * (the concurrency limiter of `fetchJson` decides how many of them are in-flight).
+	 * Items are returned in order.
+	 * @throws {JiraSchemaError | JiraResponseError | JiraOfflineError | JiraTimeoutError | JiraNetworkError}
+	 */
+	private async fetchAllPages<T>(
+		url: URL,
+		parsePage: (
+			json: unknown,
+			url: URL
+		) => { maxResults: number; total: number; items: T[] },
+		signal?: AbortSignal
+	): Promise<T[]> {
+		const { initialMaxResults } = JIRA_API_FLAVOR_SETTINGS[this.flavor];
+
+		const firstPageUrl = new URL(url.href);
+		firstPageUrl.searchParams.set("startAt", "0");
+		firstPageUrl.searchParams.set("maxResults", String(initialMaxResults));
 
-		return GetComponentsResponseSchema.parse(json);
+		const firstPage = parsePage(
+			await this.fetchJson(firstPageUrl, { signal }),
+			firstPageUrl
+		);
+
+		const restPagesPagination = createPaginationChunks({
+			pageSize: firstPage.maxResults,
+			total: firstPage.total
+		}).slice(1);
+
+		const restPages = await Promise.all(
+			restPagesPagination.map(async ({ startAt, pageSize }) => {
+				const pageUrl = new URL(url.href);
+				pageUrl.searchParams.set("startAt", String(startAt));
+				pageUrl.searchParams.set("maxResults", String(pageSize));
+
+				return parsePage(await this.fetchJson(pageUrl, { signal }), pageUrl);
+			})
+		);
+
+		return [firstPage, ...restPages].flatMap((page) => page.items);
 	}
 
 	/**
+	 * Uses either the enhanced JQL search (token pagination), or the classic one (offset pagination),
+	 * see `JiraAPIConfig.issueSearchPagination`.
+	 * @see https://developer.atlassian.com/cloud/jira/platform/rest/v3/api-group-issue-search/#api-rest-api-3-search-jql-get
 	 * @see https://developer.atlassian.com/cloud/jira/platform/rest/v3/api-group-issue-search/#api-rest-api-3-search-get
-	 * @throws {ZodError | JiraResponseError}
+	 * @see https://docs.atlassian.com/software/jira/docs/api/REST/9.12.0/#api/2/search-search
+	 * @throws {JiraSchemaError | JiraResponseError | JiraOfflineError | JiraTimeoutError | JiraNetworkError}
 	 */
-	async getIssuesByComponents(query: {
-		componentIds: string[];
-	}): Promise<GetIssuesByComponentsResponse["issues"]> {
-		const { baseUrl, projectId } = this.config;
-		const { componentIds } = query;
-
-		/* 
-			Random big number, we want to fetch as many items as possible,
-			but according to docs Jira will reduce this number (to for example `100`),
-			based on some criteria, and return reduced value in a response.
-		*/
-		const initialMaxResults = "10000";
-
-		const url = new URL(`${baseUrl}/rest/api/3/search`);
-		url.searchParams.set("startAt", "0");
-		url.searchParams.set("maxResults", initialMaxResults);
+	private async searchIssues(query: {
+		jql: string;
+		fields: string;
+		signal?: AbortSignal | undefined;
+	}): Promise<JiraIssue[]> {
+		const { jql, fields, signal } = query;
+
+		if (this.issueSearchPagination === "token") {
+			const url = this.createUrl("/search/jql");
+			url.searchParams.set("fields", fields);
+			url.searchParams.set("jql", jql);
+
+			return this.fetchAllTokenPages(
+				url,
+				(json, pageUrl) => {
+					const data = this.parseResponse(SearchIssuesByJqlResponseSchema, json, pageUrl);
+					return {
+						nextPageToken: data.isLast ? undefined : data.nextPageToken,
+						items: data.issues
+					};
+				},
+				signal
+			);
+		}
+
+		const url = this.createUrl("/search");
 		url.searchParams.set("validateQuery", "strict");
-		url.searchParams.set("fields", "id,components");
-		url.searchParams.set(
-			"jql",
-			`project = ${projectId} AND component IN (${componentIds.join(", ")})`
+		url.searchParams.set("fields", fields);
+		url.searchParams.set("jql", jql);
+
+		return this.fetchAllPages(
+			url,
+			(json, pageUrl) => {
+				const data = this.parseResponse(
+					GetIssuesByComponentsResponseSchema,
+					json,
+					pageUrl
+				);
+				return { maxResults: data.maxResults, total: data.total, items: data.issues };
+			},
+			signal
 		);
+	}
 
-		const firstRes = await fetch(url);
+	/**
+	 * Returns all projects visible to the user.
+	 * @see https://developer.atlassian.com/cloud/jira/platform/rest/v3/api-group-projects/#api-rest-api-3-project-search-get
+	 * @see https://docs.atlassian.com/software/jira/docs/api/REST/9.12.0/#api/2/project-getAllProjects
+	 * @throws {JiraSchemaError | JiraResponseError | JiraOfflineError | JiraTimeoutError | JiraNetworkError}
+	 */
+	async searchProjects(
+		query: { signal?: AbortSignal | undefined } = {}
+	): Promise<SearchProjectsResponse["values"]> {
+		const { signal } = query;
 
-		if (firstRes.status !== 200) {
-			throw new JiraResponseError({
-				url: url,
-				status: firstRes.status,
-				message: firstRes.statusText
-			});
+		if (this.flavor === "server") {
+			const url = this.createUrl("/project");
+			const json = await this.fetchJson(url, { signal });
+			return this.parseResponse(ServerGetProjectsResponseSchema, json, url);
 		}
 
-		const firstJson: unknown = await firstRes.json();
-		const firstData = GetIssuesByComponentsResponseSchema.parse(firstJson);
-		const firstIssueBatch = firstData.issues;
+		return this.fetchAllPages(
+			this.createUrl("/project/search"),
+			(json, pageUrl) => {
+				const data = this.parseResponse(SearchProjectsResponseSchema, json, pageUrl);
+				return { maxResults: data.maxResults, total: data.total, items: data.values };
+			},
+			signal
+		);
+	}
 
-		const restIssueBatchesPagination = createPaginationChunks({
-			pageSize: firstData.maxResults,
-			total: firstData.total
-		}).slice(1);
+	/**
+	 * @see https://developer.atlassian.com/cloud/jira/platform/rest/v3/api-group-project-components/#api-rest-api-3-project-projectidorkey-components-get
+	 * @see https://docs.atlassian.com/software/jira/docs/api/REST/9.12.0/#api/2/project-getProjectComponents
+	 * @throws {JiraSchemaError | JiraResponseError | JiraOfflineError | JiraTimeoutError | JiraNetworkError}
+	 */
+	async getComponents(query: {
+		projectId: string;
+		signal?: AbortSignal | undefined;
+	}): Promise<GetComponentsResponse> {
+		const { projectId, signal } = query;
 
-		const restIssueBatches = await Promise.all(
-			restIssueBatchesPagination.map(async ({ startAt, pageSize }) => {
-				url.searchParams.set("startAt", String(startAt));
-				url.searchParams.set("maxResults", String(pageSize));
+		const url = this.createUrl(`/project/${projectId}/components`);
+		const json = await this.fetchJson(url, { signal });
 
-				const res = await fetch(url);
+		return this.flavor === "server"
+			? this.parseResponse(ServerGetComponentsResponseSchema, json, url)
+			: this.parseResponse(GetComponentsResponseSchema, json, url);
+	}
 
-				if (res.status !== 200) {
-					throw new JiraResponseError({
-						url: url,
-						status: res.status,
-						message: res.statusText
-					});
-				}
+	/**
+	 * Sets a lead of a component, `userId` is `accountId` on Cloud and `name` on Server
+	 * (see `getJiraUserId`).
+	 * @see https://developer.atlassian.com/cloud/jira/platform/rest/v3/api-group-project-components/#api-rest-api-3-component-id-put
+	 * @see https://docs.atlassian.com/software/jira/docs/api/REST/9.12.0/#api/2/component-updateComponent
+	 * @throws {JiraResponseError | JiraOfflineError | JiraTimeoutError | JiraNetworkError}
+	 */
+	async updateComponentLead(query: {
+		componentId: string;
+		userId: string;
+		signal?: AbortSignal | undefined;
+	}): Promise<void> {
+		const { componentId, userId, signal } = query;
+
+		await this.fetchJson(this.createUrl(`/component/${componentId}`), {
+			method: "PUT",
+			body:
+				this.flavor === "server" ? { leadUserName: userId } : { leadAccountId: userId },
+			signal: signal
+		});
+	}
 
-				const json: unknown = await res.json();
-				const data = GetIssuesByComponentsResponseSchema.parse(json);
-				const issueBatch = data.issues;
+	/**
+	 * @see https://developer.atlassian.com/cloud/jira/platform/rest/v3/api-group-projects/#api-rest-api-3-project-projectidorkey-get
+	 * @see https://docs.atlassian.com/software/jira/docs/api/REST/9.12.0/#api/2/project-getProject
+	 * @throws {JiraSchemaError | JiraResponseError | JiraOfflineError | JiraTimeoutError | JiraNetworkError}
+	 */
+	async getProject(query: {
+		projectId: string;
+		signal?: AbortSignal | undefined;
+	}): Promise<GetProjectResponse> {
+		const { projectId, signal } = query;
+
+		const url = this.createUrl(`/project/${projectId}`);
+		const json = await this.fetchJson(url, { signal });
 
-				return issueBatch;
+		return this.flavor === "server"
+			? this.parseResponse(ServerGetProjectResponseSchema, json, url)
+			: this.parseResponse(GetProjectResponseSchema, json, url);
+	}
+
+	/**
+	 * Long lists of components are split into several searches (sent at the same time),
+	 * so that the JQL fits into a URL. An issue with components from different searches
+	 * is returned only once. Aborting `signal` cancels all the searches (including in-flight pages).
+	 * @throws {JiraSchemaError | JiraResponseError | JiraOfflineError | JiraTimeoutError | JiraNetworkError}
+	 */
+	async getIssuesByComponents(query: {
+		projectId: string;
+		componentIds: string[];
+		extraFields?: readonly IssueExtraField[];
+		signal?: AbortSignal | undefined;
+	}): Promise<JiraIssue[]> {
+		const { projectId, componentIds, extraFields = [], signal } = query;
+
+		const fields = [...new Set(["id", "components", ...extraFields])].join(",");
+
+		const batches = createJqlBatches({
+			values: componentIds,
+			maxLength: JQL_COMPONENT_LIST_MAX_LENGTH
+		});
+
+		const results = await Promise.all(
+			batches.map(async (batch) => {
+				return this.searchIssues({
+					jql: `project = ${projectId} AND component IN (${batch.join(", ")})`,
+					fields: fields,
+					signal: signal
+				});
 			})
 		);
 
-		return [firstIssueBatch, ...restIssueBatches].flat();
+		const issuesById = new Map<string, JiraIssue>();
+
+		for (const issue of results.flat()) {
+			if (!issuesById.has(issue.id)) {
+				issuesById.set(issue.id, issue);
+			}
+		}
+
+		return [...issuesById.values()];
+	}
+
+	/**
+	 * Counts issues of a single component without fetching them. The enhanced JQL search
+	 * returns an approximate count (recently updated issues may not be counted yet),
+	 * while the classic one returns an exact `total` of an empty page.
+	 * @see https://developer.atlassian.com/cloud/jira/platform/rest/v3/api-group-issue-search/#api-rest-api-3-search-approximate-count-post
+	 * @see https://docs.atlassian.com/software/jira/docs/api/REST/9.12.0/#api/2/search-search
+	 * @throws {JiraSchemaError | JiraResponseError | JiraOfflineError | JiraTimeoutError | JiraNetworkError}
+	 */
+	async countIssuesByComponent(query: {
+		projectId: string;
+		componentId: string;
+		signal?: AbortSignal | undefined;
+	}): Promise<number> {
+		const { projectId, componentId, signal } = query;
+
+		const jql = `project = ${projectId} AND component = ${componentId}`;
+
+		if (this.issueSearchPagination === "token") {
+			const countUrl = this.createUrl("/search/approximate-count");
+			const json = await this.fetchJson(countUrl, {
+				method: "POST",
+				body: { jql },
+				signal: signal
+			});
+
+			return this.parseResponse(ApproximateCountResponseSchema, json, countUrl).count;
+		}
+
+		const url = this.createUrl("/search");
+		url.searchParams.set("validateQuery", "strict");
+		url.searchParams.set("fields", "id");
+		url.searchParams.set("jql", jql);
+		url.searchParams.set("maxResults", "0");
+
+		const json = await this.fetchJson(url, { signal });
+
+		return this.parseResponse(GetIssuesByComponentsResponseSchema, json, url).total;
 	}
+
+	/**
+	 * Returns users that can be assigned to issues of a project, `userId` (see `getJiraUserId`)
+	 * narrows the search to a single user, so an empty response means that the user
+	 * is not a project member.
+	 * @see https://developer.atlassian.com/cloud/jira/platform/rest/v3/api-group-user-search/#api-rest-api-3-user-assignable-search-get
+	 * @see https://docs.atlassian.com/software/jira/docs/api/REST/9.12.0/#api/2/user-findAssignableUsers
+	 * @throws {JiraSchemaError | JiraResponseError | JiraOfflineError | JiraTimeoutError | JiraNetworkError}
+	 */
+	async getAssignableUsers(query: {
+		projectId: string;
+		userId?: string;
+		signal?: AbortSignal | undefined;
+	}): Promise<GetAssignableUsersResponse> {
+		const { projectId, userId, signal } = query;
+
+		const url = this.createUrl("/user/assignable/search");
+		url.searchParams.set("project", projectId);
+		if (userId !== undefined) {
+			url.searchParams.set(this.flavor === "server" ? "username" : "accountId", userId);
+		}
+
+		const json = await this.fetchJson(url, { signal });
+
+		return this.flavor === "server"
+			? this.parseResponse(ServerGetAssignableUsersResponseSchema, json, url)
+			: this.parseResponse(GetAssignableUsersResponseSchema, json, url);
+	}
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   HELPERS                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Returns `accountId` of a Cloud user, or `name` (username) of a Data Center / Server user,
+ * which is what `getAssignableUsers` expects.
+ */
+export function getJiraUserId(user: JiraUser): string {
+	return "accountId" in user ? user.accountId : user.name;
 }
@@ -1,4 +1,9 @@
+import { once } from "node:events";
+import fs from "node:fs/promises";
+import http from "node:http";
 import os from "node:os";
+import path from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
 import {
 	afterAll,
 	afterEach,
@@ -12,7 +17,10 @@ import fetchMock from "fetch-mock";
 import stripAnsi from "strip-ansi";
 import ExampleGetComponentsResponse from "./__fixtures__/GetComponentsResponse.json";
 import ExampleGetIssuesByComponentsResponse from "./__fixtures__/GetIssuesByComponentsResponse.json";
+import ExampleServerGetComponentsResponse from "./__fixtures__/ServerGetComponentsResponse.json";
+import ExampleServerGetIssuesByComponentsResponse from "./__fixtures__/ServerGetIssuesByComponentsResponse.json";
 import { app } from "./app";
+import { EXIT_CODES } from "./errorDiagnostics";
 
 const VALID_CLI_ARGUMENTS: Record<string, string> = {
 	"--jira-base-url": "https://herocoders.atlassian.net",
@@ -24,10 +32,43 @@ const INVALID_CLI_ARGUMENTS: Record<string, string> = {
 	"--jira-project-id": "XXX"
 };
 
+/**
+ * Responses recorded with `--record` (see README), e2e tests replay them without a network.
+ * Recordings don't keep origins, so every Jira site has its own directory.
+ */
+const RECORDINGS_DIRECTORY = path.join("src", "__fixtures__", "recordings");
+
+/**
+ * Replays recordings of the Jira site, when there are any. Otherwise the live site is called.
+ */
+async function getE2eArgs(args: Record<string, string>): Promise<string[]> {
+	const site =
+		args["--jira-base-url"] === INVALID_CLI_ARGUMENTS["--jira-base-url"]
+			? "missing-site"
+			: "herocoders";
+	const directory = path.join(RECORDINGS_DIRECTORY, site);
+	const isRecorded = await fs.access(directory).then(
+		() => true,
+		() => false
+	);
+
+	return [...Object.entries(args).flat(), ...(isRecorded ? ["--replay", directory] : [])];
+}
+
 function setArgv(args: string[]) {
 	process.argv = ["node.exe", "app.js", ...args];
 }
 
+/**
+ * Waits until output of a long-running command (like `watch`) matches a pattern.
+ */
+async function waitForOutput(getOutput: () => string, pattern: RegExp) {
+	while (!pattern.test(getOutput())) {
+		// eslint-disable-next-line no-await-in-loop
+		await sleep(10);
+	}
+}
+
 describe("app", () => {
 	let stderr: string;
 	let stdout: string;
@@ -60,13 +101,13 @@ describe("app", () => {
 			async (argumentName) => {
 				expect.hasAssertions();
 
-				const filteredArgs = Object.entries(VALID_CLI_ARGUMENTS)
-					.filter(([key]) => {
+				const filteredArgs = Object.fromEntries(
+					Object.entries(VALID_CLI_ARGUMENTS).filter(([key]) => {
 						return key !== argumentName;
 					})
-					.flat();
+				);
 
-				setArgv(filteredArgs);
+				setArgv(await getE2eArgs(filteredArgs));
 				await expect(app()).resolves.toBeUndefined();
 				expect(process.exitCode).toBe(1);
 				expect(stderr).toContain(`error: required option '${argumentName}`);
@@ -78,22 +119,23 @@ describe("app", () => {
 			async (argumentName) => {
 				expect.hasAssertions();
 
-				const corruptedArgs = Object.entries({
+				const corruptedArgs = {
 					...VALID_CLI_ARGUMENTS,
 					[argumentName]: String(INVALID_CLI_ARGUMENTS[argumentName])
-				}).flat();
+				};
 
-				setArgv(corruptedArgs);
+				setArgv(await getE2eArgs(corruptedArgs));
 				await expect(app()).resolves.toBeUndefined();
-				expect(process.exitCode).toBe(1);
-				expect(stderr).toContain(`JiraResponseError`);
+				expect([EXIT_CODES.auth, EXIT_CODES.notFound]).toContain(process.exitCode);
+				expect(stderr).toMatch(/Jira(?:Auth|NotFound)Error/u);
+				expect(stderr).toContain("Suggested fix:");
 			}
 		);
 
 		it("should succeed when CLI arguments are valid", async () => {
 			expect.hasAssertions();
 
-			setArgv(Object.entries(VALID_CLI_ARGUMENTS).flat());
+			setArgv(await getE2eArgs(VALID_CLI_ARGUMENTS));
 			await expect(app()).resolves.toBeUndefined();
 			expect(process.exitCode).toBe(0);
 
@@ -122,6 +164,27 @@ describe("app", () => {
 			expect(process.exitCode).toBe(1);
 		});
 
+		it("should explain errors, and exit with their exit code", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(`${baseUrl}/rest/api/3/project/${projectId}/components`, {
+				status: 404,
+				body: { errorMessages: [`No project could be found with key '${projectId}'.`] }
+			});
+
+			setArgv(Object.entries(MOCK_CLI_ARGUMENTS).flat());
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(EXIT_CODES.notFound);
+
+			expect(stderr).toContain(
+				`JiraNotFoundError: Not Found - No project could be found with key '${projectId}'.`
+			);
+			expect(stderr).toContain(
+				"Suggested fix: Check project keys of '--jira-project-id'"
+			);
+			expect(stderr).not.toContain("Oops, something went wrong.");
+		});
+
 		it("should succeed when API responses are valid", async () => {
 			expect.hasAssertions();
 
@@ -161,5 +224,980 @@ describe("app", () => {
 
 			expect(stdout).toMatchSnapshot();
 		});
+
+		it("should print only the report when machine-readable format is used", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(`${baseUrl}/rest/api/3/project/${projectId}/components`, {
+				status: 200,
+				body: ExampleGetComponentsResponse
+			});
+
+			fetchMock.mock(`begin:${baseUrl}/rest/api/3/search`, {
+				status: 200,
+				body: ExampleGetIssuesByComponentsResponse
+			});
+
+			setArgv([...Object.entries(MOCK_CLI_ARGUMENTS).flat(), "--format", "json"]);
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(0);
+
+			expect(JSON.parse(stdout)).toMatchObject({
+				schemaVersion: 3,
+				projects: [
+					{
+						projectId: projectId,
+						components: [
+							{ id: "10130", name: "Backend", issues: 1 },
+							{ id: "10128", name: "Synchronization", issues: 2 },
+							{ id: "10131", name: "Templates", issues: 5 }
+						]
+					}
+				]
+			});
+		});
+
+		it("should skip records that don't match in the lenient validation mode", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(`${baseUrl}/rest/api/3/project/${projectId}/components`, {
+				status: 200,
+				body: [...ExampleGetComponentsResponse, { id: "10001", name: null }]
+			});
+
+			fetchMock.mock(`begin:${baseUrl}/rest/api/3/search`, {
+				status: 200,
+				body: ExampleGetIssuesByComponentsResponse
+			});
+
+			setArgv([
+				...Object.entries(MOCK_CLI_ARGUMENTS).flat(),
+				"--validation",
+				"lenient",
+				"--format",
+				"json"
+			]);
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(0);
+
+			expect(JSON.parse(stdout)).toMatchObject({
+				projects: [{ projectId: projectId, components: expect.any(Array) }]
+			});
+			expect(stderr).toContain(
+				`Warning: skipped 5 (ID 10001) of ${baseUrl}/rest/api/3/project/${projectId}/components`
+			);
+			expect(stderr).toContain("  5.name: Expected string, received null");
+			expect(stderr).toContain(
+				"Schema anomalies: 1 record(s) didn't match the expected schema, and were skipped."
+			);
+			expect(stderr).toContain(`  /rest/api/3/project/${projectId}/components: 1`);
+		});
+
+		it("should write the report to a file", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(`${baseUrl}/rest/api/3/project/${projectId}/components`, {
+				status: 200,
+				body: ExampleGetComponentsResponse
+			});
+
+			fetchMock.mock(`begin:${baseUrl}/rest/api/3/search`, {
+				status: 200,
+				body: ExampleGetIssuesByComponentsResponse
+			});
+
+			const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "jira-report-"));
+			const output = path.join(tmpDir, "report.csv");
+
+			try {
+				setArgv([
+					...Object.entries(MOCK_CLI_ARGUMENTS).flat(),
+					"--format",
+					"csv",
+					"--output",
+					output
+				]);
+				await expect(app()).resolves.toBeUndefined();
+				expect(process.exitCode).toBe(0);
+
+				expect(stdout).toContain(`Report saved to ${output}`);
+				await expect(fs.readFile(output, "utf8")).resolves.toBe(
+					[
+						"project,id,name,issues",
+						`${projectId},10130,Backend,1`,
+						`${projectId},10128,Synchronization,2`,
+						`${projectId},10131,Templates,5`,
+						""
+					].join("\n")
+				);
+			} finally {
+				await fs.rm(tmpDir, { recursive: true, force: true });
+			}
+		});
+
+		it("should record snapshots, and show changes between them", async () => {
+			expect.hasAssertions();
+
+			const componentsUrl = `${baseUrl}/rest/api/3/project/${projectId}/components`;
+			const [backend, frontend] = ExampleGetComponentsResponse;
+
+			fetchMock.mock(`begin:${baseUrl}/rest/api/3/search`, {
+				status: 200,
+				body: ExampleGetIssuesByComponentsResponse
+			});
+
+			const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "jira-snapshots-"));
+			const snapshotFile = path.join(tmpDir, "snapshots.jsonl");
+
+			try {
+				fetchMock.mock(componentsUrl, { status: 200, body: [backend, frontend] });
+				setArgv([
+					...Object.entries(MOCK_CLI_ARGUMENTS).flat(),
+					"--snapshot-file",
+					snapshotFile
+				]);
+				await expect(app()).resolves.toBeUndefined();
+				expect(process.exitCode).toBe(0);
+				expect(stdout).toContain(`Snapshot saved to ${snapshotFile}`);
+
+				fetchMock.mock(
+					componentsUrl,
+					{
+						status: 200,
+						body: [
+							{ ...backend, lead: frontend?.lead },
+							{ ...frontend, lead: undefined }
+						]
+					},
+					{ overwriteRoutes: true }
+				);
+				await expect(app()).resolves.toBeUndefined();
+				expect(process.exitCode).toBe(0);
+
+				const diffOutputStart = stdout.length;
+				setArgv(["diff", "--snapshot-file", snapshotFile, "--format", "json"]);
+				await expect(app()).resolves.toBeUndefined();
+				expect(process.exitCode).toBe(0);
+
+				expect(JSON.parse(stdout.slice(diffOutputStart))).toMatchObject({
+					schemaVersion: 1,
+					projects: [
+						{
+							projectId: projectId,
+							lostLead: [{ id: "10129", name: "Frontend", issues: 2 }],
+							gainedLead: [{ id: "10130", name: "Backend" }],
+							issuesChanged: []
+						}
+					]
+				});
+			} finally {
+				await fs.rm(tmpDir, { recursive: true, force: true });
+			}
+		});
+
+		it("should fail to show changes without two snapshots", async () => {
+			expect.hasAssertions();
+
+			setArgv(["diff", "--snapshot-file", path.join(os.tmpdir(), "missing.jsonl")]);
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(1);
+
+			expect(stderr).toContain("has no snapshot to compare, 0 snapshot(s) found");
+		});
+
+		it("should fail to show changes from a date later than the end date", async () => {
+			expect.hasAssertions();
+
+			setArgv([
+				"diff",
+				"--snapshot-file",
+				path.join(os.tmpdir(), "missing.jsonl"),
+				"--from",
+				"2024-05-08",
+				"--to",
+				"2024-05-01"
+			]);
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(1);
+
+			expect(stderr).toContain(
+				"option '--from <date>' must not be later than '--to <date>'"
+			);
+		});
+
+		it("should notify sinks only when leads changed since the previous snapshot", async () => {
+			expect.hasAssertions();
+
+			const slackUrl = "https://hooks.slack.com/services/T0/B0/XXX";
+
+			fetchMock.mock(`${baseUrl}/rest/api/3/project/${projectId}/components`, {
+				status: 200,
+				body: ExampleGetComponentsResponse
+			});
+			fetchMock.mock(`begin:${baseUrl}/rest/api/3/search`, {
+				status: 200,
+				body: ExampleGetIssuesByComponentsResponse
+			});
+			fetchMock.post(slackUrl, { status: 200 });
+
+			const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "jira-notifications-"));
+
+			try {
+				setArgv([
+					...Object.entries(MOCK_CLI_ARGUMENTS).flat(),
+					"--snapshot-file",
+					path.join(tmpDir, "snapshots.jsonl"),
+					"--notify",
+					`slack+${slackUrl}`,
+					"--notify-on-change"
+				]);
+				await expect(app()).resolves.toBeUndefined();
+				expect(process.exitCode).toBe(0);
+				expect(stdout).toContain("Notified 1 sink(s)");
+
+				await expect(app()).resolves.toBeUndefined();
+				expect(process.exitCode).toBe(0);
+				expect(stdout).toContain(
+					"Conditions of notifications were not met, nothing was sent."
+				);
+
+				expect(fetchMock.calls(slackUrl)).toHaveLength(1);
+				expect(JSON.parse(String(fetchMock.lastOptions(slackUrl)?.body))).toStrictEqual({
+					text: expect.stringContaining(
+						"*Jira audit: 3 component(s) without a project lead*"
+					)
+				});
+			} finally {
+				await fs.rm(tmpDir, { recursive: true, force: true });
+			}
+		});
+
+		it("should exit with a distinct code when a sink couldn't be notified", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(`${baseUrl}/rest/api/3/project/${projectId}/components`, {
+				status: 200,
+				body: ExampleGetComponentsResponse
+			});
+			fetchMock.mock(`begin:${baseUrl}/rest/api/3/search`, {
+				status: 200,
+				body: ExampleGetIssuesByComponentsResponse
+			});
+			fetchMock.post("https://example.com/hooks/secret", { status: 404 });
+
+			setArgv([
+				...Object.entries(MOCK_CLI_ARGUMENTS).flat(),
+				"--notify",
+				"webhook+https://example.com/hooks/secret"
+			]);
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(EXIT_CODES.notification);
+
+			expect(stderr).toContain("NotificationError: 1 of 1 notification(s) failed.");
+			expect(stderr).toContain("webhook example.com: Responded with 404 Not Found.");
+			expect(stderr).not.toContain("secret");
+		});
+
+		it("should fail on unknown sinks without showing their URLs", async () => {
+			expect.hasAssertions();
+
+			setArgv([
+				...Object.entries(MOCK_CLI_ARGUMENTS).flat(),
+				"--notify",
+				"https://hooks.slack.com/services/T0/B0/XXX"
+			]);
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(1);
+
+			expect(stderr).toContain(
+				"error: option '--notify <sinks...>' is invalid. Unknown notification sink"
+			);
+			expect(stderr).not.toContain("hooks.slack.com");
+		});
+
+		it("should exit with a distinct code when components exceed thresholds of 'check'", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(`${baseUrl}/rest/api/3/project/${projectId}/components`, {
+				status: 200,
+				body: ExampleGetComponentsResponse
+			});
+			fetchMock.mock(`begin:${baseUrl}/rest/api/3/search`, {
+				status: 200,
+				body: ExampleGetIssuesByComponentsResponse
+			});
+
+			setArgv([
+				"check",
+				...Object.entries(MOCK_CLI_ARGUMENTS).flat(),
+				"--format",
+				"junit"
+			]);
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(EXIT_CODES.findings);
+
+			expect(stdout).toMatch(/^<\?xml version="1\.0" encoding="UTF-8"\?>\n/u);
+			expect(stdout).toContain(`<testsuite name="${projectId}" tests="3" failures="3">`);
+
+			const passedOutputStart = stdout.length;
+			setArgv([
+				"check",
+				...Object.entries(MOCK_CLI_ARGUMENTS).flat(),
+				"--max-components",
+				"3"
+			]);
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(0);
+
+			expect(stdout.slice(passedOutputStart)).toContain(
+				"Check passed: 3 component(s) without a project lead, within thresholds (max 3 component(s))."
+			);
+		});
+
+		it("should accept only formats supported by a command", async () => {
+			expect.hasAssertions();
+
+			setArgv(["check", ...Object.entries(MOCK_CLI_ARGUMENTS).flat(), "--format", "csv"]);
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(1);
+			expect(stderr).toContain(
+				"error: option '--format <format>' argument 'csv' is not supported by 'check', allowed: text, json, junit, sarif"
+			);
+
+			setArgv([...Object.entries(MOCK_CLI_ARGUMENTS).flat(), "--format", "sarif"]);
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(1);
+			expect(stderr).toContain(
+				"error: option '--format <format>' argument 'sarif' is supported only by 'check'"
+			);
+		});
+
+		it("should serve results of scans over HTTP until 'watch' is stopped", async () => {
+			expect.hasAssertions();
+
+			const slackUrl = "https://hooks.slack.com/services/T0/B0/XXX";
+
+			fetchMock.mock(`${baseUrl}/rest/api/3/project/${projectId}/components`, {
+				status: 200,
+				body: ExampleGetComponentsResponse
+			});
+			fetchMock.mock(`begin:${baseUrl}/rest/api/3/search`, {
+				status: 200,
+				body: ExampleGetIssuesByComponentsResponse
+			});
+			fetchMock.post(slackUrl, { status: 200 });
+
+			setArgv([
+				"watch",
+				...Object.entries(MOCK_CLI_ARGUMENTS).flat(),
+				"--port",
+				"0",
+				"--notify",
+				`slack+${slackUrl}`
+			]);
+			const watching = app();
+
+			await waitForOutput(() => stdout, /3 component\(s\) without a project lead/u);
+			const origin = /Results: +(\S+)/u.exec(stdout)?.[1];
+
+			const [res] = (await once(http.get(`${String(origin)}/metrics`), "response")) as [
+				http.IncomingMessage
+			];
+			let metrics = "";
+			for await (const chunk of res) {
+				metrics += String(chunk);
+			}
+
+			expect(res.statusCode).toBe(200);
+			expect(metrics).toContain(`jira_audit_components{project="${projectId}"} 3`);
+
+			process.emit("SIGTERM");
+			await expect(watching).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(0);
+			expect(stdout).toContain("Schedule:      every 3600 second(s)");
+			expect(stdout).toContain("Stopped watching.");
+			expect(fetchMock.calls(slackUrl)).toHaveLength(0);
+		});
+
+		it("should summarize schema anomalies after every scan of 'watch'", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(`${baseUrl}/rest/api/3/project/${projectId}/components`, {
+				status: 200,
+				body: [...ExampleGetComponentsResponse, { id: "10001", name: null }]
+			});
+			fetchMock.mock(`begin:${baseUrl}/rest/api/3/search`, {
+				status: 200,
+				body: ExampleGetIssuesByComponentsResponse
+			});
+
+			setArgv([
+				"watch",
+				...Object.entries(MOCK_CLI_ARGUMENTS).flat(),
+				"--port",
+				"0",
+				"--interval",
+				"1",
+				"--validation",
+				"lenient"
+			]);
+			const watching = app();
+
+			await waitForOutput(
+				() => stderr,
+				/Schema anomalies: 1 record[^]*Schema anomalies: 1 record/u
+			);
+
+			process.emit("SIGTERM");
+			await expect(watching).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(0);
+			expect(stderr).not.toContain("Schema anomalies: 2 record(s)");
+		});
+
+		it("should notify after the first scan of 'watch' with '--notify-on-start'", async () => {
+			expect.hasAssertions();
+
+			const slackUrl = "https://hooks.slack.com/services/T0/B0/XXX";
+
+			fetchMock.mock(`${baseUrl}/rest/api/3/project/${projectId}/components`, {
+				status: 200,
+				body: ExampleGetComponentsResponse
+			});
+			fetchMock.mock(`begin:${baseUrl}/rest/api/3/search`, {
+				status: 200,
+				body: ExampleGetIssuesByComponentsResponse
+			});
+			fetchMock.post(slackUrl, { status: 200 });
+
+			setArgv([
+				"watch",
+				...Object.entries(MOCK_CLI_ARGUMENTS).flat(),
+				"--port",
+				"0",
+				"--notify",
+				`slack+${slackUrl}`,
+				"--notify-on-start"
+			]);
+			const watching = app();
+
+			await waitForOutput(() => stdout, /Notified 1 sink\(s\)/u);
+
+			process.emit("SIGTERM");
+			await expect(watching).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(0);
+			expect(fetchMock.calls(slackUrl)).toHaveLength(1);
+		});
+
+		it("should fail on invalid cron expressions of 'watch'", async () => {
+			expect.hasAssertions();
+
+			setArgv([
+				"watch",
+				...Object.entries(MOCK_CLI_ARGUMENTS).flat(),
+				"--cron",
+				"0 24 * * *"
+			]);
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(1);
+			expect(stderr).toContain(
+				"error: option '--cron <expression>' argument '0 24 * * *' is invalid. Invalid hour '24' of cron expression '0 24 * * *', allowed: 0-23."
+			);
+		});
+
+		it("should answer from the cache in the offline mode", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(`${baseUrl}/rest/api/3/project/${projectId}/components`, {
+				status: 200,
+				body: ExampleGetComponentsResponse
+			});
+
+			fetchMock.mock(`begin:${baseUrl}/rest/api/3/search`, {
+				status: 200,
+				body: ExampleGetIssuesByComponentsResponse
+			});
+
+			const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "jira-cache-"));
+			const args = [
+				...Object.entries(MOCK_CLI_ARGUMENTS).flat(),
+				"--format",
+				"csv",
+				"--cache-dir",
+				tmpDir
+			];
+
+			try {
+				setArgv(args);
+				await app();
+				const onlineStdout = stdout;
+
+				fetchMock.restore();
+				stdout = "";
+
+				setArgv([...args, "--offline"]);
+				await expect(app()).resolves.toBeUndefined();
+				expect(process.exitCode).toBe(0);
+
+				expect(stdout).toBe(onlineStdout);
+				expect(fetchMock.called()).toBe(false);
+			} finally {
+				await fs.rm(tmpDir, { recursive: true, force: true });
+			}
+		});
+
+		it("should replay recorded responses", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(`${baseUrl}/rest/api/3/project/${projectId}/components`, {
+				status: 200,
+				body: ExampleGetComponentsResponse
+			});
+
+			fetchMock.mock(`begin:${baseUrl}/rest/api/3/search`, {
+				status: 200,
+				body: ExampleGetIssuesByComponentsResponse
+			});
+
+			const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "jira-recordings-"));
+			const args = [...Object.entries(MOCK_CLI_ARGUMENTS).flat(), "--format", "csv"];
+
+			try {
+				setArgv([...args, "--record", tmpDir]);
+				await app();
+				const recordedStdout = stdout;
+
+				fetchMock.restore();
+				stdout = "";
+
+				setArgv([...args, "--replay", tmpDir]);
+				await expect(app()).resolves.toBeUndefined();
+				expect(process.exitCode).toBe(0);
+
+				expect(stdout).toBe(recordedStdout);
+				expect(fetchMock.called()).toBe(false);
+			} finally {
+				await fs.rm(tmpDir, { recursive: true, force: true });
+			}
+		});
+
+		it("should fail in the offline mode without a cache", async () => {
+			expect.hasAssertions();
+
+			setArgv([...Object.entries(MOCK_CLI_ARGUMENTS).flat(), "--offline"]);
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(1);
+
+			expect(stderr).toContain("error: option '--offline' requires '--cache-dir <path>'");
+		});
+
+		it("should scan several projects", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(`${baseUrl}/rest/api/3/project/${projectId}/components`, {
+				status: 200,
+				body: ExampleGetComponentsResponse
+			});
+
+			fetchMock.mock(`${baseUrl}/rest/api/3/project/EMPTY/components`, {
+				status: 200,
+				body: []
+			});
+
+			fetchMock.mock(`begin:${baseUrl}/rest/api/3/search`, {
+				status: 200,
+				body: ExampleGetIssuesByComponentsResponse
+			});
+
+			setArgv([
+				...Object.entries(MOCK_CLI_ARGUMENTS).flat(),
+				"--jira-project-id",
+				"EMPTY"
+			]);
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(0);
+
+			expect(stdout).toMatchSnapshot();
+		});
+
+		it("should scan all projects visible to the user", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(`begin:${baseUrl}/rest/api/3/project/search`, {
+				status: 200,
+				body: {
+					startAt: 0,
+					maxResults: 50,
+					total: 2,
+					values: [
+						{ id: "1", key: projectId, name: "Project" },
+						{ id: "2", key: "EMPTY", name: "Empty project" }
+					]
+				}
+			});
+
+			fetchMock.mock(`${baseUrl}/rest/api/3/project/${projectId}/components`, {
+				status: 200,
+				body: ExampleGetComponentsResponse
+			});
+
+			fetchMock.mock(`${baseUrl}/rest/api/3/project/EMPTY/components`, {
+				status: 200,
+				body: []
+			});
+
+			fetchMock.mock(`begin:${baseUrl}/rest/api/3/search`, {
+				status: 200,
+				body: ExampleGetIssuesByComponentsResponse
+			});
+
+			setArgv(["--jira-base-url", baseUrl, "--all-projects", "--format", "json"]);
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(0);
+
+			expect(JSON.parse(stdout)).toMatchObject({
+				projects: [{ projectId }, { projectId: "EMPTY", components: [] }]
+			});
+		});
+
+		it("should check enabled component health rules", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(`${baseUrl}/rest/api/3/project/${projectId}/components`, {
+				status: 200,
+				body: ExampleGetComponentsResponse
+			});
+
+			fetchMock.mock(`begin:${baseUrl}/rest/api/3/user/assignable/search`, {
+				status: 200,
+				body: []
+			});
+
+			fetchMock.mock(`begin:${baseUrl}/rest/api/3/search`, {
+				status: 200,
+				body: ExampleGetIssuesByComponentsResponse
+			});
+
+			setArgv([
+				...Object.entries(MOCK_CLI_ARGUMENTS).flat(),
+				"--rules",
+				"missing-lead,lead-not-project-member",
+				"--format",
+				"csv"
+			]);
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(0);
+
+			expect(stdout).toMatchSnapshot();
+		});
+
+		it("should check Jira Data Center / Server components", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(`${baseUrl}/rest/api/2/project/${projectId}/components`, {
+				status: 200,
+				body: ExampleServerGetComponentsResponse
+			});
+
+			fetchMock.mock(`begin:${baseUrl}/rest/api/2/user/assignable/search`, {
+				status: 200,
+				body: [{ key: "JIRAUSER10100", name: "ahevia", displayName: "Andres Hevia" }]
+			});
+
+			fetchMock.mock(`begin:${baseUrl}/rest/api/2/search`, {
+				status: 200,
+				body: ExampleServerGetIssuesByComponentsResponse
+			});
+
+			setArgv([
+				...Object.entries(MOCK_CLI_ARGUMENTS).flat(),
+				"--jira-api-flavor",
+				"server",
+				"--rules",
+				"missing-lead,inactive-lead,lead-not-project-member",
+				"--format",
+				"csv"
+			]);
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(0);
+
+			expect(stdout).toMatchSnapshot();
+		});
+
+		it("should break down issues of reported components", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(`${baseUrl}/rest/api/3/project/${projectId}/components`, {
+				status: 200,
+				body: ExampleGetComponentsResponse
+			});
+
+			const statusCategories = [
+				{ key: "new", name: "To Do" },
+				{ key: "indeterminate", name: "In Progress" },
+				{ key: "done", name: "Done" }
+			];
+
+			fetchMock.mock(`begin:${baseUrl}/rest/api/3/search`, {
+				status: 200,
+				body: {
+					...ExampleGetIssuesByComponentsResponse,
+					issues: ExampleGetIssuesByComponentsResponse.issues.map((issue, index) => {
+						const category = statusCategories[index % statusCategories.length];
+
+						return {
+							...issue,
+							fields: {
+								...issue.fields,
+								status: { name: category?.name, statusCategory: category },
+								issuetype: { name: ["Task", "Bug"][index % 2] },
+								priority: { name: "Medium" }
+							}
+						};
+					})
+				}
+			});
+
+			setArgv([
+				...Object.entries(MOCK_CLI_ARGUMENTS).flat(),
+				"--breakdown",
+				"status-category,issue-type,priority",
+				"--format",
+				"markdown"
+			]);
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(0);
+
+			expect(fetchMock.lastUrl()).toContain(
+				"fields=id%2Ccomponents%2Cstatus%2Cissuetype%2Cpriority"
+			);
+			expect(stdout).toMatchSnapshot();
+		});
+
+		it("should ask Jira for issue counts with the fast strategy", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(`${baseUrl}/rest/api/3/project/${projectId}/components`, {
+				status: 200,
+				body: ExampleGetComponentsResponse
+			});
+
+			fetchMock.mock(
+				{ url: `${baseUrl}/rest/api/3/search/approximate-count`, method: "POST" },
+				{ status: 200, body: { count: 3 } }
+			);
+
+			setArgv([
+				...Object.entries(MOCK_CLI_ARGUMENTS).flat(),
+				"--issue-count",
+				"fast",
+				"--format",
+				"csv"
+			]);
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(0);
+
+			expect(fetchMock.called(`begin:${baseUrl}/rest/api/3/search/jql`)).toBe(false);
+			expect(stdout).toMatchSnapshot();
+		});
+
+		it("should fail when unknown rule is enabled", async () => {
+			expect.hasAssertions();
+
+			setArgv([...Object.entries(MOCK_CLI_ARGUMENTS).flat(), "--rules", "xyz"]);
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(1);
+			expect(stderr).toContain("Unknown rule 'xyz'");
+		});
+
+		it("should use config file values unless they are overridden with CLI options", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(`${baseUrl}/rest/api/3/project/${projectId}/components`, {
+				status: 200,
+				body: ExampleGetComponentsResponse
+			});
+
+			fetchMock.mock(`begin:${baseUrl}/rest/api/3/search`, {
+				status: 200,
+				body: ExampleGetIssuesByComponentsResponse
+			});
+
+			const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "jira-audit-config-"));
+			const configPath = path.join(tmpDir, "jira-audit.config.json");
+
+			await fs.writeFile(
+				configPath,
+				JSON.stringify({
+					baseUrl: "https://unused.atlassian.net",
+					format: "csv",
+					profiles: { prod: { baseUrl: baseUrl, projects: [projectId] } }
+				})
+			);
+
+			try {
+				setArgv(["--config", configPath, "--profile", "prod", "--format", "markdown"]);
+				await expect(app()).resolves.toBeUndefined();
+				expect(process.exitCode).toBe(0);
+
+				expect(stdout).toContain(`## ${projectId}`);
+				expect(stdout).toContain("| 10130 | Backend | 1 |");
+			} finally {
+				await fs.rm(tmpDir, { recursive: true, force: true });
+			}
+		});
+	});
+
+	describe("assign-leads (mocked)", () => {
+		const MOCK_CLI_ARGUMENTS = INVALID_CLI_ARGUMENTS;
+
+		const baseUrl = String(MOCK_CLI_ARGUMENTS["--jira-base-url"]);
+		const projectId = String(MOCK_CLI_ARGUMENTS["--jira-project-id"]);
+
+		beforeEach(() => {
+			fetchMock.mock(`${baseUrl}/rest/api/3/project/${projectId}/components`, {
+				status: 200,
+				body: ExampleGetComponentsResponse
+			});
+
+			fetchMock.mock(`${baseUrl}/rest/api/3/project/${projectId}`, {
+				status: 200,
+				body: {
+					id: "1",
+					key: projectId,
+					name: "Project",
+					lead: { accountId: "abc", displayName: "John Doe" }
+				}
+			});
+
+			fetchMock.mock(
+				{ url: `begin:${baseUrl}/rest/api/3/component/`, method: "PUT" },
+				{ status: 200, body: {} }
+			);
+		});
+
+		it("should print planned changes without applying them in a dry run", async () => {
+			expect.hasAssertions();
+
+			setArgv([
+				"assign-leads",
+				...Object.entries(MOCK_CLI_ARGUMENTS).flat(),
+				"--lead-source",
+				"project-lead",
+				"--dry-run"
+			]);
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(0);
+
+			expect(stdout).toMatchSnapshot();
+			expect(fetchMock.called(`begin:${baseUrl}/rest/api/3/component/`)).toBe(false);
+		});
+
+		it("should apply planned changes without a confirmation", async () => {
+			expect.hasAssertions();
+
+			setArgv([
+				"assign-leads",
+				...Object.entries(MOCK_CLI_ARGUMENTS).flat(),
+				"--lead-source",
+				"project-lead",
+				"--yes"
+			]);
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(0);
+
+			expect(stdout).toContain("Assigned 3 lead(s).");
+			expect(fetchMock.calls(`begin:${baseUrl}/rest/api/3/component/`)).toHaveLength(3);
+		});
+
+		it("should report failed assignments, and exit with a failure", async () => {
+			expect.hasAssertions();
+
+			const forbiddenUrl = `${baseUrl}/rest/api/3/component/10128`;
+
+			fetchMock.mock(
+				{
+					url: `begin:${baseUrl}/rest/api/3/component/`,
+					method: "PUT",
+					functionMatcher: (url: string) => url !== forbiddenUrl
+				},
+				{ status: 200, body: {} },
+				{ overwriteRoutes: true }
+			);
+			fetchMock.mock(
+				{ url: forbiddenUrl, method: "PUT" },
+				{ status: 403, body: { errorMessages: ["Not allowed."] } }
+			);
+
+			setArgv([
+				"assign-leads",
+				...Object.entries(MOCK_CLI_ARGUMENTS).flat(),
+				"--lead-source",
+				"project-lead",
+				"--yes"
+			]);
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(EXIT_CODES.failure);
+
+			expect(stdout).toContain("Assigned 2 lead(s).");
+			expect(stderr).toContain("Failed to assign 1 lead(s):");
+			expect(stderr).toContain(
+				"[ID: 10128] Synchronization → John Doe JiraPermissionError:"
+			);
+		});
+
+		it("should report every failed assignment, and exit with the code of the first error", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(
+				{ url: `begin:${baseUrl}/rest/api/3/component/`, method: "PUT" },
+				{ status: 403, body: { errorMessages: ["Not allowed."] } },
+				{ overwriteRoutes: true }
+			);
+
+			setArgv([
+				"assign-leads",
+				...Object.entries(MOCK_CLI_ARGUMENTS).flat(),
+				"--lead-source",
+				"project-lead",
+				"--yes"
+			]);
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(EXIT_CODES.permission);
+
+			expect(stdout).not.toContain("Assigned");
+			expect(stderr).toContain("Failed to assign 3 lead(s):");
+			expect(stderr).toContain(
+				"[ID: 10128] Synchronization → John Doe JiraPermissionError:"
+			);
+		});
+
+		it("should tell when there is nothing to assign", async () => {
+			expect.hasAssertions();
+
+			setArgv([
+				"assign-leads",
+				...Object.entries(MOCK_CLI_ARGUMENTS).flat(),
+				"--lead-source",
+				"mapping",
+				"--yes"
+			]);
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(0);
+
+			expect(stdout).toContain("Nothing to assign, no changes were made.");
+			expect(stdout).not.toContain("Dry run");
+			expect(fetchMock.called(`begin:${baseUrl}/rest/api/3/component/`)).toBe(false);
+		});
+
+		it("should fail when confirmation can't be asked for", async () => {
+			expect.hasAssertions();
+
+			setArgv(["assign-leads", ...Object.entries(MOCK_CLI_ARGUMENTS).flat()]);
+			await expect(app()).resolves.toBeUndefined();
+			expect(process.exitCode).toBe(1);
+
+			expect(stderr).toContain("confirmation requires an interactive terminal");
+			expect(fetchMock.called()).toBe(false);
+		});
 	});
 });
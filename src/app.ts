@@ -1,59 +1,582 @@
-import { Command, CommanderError } from "@commander-js/extra-typings";
+import { once } from "node:events";
+import fs from "node:fs/promises";
+import type { AddressInfo } from "node:net";
+import { inspect } from "node:util";
+import {
+	Command,
+	CommanderError,
+	InvalidArgumentError,
+	Option
+} from "@commander-js/extra-typings";
+import type { CommandUnknownOpts } from "@commander-js/extra-typings";
 import chalk from "chalk";
-import { JiraAPI } from "./JiraAPI";
+import type { JiraSchemaWarning } from "./JiraAPI";
+import {
+	DEFAULT_MAX_CONCURRENCY,
+	JIRA_API_FLAVORS,
+	JiraAPI,
+	VALIDATION_MODES
+} from "./JiraAPI";
+import type { LeadAssignmentResult, LeadSource } from "./assignComponentLeads";
+import {
+	LEAD_SOURCES,
+	applyLeadAssignments,
+	loadLeadMapping,
+	planLeadAssignments
+} from "./assignComponentLeads";
+import { auditJiraProjects } from "./auditJiraProjects";
+import {
+	CHECK_FORMATS,
+	checkThresholds,
+	isCheckFormat,
+	renderCheckResult
+} from "./checkThresholds";
+import type { ComponentHealthRuleName } from "./componentHealthRules";
+import {
+	COMPONENT_HEALTH_RULE_NAMES,
+	DEFAULT_COMPONENT_HEALTH_RULES,
+	isComponentHealthRuleName
+} from "./componentHealthRules";
+import { ISSUE_COUNT_STRATEGIES } from "./countIssues";
+import type { CronExpression } from "./cronSchedule";
+import { getNextCronTime, parseCronExpression } from "./cronSchedule";
+import type { SnapshotDiff } from "./diffSnapshots";
+import { diffSnapshots, renderSnapshotDiff } from "./diffSnapshots";
+import type { ExitCode } from "./errorDiagnostics";
+import { EXIT_CODES, diagnoseError } from "./errorDiagnostics";
+import type { IssueBreakdown } from "./issueBreakdowns";
+import { ISSUE_BREAKDOWNS, isIssueBreakdown } from "./issueBreakdowns";
+import type { JiraTransport, JiraTransportMiddleware } from "./jiraTransport";
+import { applyTransportMiddlewares, fetchTransport } from "./jiraTransport";
+import type { AuditConfigSettings } from "./loadAuditConfig";
+import { loadAuditConfig } from "./loadAuditConfig";
+import type { NotificationSink } from "./notifications";
+import {
+	loadNotificationTemplate,
+	parseNotificationSink,
+	sendNotifications,
+	shouldNotify
+} from "./notifications";
+import { promptConfirmation } from "./promptConfirmation";
+import { createRecordingTransport, createReplayTransport } from "./recordReplay";
+import type { Report } from "./renderReport";
+import { REPORT_FORMATS, isReportFormat, renderReport } from "./renderReport";
+import type { JiraCredentials } from "./resolveJiraCredentials";
+import { redactCredentials, resolveJiraCredentials } from "./resolveJiraCredentials";
+import { createResponseCache } from "./responseCache";
+import { DEFAULT_RETRY_POLICY } from "./retryPolicy";
+import {
+	appendSnapshot,
+	findComparableSnapshot,
+	findSnapshot,
+	loadSnapshots,
+	takeSnapshot
+} from "./snapshotStore";
+import {
+	createCaBundleMiddleware,
+	createProxyMiddleware,
+	getNoProxyFromEnv,
+	getProxyUrlFromEnv
+} from "./transportMiddlewares";
+import type { WatchSchedule } from "./watchAudit";
+import {
+	DEFAULT_WATCH_PORT,
+	createWatchServer,
+	createWatchState,
+	hasReportChanged,
+	watchAudit
+} from "./watchAudit";
 
-export async function getJiraComponentsWithoutLead(query: {
-	baseUrl: string;
-	projectId: string;
-}): Promise<{ id: string; name: string; issues: number }[]> {
-	const { baseUrl, projectId } = query;
+/**
+ * Default time (in seconds) after which cached responses are revalidated.
+ */
+const DEFAULT_CACHE_TTL = 300;
+
+/**
+ * Default timeout (in ms) of a single request sent to Jira.
+ */
+const DEFAULT_REQUEST_TIMEOUT = 60_000;
 
-	const api = new JiraAPI({ baseUrl, projectId });
+/**
+ * Default time (in seconds) between scans of `watch`.
+ */
+const DEFAULT_WATCH_INTERVAL = 3600;
+
+/**
+ * Formats of `--format`, shared by all commands (each of them supports only some).
+ */
+const FORMATS = [...new Set([...REPORT_FORMATS, ...CHECK_FORMATS])];
 
-	const components = await api.getComponents();
+function parseNonNegativeInteger(value: string): number {
+	const number = Number(value);
 
-	const componentsWithoutLead = components.filter((component) => !component.lead);
-	if (componentsWithoutLead.length === 0) {
-		return [];
+	if (!Number.isSafeInteger(number) || number < 0) {
+		throw new InvalidArgumentError("Not a non-negative integer.");
 	}
 
-	const issues = await api.getIssuesByComponents({
-		componentIds: componentsWithoutLead.map((component) => component.id)
-	});
+	return number;
+}
 
-	const issuesCountByComponentId = new Map<string, number>();
+/**
+ * Accepts dates (and times) like `2024-05-01` or `2024-05-01T12:00:00Z`, returns them in ms.
+ */
+function parseDate(value: string): number {
+	const time = Date.parse(value);
 
-	for (const issue of issues) {
-		for (const component of issue.fields.components) {
-			issuesCountByComponentId.set(
-				component.id,
-				(issuesCountByComponentId.get(component.id) ?? 0) + 1
+	if (Number.isNaN(time)) {
+		throw new InvalidArgumentError("Not a date.");
+	}
+
+	return time;
+}
+
+/**
+ * Accepts cron expressions, which match some time (unlike `0 0 30 2 *`).
+ */
+function parseCron(value: string): CronExpression {
+	try {
+		const cron = parseCronExpression(value);
+		getNextCronTime(cron, new Date());
+		return cron;
+	} catch (error) {
+		throw new InvalidArgumentError((error as Error).message);
+	}
+}
+
+/**
+ * Accepts both `--jira-project-id A B` and `--jira-project-id A,B`.
+ */
+function parseProjectIds(value: string, previous: string[] = []): string[] {
+	const projectIds = value
+		.split(",")
+		.map((projectId) => projectId.trim())
+		.filter(Boolean);
+
+	return [...previous, ...projectIds];
+}
+
+/**
+ * Accepts rule names (space or comma separated), or `all` to enable all the rules.
+ */
+function parseRuleNames(
+	value: string,
+	previous: ComponentHealthRuleName[] = []
+): ComponentHealthRuleName[] {
+	const names = value
+		.split(",")
+		.map((name) => name.trim())
+		.filter(Boolean);
+
+	const rules = names.flatMap((name) => {
+		if (name === "all") {
+			return COMPONENT_HEALTH_RULE_NAMES;
+		}
+
+		if (!isComponentHealthRuleName(name)) {
+			throw new InvalidArgumentError(
+				`Unknown rule '${name}', allowed: all, ${COMPONENT_HEALTH_RULE_NAMES.join(", ")}.`
 			);
 		}
+
+		return [name];
+	});
+
+	return [...new Set([...previous, ...rules])];
+}
+
+function parsePositiveInteger(value: string): number {
+	const number = parseNonNegativeInteger(value);
+
+	if (number === 0) {
+		throw new InvalidArgumentError("Not a positive integer.");
 	}
 
-	return componentsWithoutLead.map((component) => {
-		return {
-			id: component.id,
-			name: component.name,
-			issues: issuesCountByComponentId.get(component.id) ?? 0
-		};
+	return number;
+}
+
+/**
+ * Maps config file settings to values of the matching CLI options.
+ */
+function getAuditConfigOptionValues(
+	settings: AuditConfigSettings
+): Record<string, unknown> {
+	const {
+		baseUrl,
+		apiFlavor,
+		projects,
+		auth,
+		rules,
+		breakdowns,
+		issueCount,
+		format,
+		output,
+		cache,
+		validation,
+		snapshotFile,
+		notifications = {},
+		http = {}
+	} = settings;
+
+	return {
+		jiraBaseUrl: baseUrl,
+		jiraApiFlavor: apiFlavor,
+		jiraProjectId: projects === "all" ? undefined : projects,
+		allProjects: projects === "all" ? true : undefined,
+		jiraEmail: auth?.email,
+		jiraCredentialsFile: auth?.credentialsFile,
+		rules: rules,
+		breakdown: breakdowns,
+		issueCount: issueCount,
+		format: format,
+		output: output,
+		cacheDir: cache?.directory,
+		cacheTtl: cache?.ttl,
+		validation: validation,
+		snapshotFile: snapshotFile,
+		notifyTemplate: notifications.template,
+		notifyOnChange: notifications.onChange,
+		notifyCountAbove: notifications.countAbove,
+		maxConcurrency: http.maxConcurrency,
+		retryMaxAttempts: http.retryMaxAttempts,
+		retryBaseDelay: http.retryBaseDelay,
+		retryMaxDelay: http.retryMaxDelay,
+		requestTimeout: http.requestTimeout,
+		deadline: http.deadline
+	};
+}
+
+/**
+ * Loads config file settings (if there is a config file), and uses them as values
+ * of the options that were not passed explicitly. Project selection is overridden as a whole.
+ */
+async function applyAuditConfig(
+	program: CommandUnknownOpts,
+	opts: { config: string | undefined; profile: string | undefined }
+): Promise<AuditConfigSettings | undefined> {
+	const { config, profile } = opts;
+
+	const settings = await loadAuditConfig({
+		configPath: config,
+		cwd: process.cwd(),
+		profile: profile ?? process.env.JIRA_AUDIT_PROFILE
 	});
+
+	if (!settings) {
+		return undefined;
+	}
+
+	const isProjectSelectionOverridden =
+		program.getOptionValueSource("jiraProjectId") === "cli" ||
+		program.getOptionValueSource("allProjects") === "cli";
+
+	for (const [key, value] of Object.entries(getAuditConfigOptionValues(settings))) {
+		const isOverridden =
+			program.getOptionValueSource(key) === "cli" ||
+			(isProjectSelectionOverridden && ["jiraProjectId", "allProjects"].includes(key));
+
+		if (value !== undefined && !isOverridden) {
+			program.setOptionValueWithSource(key, value, "config");
+		}
+	}
+
+	return settings;
 }
 
+/**
+ * Accepts breakdown names (space or comma separated), or `all` to enable all the breakdowns.
+ */
+function parseBreakdowns(
+	value: string,
+	previous: IssueBreakdown[] = []
+): IssueBreakdown[] {
+	const names = value
+		.split(",")
+		.map((name) => name.trim())
+		.filter(Boolean);
+
+	const breakdowns = names.flatMap((name) => {
+		if (name === "all") {
+			return ISSUE_BREAKDOWNS;
+		}
+
+		if (!isIssueBreakdown(name)) {
+			throw new InvalidArgumentError(
+				`Unknown breakdown '${name}', allowed: all, ${ISSUE_BREAKDOWNS.join(", ")}.`
+			);
+		}
+
+		return [name];
+	});
+
+	return [...new Set([...previous, ...breakdowns])];
+}
+
+/**
+ * Accepts lead sources (space or comma separated), which are tried in a given order.
+ */
+function parseLeadSources(value: string, previous: LeadSource[] = []): LeadSource[] {
+	const names = value
+		.split(",")
+		.map((name) => name.trim())
+		.filter(Boolean);
+
+	const sources = names.map((name) => {
+		const source = LEAD_SOURCES.find((leadSource) => leadSource === name);
+
+		if (!source) {
+			throw new InvalidArgumentError(
+				`Unknown lead source '${name}', allowed: ${LEAD_SOURCES.join(", ")}.`
+			);
+		}
+
+		return source;
+	});
+
+	return [...new Set([...previous, ...sources])];
+}
+
+function createLogger(isVisible: boolean): (...data: unknown[]) => void {
+	return (...data) => {
+		if (isVisible) {
+			console.log(...data);
+		}
+	};
+}
+
+/**
+ * Reports a record skipped in the lenient validation mode (to stderr,
+ * so that machine-readable reports stay valid).
+ */
+function logSchemaWarning(warning: JiraSchemaWarning) {
+	const { url, path, recordId, issues } = warning;
+
+	console.error(
+		chalk.yellow(
+			`Warning: skipped ${path}${
+				recordId === undefined ? "" : ` (ID ${recordId})`
+			} of ${url}`
+		)
+	);
+	for (const issue of issues) {
+		console.error(chalk.yellow(`  ${issue.path.join(".")}: ${issue.message}`));
+	}
+}
+
+/**
+ * Summarizes records skipped in the lenient validation mode, by endpoint.
+ */
+function logSchemaAnomalies(warnings: JiraSchemaWarning[]) {
+	const countByEndpoint = new Map<string, number>();
+
+	for (const { url } of warnings) {
+		const { pathname } = new URL(url);
+		countByEndpoint.set(pathname, (countByEndpoint.get(pathname) ?? 0) + 1);
+	}
+
+	console.error();
+	console.error(
+		chalk.yellow.bold(
+			`Schema anomalies: ${warnings.length} record(s) didn't match the expected schema, and were skipped.`
+		)
+	);
+	for (const [endpoint, count] of countByEndpoint) {
+		console.error(chalk.yellow(`  ${endpoint}: ${count}`));
+	}
+}
+
+const LEAD_SOURCE_LABELS: Record<LeadSource, string> = {
+	"mapping": "lead mapping",
+	"assignee": "most frequent assignee",
+	"project-lead": "project lead"
+};
+
 /**
  * Entry point of the CLI ap. It can be used like this:
  * ```sh
  * node app.js --help
  * node app.js --jira-base-url https://abc.atlassian.net --jira-project-id xyz
+ * node app.js --jira-base-url https://abc.atlassian.net --jira-project-id xyz abc
+ * node app.js --jira-base-url https://abc.atlassian.net --all-projects
+ * node app.js --jira-base-url https://abc.atlassian.net --jira-project-id xyz --rules all
+ * node app.js --jira-base-url https://abc.atlassian.net --jira-project-id xyz --breakdown all
+ * node app.js --jira-base-url https://abc.atlassian.net --jira-project-id xyz --issue-count fast
+ * node app.js --jira-base-url https://jira.abc.com --jira-api-flavor server --jira-project-id xyz
+ * node app.js --config jira-audit.config.yaml --profile prod
+ * node app.js --jira-base-url ... --jira-project-id xyz --cache-dir .jira-cache --offline
+ * node app.js --jira-base-url ... --jira-project-id xyz --record src/__fixtures__/recordings
+ * node app.js --jira-base-url ... --all-projects --request-timeout 30000 --deadline 600000
+ * node app.js --jira-base-url ... --jira-project-id xyz --validation lenient
+ * JIRA_EMAIL=me@abc.com JIRA_API_TOKEN=*** node app.js --jira-base-url ... --jira-project-id xyz
+ * node app.js --jira-base-url ... --jira-project-id xyz --format json --output report.json
+ * node app.js assign-leads --jira-base-url ... --jira-project-id xyz --dry-run
+ * node app.js --jira-base-url ... --jira-project-id xyz --snapshot-file snapshots.jsonl
+ * node app.js diff --snapshot-file snapshots.jsonl --from 2024-05-01
+ * node app.js check --jira-base-url ... --jira-project-id xyz --max-components 5 --format junit
+ * node app.js --jira-base-url ... --jira-project-id xyz --notify slack+https://hooks.slack.com/...
+ * node app.js watch --jira-base-url ... --all-projects --cron "0 * * * *" --port 9464
  * ```
  */
 export async function app() {
+	let credentials: JiraCredentials = { type: "anonymous" };
+	const schemaWarnings: JiraSchemaWarning[] = [];
+
+	/**
+	 * Summarizes anomalies collected so far, and forgets them. 'watch' doesn't end,
+	 * so it summarizes them after every scan.
+	 */
+	const logCollectedSchemaAnomalies = () => {
+		const warnings = schemaWarnings.splice(0);
+
+		if (warnings.length > 0) {
+			logSchemaAnomalies(warnings);
+		}
+	};
+
+	/*
+		A successful run can still fail a CI job, when components exceed thresholds of 'check'.
+	*/
+	let successExitCode: ExitCode = EXIT_CODES.success;
+
 	try {
 		const program = new Command()
 			.name("app.js")
-			.requiredOption("--jira-base-url <string>")
-			.requiredOption("--jira-project-id <string>")
+			.option(
+				"--config <path>",
+				"config file (defaults to ./jira-audit.config.(json|yaml))"
+			)
+			.option("--profile <name>", "config file profile (or JIRA_AUDIT_PROFILE)")
+			.option("--jira-base-url <string>")
+			.addOption(
+				new Option("--jira-api-flavor <flavor>", "Jira Cloud or Data Center / Server")
+					.choices(JIRA_API_FLAVORS)
+					.default("cloud" as const)
+			)
+			.option(
+				"--jira-project-id <keys...>",
+				"key(s) of scanned project(s)",
+				parseProjectIds
+			)
+			.option("--all-projects", "scan all projects visible to the user")
+			.option(
+				"--rules <names...>",
+				`component health rules to check (defaults to ${DEFAULT_COMPONENT_HEALTH_RULES.join(
+					", "
+				)})`,
+				parseRuleNames
+			)
+			.option(
+				"--breakdown <names...>",
+				`break issues of reported components down by ${ISSUE_BREAKDOWNS.join(", ")}`,
+				parseBreakdowns
+			)
+			.addOption(
+				new Option(
+					"--issue-count <strategy>",
+					"count issues by fetching all of them (exact), or by asking Jira for counts (fast)"
+				)
+					.choices(ISSUE_COUNT_STRATEGIES)
+					.default("full-scan" as const)
+			)
+			.option("--jira-email <string>", "Jira Cloud account email (or JIRA_EMAIL)")
+			.option("--jira-api-token <string>", "Jira Cloud API token (or JIRA_API_TOKEN)")
+			.option(
+				"--jira-personal-access-token <string>",
+				"Jira Data Center / Server PAT (or JIRA_PERSONAL_ACCESS_TOKEN)"
+			)
+			.option(
+				"--jira-credentials-file <path>",
+				"JSON file with credentials (or JIRA_CREDENTIALS_FILE)"
+			)
+			.option(
+				"--max-concurrency <number>",
+				"max number of requests sent to Jira at the same time",
+				parsePositiveInteger,
+				DEFAULT_MAX_CONCURRENCY
+			)
+			.option(
+				"--retry-max-attempts <number>",
+				"max attempts per rate limited (429) or failed (5xx) request",
+				parsePositiveInteger,
+				DEFAULT_RETRY_POLICY.maxAttempts
+			)
+			.option(
+				"--retry-base-delay <ms>",
+				"base delay of the exponential backoff",
+				parseNonNegativeInteger,
+				DEFAULT_RETRY_POLICY.baseDelayMs
+			)
+			.option(
+				"--retry-max-delay <ms>",
+				"max delay between attempts",
+				parseNonNegativeInteger,
+				DEFAULT_RETRY_POLICY.maxDelayMs
+			)
+			.option(
+				"--request-timeout <ms>",
+				"timeout of every request sent to Jira, 0 disables it",
+				parseNonNegativeInteger,
+				DEFAULT_REQUEST_TIMEOUT
+			)
+			.option(
+				"--deadline <ms>",
+				"cancel the whole run (or every scan of 'watch') after a given time",
+				parsePositiveInteger
+			)
+			.option("--proxy <url>", "proxy of requests sent to Jira (or HTTPS_PROXY)")
+			.option("--ca-file <path>", "PEM file with additional trusted CA certificates")
+			.option("--cache-dir <path>", "cache Jira responses in a directory")
+			.option(
+				"--cache-ttl <seconds>",
+				"time after which cached responses are revalidated with Jira",
+				parseNonNegativeInteger,
+				DEFAULT_CACHE_TTL
+			)
+			.option("--offline", "answer only from the cache, nothing is sent to Jira")
+			.addOption(
+				new Option(
+					"--validation <mode>",
+					"validation of Jira responses, 'lenient' skips records that don't match"
+				)
+					.choices(VALIDATION_MODES)
+					.default("strict" as const)
+			)
+			.option(
+				"--record <dir>",
+				"save sanitized Jira responses as fixtures into a directory"
+			)
+			.addOption(
+				new Option(
+					"--replay <dir>",
+					"answer with fixtures recorded with '--record', nothing is sent to Jira"
+				).conflicts("record")
+			)
+			.addOption(
+				new Option("--format <format>", "report format")
+					.choices(FORMATS)
+					.default("text" as const)
+			)
+			.option("--output <path>", "write report to a file instead of stdout")
+			.option(
+				"--snapshot-file <path>",
+				"append components of every run to a JSONL file (compared with 'diff')"
+			)
+			.option(
+				"--notify <sinks...>",
+				"post the report to webhook+<url>, slack+<url>, teams+<url> or smtp(s)://<server> sinks (or JIRA_AUDIT_NOTIFY)"
+			)
+			.option(
+				"--notify-template <path>",
+				"JSON template of the 'webhook' body, with {{placeholders}}"
+			)
+			.option(
+				"--notify-on-change",
+				"notify only when leads changed since the previous snapshot of '--snapshot-file'"
+			)
+			.option(
+				"--notify-count-above <number>",
+				"notify only when more components are reported",
+				parseNonNegativeInteger
+			)
 			.showHelpAfterError()
 			.exitOverride()
 			.configureOutput({
@@ -68,56 +591,847 @@ export async function app() {
 				}
 			});
 
-		console.log(chalk.cyan.bold("Detecting Jira components without a component lead..."));
-		console.log();
+		/*
+			Required options are checked manually, as they can be set in a config file too.
+		*/
+		const exitWithError: (message: string) => never = (message) => program.error(message);
 
-		const { jiraBaseUrl, jiraProjectId } = program.parse().opts();
+		/**
+		 * Applies the config file, checks options shared by all commands,
+		 * and creates a single `JiraAPI` instance.
+		 */
+		const setUp = async () => {
+			const settings = await applyAuditConfig(program, {
+				config: program.opts().config,
+				profile: program.opts().profile
+			});
 
-		console.log("• Jira base url:", chalk.bold(jiraBaseUrl));
-		console.log("• Jira project: ", chalk.bold(jiraProjectId));
-		console.log();
+			const {
+				jiraBaseUrl,
+				jiraApiFlavor,
+				jiraProjectId,
+				allProjects,
+				maxConcurrency,
+				retryMaxAttempts,
+				retryBaseDelay,
+				retryMaxDelay,
+				jiraEmail,
+				jiraApiToken,
+				jiraPersonalAccessToken,
+				jiraCredentialsFile,
+				cacheDir,
+				cacheTtl,
+				offline,
+				record,
+				replay,
+				requestTimeout,
+				deadline,
+				proxy,
+				caFile,
+				validation
+			} = program.opts();
 
-		const components = await getJiraComponentsWithoutLead({
-			baseUrl: jiraBaseUrl,
-			projectId: jiraProjectId
-		});
+			if (!jiraBaseUrl) {
+				exitWithError("error: required option '--jira-base-url <string>' not specified");
+			}
 
-		if (components.length === 0) {
-			console.log(
-				chalk.green("Script didn't detect any components without a project lead :)")
-			);
-		} else {
-			console.log(
-				chalk.yellow(
-					`Script detected ${chalk.bold(
-						components.length
-					)} component(s) without a project lead:`
+			if (!jiraProjectId && !allProjects) {
+				exitWithError(
+					"error: required option '--jira-project-id <keys...>' (or '--all-projects') not specified"
+				);
+			}
+
+			if (offline && !cacheDir) {
+				exitWithError("error: option '--offline' requires '--cache-dir <path>'");
+			}
+
+			const credentialsOptions = {
+				jiraEmail,
+				jiraApiToken,
+				jiraPersonalAccessToken,
+				jiraCredentialsFile
+			};
+
+			const resolvedCredentials = await resolveJiraCredentials({
+				options: credentialsOptions
+			});
+			credentials = resolvedCredentials;
+
+			const isAuthOverridden = Object.keys(credentialsOptions).some((key) => {
+				return program.getOptionValueSource(key) === "cli";
+			});
+
+			if (
+				settings?.auth &&
+				!isAuthOverridden &&
+				settings.auth.method !== resolvedCredentials.type
+			) {
+				throw new TypeError(
+					`Config file requires '${settings.auth.method}' authentication, but '${resolvedCredentials.type}' credentials were found.`
+				);
+			}
+
+			const proxyUrl = proxy ?? getProxyUrlFromEnv(process.env);
+			const ca = caFile === undefined ? undefined : await fs.readFile(caFile, "utf8");
+
+			const middlewares: JiraTransportMiddleware[] = [];
+
+			if (proxyUrl) {
+				middlewares.push(
+					createProxyMiddleware({
+						proxyUrl: proxyUrl,
+						ca: ca,
+						noProxy: getNoProxyFromEnv(process.env)
+					})
+				);
+			} else if (ca !== undefined) {
+				middlewares.push(createCaBundleMiddleware({ ca }));
+			}
+
+			let transport: JiraTransport = fetchTransport;
+
+			if (replay !== undefined) {
+				transport = await createReplayTransport({
+					directory: replay,
+					credentials: resolvedCredentials
+				});
+			} else if (record !== undefined) {
+				transport = createRecordingTransport({
+					transport: transport,
+					directory: record,
+					credentials: resolvedCredentials
+				});
+			}
+
+			const api = new JiraAPI({
+				baseUrl: jiraBaseUrl,
+				transport: transport,
+				middlewares: middlewares,
+				...(requestTimeout > 0 ? { requestTimeout } : {}),
+				flavor: jiraApiFlavor,
+				credentials: resolvedCredentials,
+				maxConcurrency: maxConcurrency,
+				retry: {
+					maxAttempts: retryMaxAttempts,
+					baseDelayMs: retryBaseDelay,
+					maxDelayMs: retryMaxDelay
+				},
+				...(cacheDir === undefined
+					? {}
+					: {
+							cache: createResponseCache({ directory: cacheDir, ttlMs: cacheTtl * 1000 })
+					  }),
+				offline: offline,
+				validation: validation,
+				onSchemaWarning: (warning) => {
+					schemaWarnings.push(warning);
+					logSchemaWarning(warning);
+				}
+			});
+
+			/*
+				Timer of the deadline doesn't keep the process alive.
+			*/
+			const signal = deadline === undefined ? undefined : AbortSignal.timeout(deadline);
+
+			/**
+			 * Returns keys of the selected projects, `--all-projects` adds all visible ones.
+			 */
+			const getProjectIds = async (
+				projectsSignal: AbortSignal | undefined = signal
+			): Promise<string[]> => {
+				const projectIds = new Set(jiraProjectId);
+				if (allProjects) {
+					for (const project of await api.searchProjects({ signal: projectsSignal })) {
+						projectIds.add(project.key);
+					}
+				}
+
+				return [...projectIds];
+			};
+
+			return {
+				api: api,
+				baseUrl: jiraBaseUrl,
+				settings: settings,
+				getProjectIds: getProjectIds,
+
+				/** Sends requests of other services (like notifications) with the same proxy. */
+				httpTransport: applyTransportMiddlewares(fetchTransport, middlewares),
+				signal: signal
+			};
+		};
+
+		const logProjects = (
+			log: (...data: unknown[]) => void,
+			opts: { baseUrl: string; projectIds: string[] }
+		) => {
+			const { baseUrl, projectIds } = opts;
+
+			log("• Jira base url:", chalk.bold(baseUrl));
+
+			if (projectIds.length === 1) {
+				log("• Jira project: ", chalk.bold(projectIds.join("")));
+			} else {
+				log("• Jira projects:", chalk.bold(projectIds.join(", ")));
+			}
+			log();
+		};
+
+		/**
+		 * Parses sinks of notifications (reported errors never contain their URLs, as secrets),
+		 * and loads their template.
+		 */
+		const setUpNotifications = async () => {
+			const {
+				notify = process.env.JIRA_AUDIT_NOTIFY?.split(/\s+/u).filter(Boolean) ?? [],
+				notifyTemplate
+			} = program.opts();
+
+			const sinks = notify.map((value): NotificationSink => {
+				try {
+					return parseNotificationSink(value);
+				} catch (error) {
+					return exitWithError(
+						`error: option '--notify <sinks...>' is invalid. ${(error as Error).message}`
+					);
+				}
+			});
+
+			const template =
+				notifyTemplate === undefined
+					? undefined
+					: await loadNotificationTemplate(notifyTemplate);
+
+			return { sinks, template };
+		};
+
+		program.action(async () => {
+			const { api, baseUrl, getProjectIds, httpTransport, signal } = await setUp();
+			const {
+				rules,
+				breakdown,
+				issueCount,
+				format,
+				output,
+				snapshotFile,
+				notifyOnChange = false,
+				notifyCountAbove
+			} = program.opts();
+
+			if (!isReportFormat(format)) {
+				exitWithError(
+					`error: option '--format <format>' argument '${format}' is supported only by 'check', allowed: ${REPORT_FORMATS.join(
+						", "
+					)}`
+				);
+			}
+
+			if (notifyOnChange && snapshotFile === undefined) {
+				exitWithError(
+					"error: option '--notify-on-change' requires '--snapshot-file <path>'"
+				);
+			}
+
+			const notifications = await setUpNotifications();
+
+			/*
+				Machine-readable reports printed to stdout can't be mixed with anything else.
+			*/
+			const log = createLogger(format === "text" || output !== undefined);
+
+			log(
+				chalk.cyan.bold(
+					rules
+						? "Checking Jira components against health rules..."
+						: "Detecting Jira components without a component lead..."
 				)
 			);
-			console.log();
+			log();
+
+			const projectIds = await getProjectIds();
+			logProjects(log, { baseUrl, projectIds });
+
+			const projects = await auditJiraProjects({
+				api: api,
+				projectIds: projectIds,
+				rules: rules ?? DEFAULT_COMPONENT_HEALTH_RULES,
+				breakdowns: breakdown,
+				issueCount: issueCount,
+				signal: signal
+			});
+
+			/*
+				Findings are reported only when rules were picked explicitly,
+				otherwise report stays the same as before rules were introduced.
+			*/
+			const report: Report = {
+				baseUrl: baseUrl,
+				projects: projects,
+				rules: rules,
+				breakdowns: breakdown
+			};
+
+			if (output === undefined) {
+				console.log(renderReport({ report: report, format: format, colors: true }));
+			} else {
+				await fs.writeFile(output, `${renderReport({ report, format })}\n`);
+				log(chalk.green(`Report saved to ${chalk.bold(output)}`));
+			}
+
+			/**
+			 * Appends a snapshot, and returns changes since the previous one
+			 * (only when they are needed by notifications).
+			 */
+			const saveSnapshot = async (
+				filePath: string
+			): Promise<SnapshotDiff | undefined> => {
+				const snapshot = takeSnapshot({ baseUrl, projects });
+				const previousSnapshot = notifyOnChange
+					? findComparableSnapshot(await loadSnapshots(filePath), snapshot)
+					: undefined;
+
+				await appendSnapshot(filePath, snapshot);
+				log(chalk.green(`Snapshot saved to ${chalk.bold(filePath)}`));
+
+				return previousSnapshot && diffSnapshots(previousSnapshot, snapshot);
+			};
+
+			const snapshotDiff =
+				snapshotFile === undefined ? undefined : await saveSnapshot(snapshotFile);
+
+			if (notifications.sinks.length > 0) {
+				const isNotified = shouldNotify({
+					report: report,
+					conditions: { onChange: notifyOnChange, countAbove: notifyCountAbove },
+					diff: snapshotDiff
+				});
+
+				if (isNotified) {
+					await sendNotifications({
+						...notifications,
+						report: report,
+						transport: httpTransport,
+						signal: signal
+					});
+					log(chalk.green(`Notified ${chalk.bold(notifications.sinks.length)} sink(s)`));
+				} else {
+					log(chalk.gray("Conditions of notifications were not met, nothing was sent."));
+				}
+			}
+		});
+
+		program
+			.command("assign-leads")
+			.description("assign a lead to every component without one")
+			.option(
+				"--lead-mapping <path>",
+				"JSON file, project key => component name (or ID) => user ID"
+			)
+			.option(
+				"--lead-source <sources...>",
+				`where leads come from, in order of precedence (defaults to ${LEAD_SOURCES.join(
+					", "
+				)})`,
+				parseLeadSources
+			)
+			.option("--dry-run", "print planned changes without applying them")
+			.option("--yes", "skip the interactive confirmation")
+			.action(async (options) => {
+				const { leadMapping, leadSource = LEAD_SOURCES, dryRun, yes } = options;
+
+				if (!dryRun && !yes && !process.stdin.isTTY) {
+					exitWithError(
+						"error: confirmation requires an interactive terminal, use '--yes' (or '--dry-run')"
+					);
+				}
+
+				const { api, baseUrl, getProjectIds, signal } = await setUp();
+				const mapping = leadMapping ? await loadLeadMapping(leadMapping) : undefined;
+				const log = createLogger(true);
+
+				log(
+					chalk.cyan.bold(
+						"Assigning leads to Jira components without a component lead..."
+					)
+				);
+				log();
+
+				const projectIds = await getProjectIds();
+				logProjects(log, { baseUrl, projectIds });
+
+				const plans = await Promise.all(
+					projectIds.map(async (projectId) => {
+						return planLeadAssignments({
+							api: api,
+							projectId: projectId,
+							sources: leadSource,
+							mapping: mapping,
+							signal: signal
+						});
+					})
+				);
+
+				const assignments = plans.flatMap((plan) => plan.assignments);
+				const unassigned = plans.flatMap((plan) => plan.unassigned);
+
+				const formatComponent = (
+					projectId: string,
+					component: { id: string; name: string }
+				) => {
+					return [
+						...(projectIds.length > 1 ? [chalk.cyan(`${projectId}:`)] : []),
+						chalk.gray(`[ID: ${component.id}]`),
+						chalk.bold(component.name)
+					].join(" ");
+				};
+
+				const logFailedAssignments = (failed: LeadAssignmentResult["failed"]) => {
+					console.error();
+					console.error(
+						chalk.red(`Failed to assign ${chalk.bold(failed.length)} lead(s):`)
+					);
+					console.error();
+					for (const { assignment, error } of failed) {
+						const summary = diagnoseError(error)?.summary ?? inspect(error);
+
+						console.error(
+							formatComponent(assignment.projectId, assignment.component),
+							"→",
+							chalk.magenta(assignment.lead.displayName),
+							chalk.red(redactCredentials(summary, credentials))
+						);
+					}
+				};
+
+				if (assignments.length === 0 && unassigned.length === 0) {
+					log(
+						chalk.green("Script didn't detect any components without a project lead :)")
+					);
+					return;
+				}
+
+				if (assignments.length > 0) {
+					log(
+						chalk.yellow(
+							`Planned lead(s) of ${chalk.bold(assignments.length)} component(s):`
+						)
+					);
+					log();
+					for (const { projectId, component, lead, source } of assignments) {
+						log(
+							formatComponent(projectId, component),
+							"→",
+							chalk.magenta(lead.displayName),
+							chalk.gray(`(${LEAD_SOURCE_LABELS[source]})`)
+						);
+					}
+					log();
+				}
+
+				if (unassigned.length > 0) {
+					log(
+						chalk.red(`No lead found for ${chalk.bold(unassigned.length)} component(s):`)
+					);
+					log();
+					for (const { projectId, component } of unassigned) {
+						log(formatComponent(projectId, component));
+					}
+					log();
+				}
+
+				if (dryRun) {
+					log(chalk.gray("Dry run, no changes were made."));
+					return;
+				}
+
+				if (assignments.length === 0) {
+					log(chalk.gray("Nothing to assign, no changes were made."));
+					return;
+				}
+
+				const isConfirmed =
+					yes ??
+					(await promptConfirmation({
+						question: `Assign ${assignments.length} lead(s)?`
+					}));
+
+				if (!isConfirmed) {
+					log(chalk.gray("Aborted, no changes were made."));
+					return;
+				}
+
+				const { assigned, failed } = await applyLeadAssignments({
+					api,
+					assignments,
+					signal
+				});
+
+				if (assigned.length > 0) {
+					log(chalk.green(`Assigned ${chalk.bold(assigned.length)} lead(s).`));
+				}
+
+				if (failed.length > 0) {
+					logFailedAssignments(failed);
+
+					/*
+						When nothing was assigned, the exit code tells why (like of other errors).
+					*/
+					successExitCode =
+						assigned.length === 0
+							? diagnoseError(failed[0]?.error)?.exitCode ?? EXIT_CODES.failure
+							: EXIT_CODES.failure;
+				}
+			});
+
+		program
+			.command("check")
+			.description(
+				`fail with exit code ${EXIT_CODES.findings} when reported components exceed thresholds`
+			)
+			.option(
+				"--max-components <number>",
+				"max number of reported components (defaults to 0, when no threshold is given)",
+				parseNonNegativeInteger
+			)
+			.option(
+				"--max-open-issues <number>",
+				"max number of open issues of a single reported component",
+				parseNonNegativeInteger
+			)
+			.action(async (options) => {
+				const { api, baseUrl, settings, getProjectIds, signal } = await setUp();
+				const { rules, breakdown, issueCount, format, output } = program.opts();
+				const {
+					maxComponents = settings?.check?.maxComponents,
+					maxOpenIssues = settings?.check?.maxOpenIssues
+				} = options;
+
+				if (!isCheckFormat(format)) {
+					exitWithError(
+						`error: option '--format <format>' argument '${format}' is not supported by 'check', allowed: ${CHECK_FORMATS.join(
+							", "
+						)}`
+					);
+				}
+
+				const log = createLogger(format === "text" || output !== undefined);
+
+				log(chalk.cyan.bold("Checking Jira components against thresholds..."));
+				log();
+
+				const projectIds = await getProjectIds();
+				logProjects(log, { baseUrl, projectIds });
+
+				/*
+					Open issues are counted from status categories of issues.
+				*/
+				const breakdowns =
+					maxOpenIssues === undefined
+						? breakdown
+						: [...new Set([...(breakdown ?? []), "status-category" as const])];
+
+				const projects = await auditJiraProjects({
+					api: api,
+					projectIds: projectIds,
+					rules: rules ?? DEFAULT_COMPONENT_HEALTH_RULES,
+					breakdowns: breakdowns,
+					issueCount: issueCount,
+					signal: signal
+				});
+
+				const result = checkThresholds({
+					report: { baseUrl, projects, rules, breakdowns },
+					thresholds: { maxComponents, maxOpenIssues }
+				});
+
+				if (output === undefined) {
+					console.log(
+						renderCheckResult({ result: result, format: format, colors: true })
+					);
+				} else {
+					await fs.writeFile(output, `${renderCheckResult({ result, format })}\n`);
+					log(chalk.green(`Check results saved to ${chalk.bold(output)}`));
+				}
+
+				if (!result.passed) {
+					successExitCode = EXIT_CODES.findings;
+				}
+			});
+
+		program
+			.command("diff")
+			.description("show changes of components between snapshots of '--snapshot-file'")
+			.option(
+				"--from <date>",
+				"compare with the last snapshot taken at or before a date (defaults to the previous one)",
+				parseDate
+			)
+			.option(
+				"--to <date>",
+				"compare the last snapshot taken at or before a date (defaults to the latest one)",
+				parseDate
+			)
+			.action(async (options) => {
+				const { from, to } = options;
+
+				await applyAuditConfig(program, {
+					config: program.opts().config,
+					profile: program.opts().profile
+				});
+
+				const { snapshotFile, format, output } = program.opts();
+
+				if (snapshotFile === undefined) {
+					exitWithError("error: required option '--snapshot-file <path>' not specified");
+				}
+
+				if (format !== "text" && format !== "json") {
+					exitWithError(
+						`error: option '--format <format>' argument '${format}' is not supported by 'diff', allowed: text, json`
+					);
+				}
+
+				if (from !== undefined && to !== undefined && from > to) {
+					exitWithError(
+						"error: option '--from <date>' must not be later than '--to <date>'"
+					);
+				}
 
-			for (const { id, name, issues } of components) {
-				console.log(
-					chalk.gray(`[ID: ${id}]`),
-					chalk.bold(name),
-					chalk.magenta(`with ${chalk.bold(issues)} issue(s)`)
+				const snapshots = await loadSnapshots(snapshotFile);
+				const toSnapshot =
+					to === undefined ? snapshots.at(-1) : findSnapshot(snapshots, to);
+				const earlierSnapshots = toSnapshot
+					? snapshots.slice(0, snapshots.indexOf(toSnapshot))
+					: [];
+				const fromSnapshot =
+					from === undefined
+						? toSnapshot && findComparableSnapshot(earlierSnapshots, toSnapshot)
+						: findSnapshot(snapshots, from);
+
+				if (!toSnapshot || !fromSnapshot) {
+					exitWithError(
+						`error: ${snapshotFile} has no snapshot to compare, ${snapshots.length} snapshot(s) found`
+					);
+				}
+
+				const diff = diffSnapshots(fromSnapshot, toSnapshot);
+
+				if (output === undefined) {
+					console.log(renderSnapshotDiff({ diff: diff, format: format, colors: true }));
+				} else {
+					await fs.writeFile(output, `${renderSnapshotDiff({ diff, format })}\n`);
+					console.log(chalk.green(`Changes saved to ${chalk.bold(output)}`));
+				}
+			});
+
+		program
+			.command("watch")
+			.description(
+				"scan on a schedule, notify on changes, and serve the latest results over HTTP"
+			)
+			.addOption(
+				new Option(
+					"--interval <seconds>",
+					`time between scans (defaults to ${DEFAULT_WATCH_INTERVAL})`
+				)
+					.argParser(parsePositiveInteger)
+					.conflicts("cron")
+			)
+			.option(
+				"--cron <expression>",
+				"scan on a cron schedule in local time (like '0 * * * *')",
+				parseCron
+			)
+			.option(
+				"--port <number>",
+				"port of /health, /metrics and /report.json, 0 picks a free one",
+				parseNonNegativeInteger,
+				DEFAULT_WATCH_PORT
+			)
+			.option("--host <host>", "host of /health, /metrics and /report.json", "127.0.0.1")
+			.option(
+				"--notify-on-start",
+				"notify after the first scan too, not only when reported components change"
+			)
+			.action(async (options) => {
+				const {
+					interval = DEFAULT_WATCH_INTERVAL,
+					cron,
+					port,
+					host,
+					notifyOnStart = false
+				} = options;
+				const { api, baseUrl, getProjectIds, httpTransport } = await setUp();
+				const { rules, breakdown, issueCount, deadline, notifyCountAbove } =
+					program.opts();
+				const notifications = await setUpNotifications();
+				const log = createLogger(true);
+
+				const schedule: WatchSchedule = cron
+					? { type: "cron", expression: cron }
+					: { type: "interval", intervalMs: interval * 1000 };
+
+				/*
+					Watching stops gracefully, the current scan is aborted.
+				*/
+				const controller = new AbortController();
+				const stop = () => {
+					controller.abort();
+				};
+
+				const state = createWatchState();
+				const server = createWatchServer(state);
+
+				server.listen(port, host);
+				await once(server, "listening");
+
+				const { port: serverPort } = server.address() as AddressInfo;
+
+				log(
+					chalk.cyan.bold(
+						rules
+							? "Watching Jira components for violations of health rules..."
+							: "Watching Jira components without a component lead..."
+					)
+				);
+				log();
+				log("• Jira base url:", chalk.bold(baseUrl));
+				log("• Results:      ", chalk.bold(`http://${host}:${serverPort}`));
+				log(
+					"• Schedule:     ",
+					chalk.bold(cron ? `cron '${cron.source}'` : `every ${interval} second(s)`)
 				);
+				log();
+
+				const logError = (error: unknown) => {
+					const diagnosis = diagnoseError(error);
+					const summary = diagnosis?.summary ?? inspect(error);
+
+					console.error(
+						chalk.gray(`[${new Date().toISOString()}]`),
+						chalk.red(redactCredentials(summary, credentials))
+					);
+					for (const detail of diagnosis?.details ?? []) {
+						console.error(chalk.red(`  ${detail}`));
+					}
+				};
+
+				process.once("SIGINT", stop);
+				process.once("SIGTERM", stop);
+
+				try {
+					await watchAudit({
+						state: state,
+						schedule: schedule,
+						scan: async (scanSignal) => {
+							const projects = await auditJiraProjects({
+								api: api,
+								projectIds: await getProjectIds(scanSignal),
+								rules: rules ?? DEFAULT_COMPONENT_HEALTH_RULES,
+								breakdowns: breakdown,
+								issueCount: issueCount,
+								signal: scanSignal
+							});
+
+							return {
+								baseUrl: baseUrl,
+								projects: projects,
+								rules: rules,
+								breakdowns: breakdown
+							};
+						},
+						onScan: async ({ finishedAt, report, changes }) => {
+							const count = report.projects.flatMap(
+								({ components }) => components
+							).length;
+
+							log(
+								chalk.gray(`[${finishedAt.toISOString()}]`),
+								`${chalk.bold(count)} component(s) ${
+									rules ? "violating the rules" : "without a project lead"
+								}`,
+								changes.isFirst
+									? ""
+									: chalk.gray(
+											`(${changes.added.length} new, ${changes.removed.length} resolved)`
+									  )
+							);
+							logCollectedSchemaAnomalies();
+
+							/*
+								Memory of the previous scan replaces '--notify-on-change', restarts
+								don't notify about the same components again.
+							*/
+							const isNotified =
+								(changes.isFirst ? notifyOnStart : hasReportChanged(changes)) &&
+								shouldNotify({
+									report: report,
+									conditions: { countAbove: notifyCountAbove }
+								});
+
+							if (notifications.sinks.length > 0 && isNotified) {
+								await sendNotifications({
+									...notifications,
+									report: report,
+									transport: httpTransport,
+									signal: controller.signal
+								});
+								log(
+									chalk.green(
+										`Notified ${chalk.bold(notifications.sinks.length)} sink(s)`
+									)
+								);
+							}
+						},
+						onError: (error) => {
+							logError(error);
+							logCollectedSchemaAnomalies();
+						},
+						scanTimeoutMs: deadline,
+						signal: controller.signal
+					});
+				} finally {
+					process.off("SIGINT", stop);
+					process.off("SIGTERM", stop);
+					server.close();
+				}
+
+				log(chalk.gray("Stopped watching."));
+			});
+
+		await program.parseAsync();
+
+		logCollectedSchemaAnomalies();
+
+		process.exitCode = successExitCode;
+	} catch (error) {
+		const diagnosis = diagnoseError(error);
+
+		if (diagnosis) {
+			console.error(chalk.red.bold(redactCredentials(diagnosis.summary, credentials)));
+			for (const detail of diagnosis.details) {
+				console.error(chalk.red(`  ${detail}`));
 			}
+			console.error();
+			console.error(diagnosis.explanation);
+			console.error(chalk.yellow(`Suggested fix: ${diagnosis.suggestion}`));
+
+			process.exitCode = diagnosis.exitCode;
+			return;
 		}
 
-		process.exitCode = 0;
-	} catch (error) {
 		if (error instanceof CommanderError) {
 			console.error();
 		} else {
-			console.error(error);
+			console.error(redactCredentials(inspect(error), credentials));
 			console.error();
 		}
 
 		console.error(chalk.red("Oops, something went wrong."));
 		console.error(chalk.red("The detailed error can be found above this message."));
 
-		process.exitCode = 1;
+		process.exitCode = EXIT_CODES.failure;
 	}
 }
 
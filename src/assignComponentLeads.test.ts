@@ -0,0 +1,237 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import fetchMock from "fetch-mock";
+import { ZodError } from "zod";
+import type { GetIssuesByComponentsResponse } from "./JiraAPI";
+import { JiraAPI, JiraPermissionError } from "./JiraAPI";
+import ExampleGetComponentsResponse from "./__fixtures__/GetComponentsResponse.json";
+import type { LeadAssignment } from "./assignComponentLeads";
+import {
+	applyLeadAssignments,
+	loadLeadMapping,
+	planLeadAssignments
+} from "./assignComponentLeads";
+
+describe("assignComponentLeads", () => {
+	const baseUrl = "https://xxx.atlassian.net";
+	const projectId = "SP";
+
+	const alice = { accountId: "alice", displayName: "Alice" };
+	const bob = { accountId: "bob", displayName: "Bob" };
+	const carol = { accountId: "carol", displayName: "Carol", active: false };
+
+	const issues: GetIssuesByComponentsResponse = {
+		startAt: 0,
+		maxResults: 100,
+		total: 5,
+		issues: [
+			["10130", alice],
+			["10130", bob],
+			["10130", bob],
+			["10128", carol],
+			["10128", null]
+		].map(([componentId, assignee], index) => {
+			return {
+				id: String(index),
+				fields: {
+					components: [{ id: String(componentId), name: "" }],
+					assignee: assignee
+				}
+			};
+		}) as GetIssuesByComponentsResponse["issues"]
+	};
+
+	beforeEach(() => {
+		fetchMock.mock(`${baseUrl}/rest/api/3/project/${projectId}/components`, {
+			status: 200,
+			body: ExampleGetComponentsResponse
+		});
+
+		fetchMock.mock(`begin:${baseUrl}/rest/api/3/search`, { status: 200, body: issues });
+
+		fetchMock.mock(`${baseUrl}/rest/api/3/project/${projectId}`, {
+			status: 200,
+			body: { id: "1", key: projectId, name: "Sample Project", lead: alice }
+		});
+	});
+
+	afterEach(() => {
+		fetchMock.restore();
+	});
+
+	describe("planLeadAssignments", () => {
+		it("should try sources in a given order", async () => {
+			expect.hasAssertions();
+
+			const api = new JiraAPI({ baseUrl });
+
+			await expect(
+				planLeadAssignments({
+					api: api,
+					projectId: projectId,
+					sources: ["assignee", "project-lead"]
+				})
+			).resolves.toStrictEqual({
+				assignments: [
+					{
+						projectId: projectId,
+						component: { id: "10130", name: "Backend" },
+						lead: { id: "bob", displayName: "Bob" },
+						source: "assignee"
+					},
+					{
+						projectId: projectId,
+						component: { id: "10128", name: "Synchronization" },
+						lead: { id: "alice", displayName: "Alice" },
+						source: "project-lead"
+					},
+					{
+						projectId: projectId,
+						component: { id: "10131", name: "Templates" },
+						lead: { id: "alice", displayName: "Alice" },
+						source: "project-lead"
+					}
+				],
+				unassigned: []
+			});
+
+			expect(fetchMock.lastUrl(`begin:${baseUrl}/rest/api/3/search`)).toContain(
+				"fields=id%2Ccomponents%2Cassignee"
+			);
+		});
+
+		it("should use mapped users that can be assigned to the project", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(
+				`${baseUrl}/rest/api/3/user/assignable/search?project=${projectId}&accountId=dave`,
+				{ status: 200, body: [] }
+			);
+			fetchMock.mock(`begin:${baseUrl}/rest/api/3/user/assignable/search`, {
+				status: 200,
+				body: [alice]
+			});
+
+			const api = new JiraAPI({ baseUrl });
+
+			const plan = await planLeadAssignments({
+				api: api,
+				projectId: projectId,
+				sources: ["mapping"],
+				mapping: { [projectId]: { "Backend": "alice", "10128": "dave" } }
+			});
+
+			expect(plan).toStrictEqual({
+				assignments: [
+					{
+						projectId: projectId,
+						component: { id: "10130", name: "Backend" },
+						lead: { id: "alice", displayName: "Alice" },
+						source: "mapping"
+					}
+				],
+				unassigned: [
+					{ projectId: projectId, component: { id: "10128", name: "Synchronization" } },
+					{ projectId: projectId, component: { id: "10131", name: "Templates" } }
+				]
+			});
+			expect(fetchMock.called(`begin:${baseUrl}/rest/api/3/search`)).toBe(false);
+		});
+	});
+
+	describe("applyLeadAssignments", () => {
+		it("should update lead of every component", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(
+				{
+					name: "updateComponentLead",
+					url: `${baseUrl}/rest/api/3/component/10130`,
+					method: "PUT",
+					body: { leadAccountId: "bob" }
+				},
+				{ status: 200, body: {} }
+			);
+
+			const api = new JiraAPI({ baseUrl });
+			const assignment: LeadAssignment = {
+				projectId: projectId,
+				component: { id: "10130", name: "Backend" },
+				lead: { id: "bob", displayName: "Bob" },
+				source: "assignee"
+			};
+
+			await expect(
+				applyLeadAssignments({ api: api, assignments: [assignment] })
+			).resolves.toStrictEqual({ assigned: [assignment], failed: [] });
+
+			expect(fetchMock.called("updateComponentLead")).toBe(true);
+		});
+
+		it("should try every assignment, and report the failed ones", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(
+				{ url: `${baseUrl}/rest/api/3/component/10130`, method: "PUT" },
+				{ status: 200, body: {} }
+			);
+			fetchMock.mock(
+				{ url: `${baseUrl}/rest/api/3/component/10128`, method: "PUT" },
+				{ status: 403, body: { errorMessages: ["Not allowed."] } }
+			);
+
+			const api = new JiraAPI({ baseUrl });
+			const assigned: LeadAssignment = {
+				projectId: projectId,
+				component: { id: "10130", name: "Backend" },
+				lead: { id: "bob", displayName: "Bob" },
+				source: "assignee"
+			};
+			const failed: LeadAssignment = {
+				...assigned,
+				component: { id: "10128", name: "Synchronization" }
+			};
+
+			await expect(
+				applyLeadAssignments({ api: api, assignments: [assigned, failed] })
+			).resolves.toStrictEqual({
+				assigned: [assigned],
+				failed: [{ assignment: failed, error: expect.any(JiraPermissionError) }]
+			});
+		});
+	});
+
+	describe("loadLeadMapping", () => {
+		let tmpDir: string;
+
+		beforeEach(async () => {
+			tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "jira-lead-mapping-"));
+		});
+
+		afterEach(async () => {
+			await fs.rm(tmpDir, { recursive: true, force: true });
+		});
+
+		it("should load a valid mapping file", async () => {
+			expect.hasAssertions();
+
+			const filePath = path.join(tmpDir, "leads.json");
+			await fs.writeFile(filePath, JSON.stringify({ SP: { Backend: "alice" } }));
+
+			await expect(loadLeadMapping(filePath)).resolves.toStrictEqual({
+				SP: { Backend: "alice" }
+			});
+		});
+
+		it("should fail when mapping file is not valid", async () => {
+			expect.hasAssertions();
+
+			const filePath = path.join(tmpDir, "leads.json");
+			await fs.writeFile(filePath, JSON.stringify({ SP: ["alice"] }));
+
+			await expect(loadLeadMapping(filePath)).rejects.toThrow(ZodError);
+		});
+	});
+});
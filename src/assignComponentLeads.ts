@@ -0,0 +1,266 @@
+import fs from "node:fs/promises";
+import z, { ZodError } from "zod";
+import type {
+	GetComponentsResponse,
+	JiraAPI,
+	JiraIssue,
+	JiraNetworkError,
+	JiraResponseError,
+	JiraSchemaError,
+	JiraTimeoutError,
+	JiraUser
+} from "./JiraAPI";
+import { getJiraUserId } from "./JiraAPI";
+
+/* -------------------------------------------------------------------------- */
+/*                                    TYPES                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Sources of a lead, tried in a given order until one of them returns a user:
+ * - `mapping` - user picked for the component in a lead mapping file,
+ * - `assignee` - the most frequent (active) assignee among the component's issues,
+ * - `project-lead` - lead of the project (if active).
+ */
+export const LEAD_SOURCES = ["mapping", "assignee", "project-lead"] as const;
+
+export type LeadSource = (typeof LEAD_SOURCES)[number];
+
+/**
+ * Lead mapping file, project key => component name (or ID) => user ID
+ * (`accountId` on Cloud, username on Data Center / Server), for example:
+ * ```json
+ * { "SP": { "Backend": "6231a277867a4e0070963ebe", "10128": "61b0833eb43d5b006ac9b237" } }
+ * ```
+ */
+export type LeadMapping = z.infer<typeof LeadMappingSchema>;
+
+export const LeadMappingSchema = z.record(z.record(z.string().min(1)));
+
+export type LeadAssignment = {
+	projectId: string;
+	component: { id: string; name: string };
+	lead: { id: string; displayName: string };
+	source: LeadSource;
+};
+
+/**
+ * Outcome of applied assignments, a failed one doesn't stop the others.
+ */
+export type LeadAssignmentResult = {
+	assigned: LeadAssignment[];
+	failed: { assignment: LeadAssignment; error: unknown }[];
+};
+
+export type LeadAssignmentPlan = {
+	assignments: LeadAssignment[];
+
+	/**
+	 * Lead-less components, for which none of the sources returned a user.
+	 */
+	unassigned: { projectId: string; component: { id: string; name: string } }[];
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                  PLANNING                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * @throws {ZodError | Error}
+ */
+export async function loadLeadMapping(filePath: string): Promise<LeadMapping> {
+	const text = await fs.readFile(filePath, "utf8");
+	const json: unknown = JSON.parse(text);
+
+	return LeadMappingSchema.parse(json);
+}
+
+/**
+ * Returns the most frequent active assignee of every component (ties go to the first one found).
+ */
+function getMostFrequentAssignees(issues: readonly JiraIssue[]): Map<string, JiraUser> {
+	const countsByComponentId = new Map<
+		string,
+		Map<string, { user: JiraUser; count: number }>
+	>();
+
+	const assignedIssues = issues.flatMap(({ fields }) => {
+		const { assignee, components } = fields;
+		return assignee && assignee.active !== false ? [{ assignee, components }] : [];
+	});
+
+	for (const { assignee, components } of assignedIssues) {
+		for (const component of components) {
+			const counts =
+				countsByComponentId.get(component.id) ??
+				new Map<string, { user: JiraUser; count: number }>();
+			const userId = getJiraUserId(assignee);
+			const count = counts.get(userId)?.count ?? 0;
+
+			counts.set(userId, { user: assignee, count: count + 1 });
+			countsByComponentId.set(component.id, counts);
+		}
+	}
+
+	const assignees = new Map<string, JiraUser>();
+
+	for (const [componentId, counts] of countsByComponentId) {
+		const [mostFrequent] = [...counts.values()].sort((a, b) => b.count - a.count);
+
+		if (mostFrequent) {
+			assignees.set(componentId, mostFrequent.user);
+		}
+	}
+
+	return assignees;
+}
+
+/**
+ * Plans leads of all lead-less components of a project, nothing is changed in Jira.
+ * Data needed by the sources is fetched only when the source is enabled.
+ * @throws {JiraSchemaError | JiraResponseError | JiraTimeoutError | JiraNetworkError}
+ */
+export async function planLeadAssignments(query: {
+	api: JiraAPI;
+	projectId: string;
+	sources: readonly LeadSource[];
+	mapping?: LeadMapping | undefined;
+	signal?: AbortSignal | undefined;
+}): Promise<LeadAssignmentPlan> {
+	const { api, projectId, sources, mapping = {}, signal } = query;
+
+	const allComponents = await api.getComponents({ projectId, signal });
+	const components = allComponents.filter(({ lead }) => !lead);
+
+	if (components.length === 0) {
+		return { assignments: [], unassigned: [] };
+	}
+
+	const assignees = sources.includes("assignee")
+		? getMostFrequentAssignees(
+				await api.getIssuesByComponents({
+					projectId: projectId,
+					componentIds: components.map(({ id }) => id),
+					extraFields: ["assignee"],
+					signal: signal
+				})
+		  )
+		: new Map<string, JiraUser>();
+
+	const project = sources.includes("project-lead")
+		? await api.getProject({ projectId, signal })
+		: undefined;
+
+	/*
+		Mapped users are looked up, so that typos are caught before anything is changed.
+	*/
+	const findMappedUser = async (
+		component: GetComponentsResponse[number]
+	): Promise<JiraUser | undefined> => {
+		const userId =
+			mapping[projectId]?.[component.name] ?? mapping[projectId]?.[component.id];
+
+		if (userId === undefined) {
+			return undefined;
+		}
+
+		const users = await api.getAssignableUsers({ projectId, userId, signal });
+		return users.find((user) => getJiraUserId(user) === userId);
+	};
+
+	const findLead = async (
+		component: GetComponentsResponse[number],
+		source: LeadSource
+	): Promise<JiraUser | undefined> => {
+		switch (source) {
+			case "mapping": {
+				return findMappedUser(component);
+			}
+			case "assignee": {
+				return assignees.get(component.id);
+			}
+			case "project-lead": {
+				return project?.lead?.active === false ? undefined : project?.lead;
+			}
+			default: {
+				throw new TypeError(`Unknown lead source '${String(source)}'.`);
+			}
+		}
+	};
+
+	const plan: LeadAssignmentPlan = { assignments: [], unassigned: [] };
+
+	const results = await Promise.all(
+		components.map(async (component) => {
+			const { id, name } = component;
+
+			for (const source of sources) {
+				// eslint-disable-next-line no-await-in-loop
+				const lead = await findLead(component, source);
+
+				if (lead) {
+					const assignment: LeadAssignment = {
+						projectId: projectId,
+						component: { id, name },
+						lead: { id: getJiraUserId(lead), displayName: lead.displayName },
+						source: source
+					};
+
+					return assignment;
+				}
+			}
+
+			return { projectId: projectId, component: { id, name } };
+		})
+	);
+
+	for (const result of results) {
+		if ("lead" in result) {
+			plan.assignments.push(result);
+		} else {
+			plan.unassigned.push(result);
+		}
+	}
+
+	return plan;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  APPLYING                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Updates all components at the same time (the concurrency limit of `api` still applies).
+ * Every assignment is tried, and returned either as assigned, or as failed with its error.
+ */
+export async function applyLeadAssignments(query: {
+	api: JiraAPI;
+	assignments: readonly LeadAssignment[];
+	signal?: AbortSignal | undefined;
+}): Promise<LeadAssignmentResult> {
+	const { api, assignments, signal } = query;
+
+	const outcomes = await Promise.allSettled(
+		assignments.map(async ({ component, lead }) => {
+			await api.updateComponentLead({
+				componentId: component.id,
+				userId: lead.id,
+				signal: signal
+			});
+		})
+	);
+
+	const result: LeadAssignmentResult = { assigned: [], failed: [] };
+
+	for (const [index, assignment] of assignments.entries()) {
+		const outcome = outcomes[index];
+
+		if (outcome?.status === "fulfilled") {
+			result.assigned.push(assignment);
+		} else {
+			result.failed.push({ assignment: assignment, error: outcome?.reason });
+		}
+	}
+
+	return result;
+}
@@ -0,0 +1,277 @@
+import type { GetComponentsResponse, JiraAPI } from "./JiraAPI";
+import { getJiraUserId } from "./JiraAPI";
+import type {
+	ComponentFinding,
+	ComponentHealthRule,
+	ComponentHealthRuleContext,
+	ComponentHealthRuleName
+} from "./componentHealthRules";
+import { COMPONENT_HEALTH_RULES, checkComponentHealth } from "./componentHealthRules";
+import type { IssueCountStrategy } from "./countIssues";
+import { countIssuesByComponentId, getIssuesCountByComponentId } from "./countIssues";
+import type {
+	IssueBreakdown,
+	IssueBreakdownLabels,
+	IssueBreakdowns
+} from "./issueBreakdowns";
+import {
+	getIssueBreakdownFields,
+	getIssueBreakdownLabels,
+	getIssueBreakdownsByComponentId
+} from "./issueBreakdowns";
+
+export type AuditedComponent = {
+	id: string;
+	name: string;
+	issues: number;
+	findings: ComponentFinding[];
+
+	/** Set only when some breakdowns were requested. */
+	breakdowns?: IssueBreakdowns;
+
+	/** Set only when some requested breakdowns have labels (like `status-category`). */
+	breakdownLabels?: IssueBreakdownLabels;
+};
+
+/**
+ * Component of an audited project, whether it was reported or not.
+ */
+export type ScannedComponent = { id: string; name: string; hasLead: boolean };
+
+export type AuditedProject = {
+	projectId: string;
+	components: AuditedComponent[];
+
+	/** All components of the project (the audit reports only some of them), like for snapshots. */
+	scannedComponents: ScannedComponent[];
+};
+
+type AuditComponentsQuery = {
+	api: JiraAPI;
+	projectId: string;
+	rules: readonly ComponentHealthRuleName[];
+	breakdowns?: readonly IssueBreakdown[];
+	issueCount?: IssueCountStrategy;
+	now?: number;
+	signal?: AbortSignal | undefined;
+};
+
+/**
+ * Audits components of a project, and returns all of them too (they are fetched anyway).
+ */
+async function auditProjectComponents(
+	query: AuditComponentsQuery
+): Promise<Omit<AuditedProject, "projectId">> {
+	const {
+		api,
+		projectId,
+		rules,
+		breakdowns = [],
+		issueCount = "full-scan",
+		now,
+		signal
+	} = query;
+
+	const requirements = new Set(
+		rules.flatMap((rule) => {
+			const { requires } = COMPONENT_HEALTH_RULES[rule] as ComponentHealthRule;
+			return requires;
+		})
+	);
+
+	const components = await api.getComponents({ projectId, signal });
+
+	const scannedComponents = components.map(({ id, name, lead }) => {
+		return { id: id, name: name, hasLead: Boolean(lead) };
+	});
+
+	const isProjectMemberByUserId = new Map<string, boolean>();
+
+	if (requirements.has("projectMembers")) {
+		const leadUserIds = new Set(
+			components.flatMap((component) =>
+				component.lead ? [getJiraUserId(component.lead)] : []
+			)
+		);
+
+		await Promise.all(
+			[...leadUserIds].map(async (userId) => {
+				const users = await api.getAssignableUsers({ projectId, userId, signal });
+				isProjectMemberByUserId.set(
+					userId,
+					users.some((user) => getJiraUserId(user) === userId)
+				);
+			})
+		);
+	}
+
+	const createRuleContext = (
+		component: GetComponentsResponse[number],
+		issues: number | undefined
+	): ComponentHealthRuleContext => {
+		return {
+			component: component,
+			issues: issues,
+			isLeadProjectMember: component.lead
+				? isProjectMemberByUserId.get(getJiraUserId(component.lead))
+				: undefined
+		};
+	};
+
+	const flaggedComponents = requirements.has("issues")
+		? components
+		: components.filter((component) => {
+				return (
+					checkComponentHealth(createRuleContext(component, undefined), rules).length > 0
+				);
+		  });
+
+	if (flaggedComponents.length === 0) {
+		return { components: [], scannedComponents: scannedComponents };
+	}
+
+	const componentIds = flaggedComponents.map((component) => component.id);
+
+	const issues =
+		breakdowns.length > 0
+			? await api.getIssuesByComponents({
+					projectId: projectId,
+					componentIds: componentIds,
+					extraFields: getIssueBreakdownFields(breakdowns),
+					signal: signal
+			  })
+			: undefined;
+
+	const issuesCountByComponentId = issues
+		? getIssuesCountByComponentId(issues)
+		: await countIssuesByComponentId({
+				api: api,
+				projectId: projectId,
+				componentIds: componentIds,
+				strategy: issueCount,
+				signal: signal
+		  });
+
+	const breakdownsByComponentId = getIssueBreakdownsByComponentId({
+		issues: issues ?? [],
+		breakdowns: breakdowns,
+		now: now
+	});
+
+	const breakdownLabels = getIssueBreakdownLabels({
+		issues: issues ?? [],
+		breakdowns: breakdowns
+	});
+
+	const emptyBreakdowns: IssueBreakdowns = Object.fromEntries(
+		breakdowns.map((breakdown) => [breakdown, {}])
+	);
+
+	const auditedComponents = flaggedComponents
+		.map((component) => {
+			const issuesCount = issuesCountByComponentId.get(component.id) ?? 0;
+
+			return {
+				id: component.id,
+				name: component.name,
+				issues: issuesCount,
+				findings: checkComponentHealth(createRuleContext(component, issuesCount), rules),
+				...(breakdowns.length > 0
+					? { breakdowns: breakdownsByComponentId.get(component.id) ?? emptyBreakdowns }
+					: {}),
+				...(Object.keys(breakdownLabels).length > 0 ? { breakdownLabels } : {})
+			};
+		})
+		.filter((component) => component.findings.length > 0);
+
+	return { components: auditedComponents, scannedComponents: scannedComponents };
+}
+
+/**
+ * Checks components of a project against health rules, and returns only these with findings.
+ * Issues are counted only for flagged components, unless some rule (like `no-issues`) needs them.
+ * Breakdowns need every issue, so they always come from a full scan (extended with the fields
+ * they need), which is then used for counting too, whatever `issueCount` is.
+ * Aborting `signal` cancels all requests of the audit.
+ */
+export async function auditJiraComponents(
+	query: AuditComponentsQuery
+): Promise<AuditedComponent[]> {
+	const { components } = await auditProjectComponents(query);
+	return components;
+}
+
+export async function getJiraComponentsWithoutLead(query: {
+	api: JiraAPI;
+	projectId: string;
+	breakdowns?: readonly IssueBreakdown[];
+	issueCount?: IssueCountStrategy;
+	signal?: AbortSignal | undefined;
+}): Promise<
+	{
+		id: string;
+		name: string;
+		issues: number;
+		breakdowns?: IssueBreakdowns;
+		breakdownLabels?: IssueBreakdownLabels;
+	}[]
+> {
+	const { api, projectId, breakdowns, issueCount, signal } = query;
+
+	const components = await auditJiraComponents({
+		api: api,
+		projectId: projectId,
+		rules: ["missing-lead"],
+		breakdowns: breakdowns,
+		issueCount: issueCount,
+		signal: signal
+	});
+
+	return components.map((component) => {
+		const {
+			id,
+			name,
+			issues,
+			breakdowns: componentBreakdowns,
+			breakdownLabels
+		} = component;
+
+		return {
+			id,
+			name,
+			issues,
+			...(componentBreakdowns ? { breakdowns: componentBreakdowns } : {}),
+			...(breakdownLabels ? { breakdownLabels } : {})
+		};
+	});
+}
+
+/**
+ * Audits all projects at the same time, `api` is shared, so they share its concurrency limit too.
+ * Every project has all its components too (see `takeSnapshot`), so they aren't fetched again.
+ */
+export async function auditJiraProjects(query: {
+	api: JiraAPI;
+	projectIds: string[];
+	rules: readonly ComponentHealthRuleName[];
+	breakdowns?: readonly IssueBreakdown[];
+	issueCount?: IssueCountStrategy;
+	signal?: AbortSignal | undefined;
+}): Promise<AuditedProject[]> {
+	const { api, projectIds, rules, breakdowns, issueCount, signal } = query;
+
+	return Promise.all(
+		projectIds.map(async (projectId) => {
+			const { components, scannedComponents } = await auditProjectComponents({
+				api,
+				projectId,
+				rules,
+				breakdowns,
+				issueCount,
+				signal
+			});
+
+			return { projectId, components, scannedComponents };
+		})
+	);
+}
@@ -0,0 +1,190 @@
+import { describe, expect, it } from "@jest/globals";
+import { checkThresholds, countOpenIssues, renderCheckResult } from "./checkThresholds";
+import type { Report } from "./renderReport";
+
+describe("checkThresholds", () => {
+	const report: Report = {
+		baseUrl: "https://xxx.atlassian.net",
+		projects: [
+			{
+				projectId: "XYZ",
+				components: [
+					{
+						id: "10130",
+						name: "Backend",
+						issues: 12,
+						breakdowns: { "status-category": { new: 4, done: 8 } }
+					},
+					{
+						id: "10131",
+						name: "<Templates>",
+						issues: 5,
+						breakdowns: { "status-category": { indeterminate: 5 } }
+					}
+				]
+			},
+			{ projectId: "ABC", components: [] }
+		],
+		breakdowns: ["status-category"]
+	};
+
+	it("should fail on any reported component without thresholds", () => {
+		const result = checkThresholds({ report: report, thresholds: {} });
+
+		expect(result.passed).toBe(false);
+		expect(result.thresholds).toStrictEqual({
+			maxComponents: 0,
+			maxOpenIssues: undefined
+		});
+		expect(result.violations).toStrictEqual([
+			"2 component(s) without a project lead, more than 0 allowed."
+		]);
+		expect(result.components.map(({ violations }) => violations)).toStrictEqual([
+			["One of 2 component(s) without a project lead, more than 0 allowed."],
+			["One of 2 component(s) without a project lead, more than 0 allowed."]
+		]);
+	});
+
+	it("should fail only components with too many open issues", () => {
+		const result = checkThresholds({ report: report, thresholds: { maxOpenIssues: 4 } });
+
+		expect(result.passed).toBe(false);
+		expect(result.violations).toStrictEqual([
+			"1 component(s) without a project lead with more than 4 open issue(s)."
+		]);
+		expect(result.components.map(({ violations }) => violations)).toStrictEqual([
+			[],
+			["Has 5 open issue(s), more than 4 allowed."]
+		]);
+	});
+
+	it("should count open issues by status category keys, whatever their localized names", () => {
+		const component = {
+			id: "10132",
+			name: "Frontend",
+			issues: 7,
+			breakdowns: { "status-category": { new: 2, done: 5 } },
+			breakdownLabels: { "status-category": { new: "Zu erledigen", done: "Erledigt" } }
+		};
+
+		expect(countOpenIssues(component)).toBe(2);
+		expect(
+			checkThresholds({
+				report: { ...report, projects: [{ projectId: "XYZ", components: [component] }] },
+				thresholds: { maxOpenIssues: 2 }
+			}).passed
+		).toBe(true);
+	});
+
+	it("should pass when components are within thresholds", () => {
+		const result = checkThresholds({
+			report: report,
+			thresholds: { maxComponents: 2, maxOpenIssues: 5 }
+		});
+
+		expect(result.passed).toBe(true);
+		expect(result.violations).toStrictEqual([]);
+	});
+
+	describe("renderCheckResult", () => {
+		const result = checkThresholds({
+			report: report,
+			thresholds: { maxComponents: 5, maxOpenIssues: 4 }
+		});
+
+		it("should render the report with a summary", () => {
+			const text = renderCheckResult({ result: result, format: "text" });
+
+			expect(text).toContain("Project XYZ:");
+			expect(text.split("\n").slice(-2)).toStrictEqual([
+				"Check failed (max 5 component(s), max 4 open issue(s)):",
+				"  • 1 component(s) without a project lead with more than 4 open issue(s)."
+			]);
+		});
+
+		it("should render versioned JSON", () => {
+			expect(
+				JSON.parse(renderCheckResult({ result: result, format: "json" }))
+			).toMatchObject({
+				schemaVersion: 1,
+				passed: false,
+				thresholds: { maxComponents: 5, maxOpenIssues: 4 },
+				failedComponents: [
+					{
+						projectId: "XYZ",
+						id: "10131",
+						name: "<Templates>",
+						violations: ["Has 5 open issue(s), more than 4 allowed."]
+					}
+				],
+				report: { schemaVersion: 3, baseUrl: report.baseUrl }
+			});
+		});
+
+		it("should render JUnit XML with a test case per component", () => {
+			expect(renderCheckResult({ result: result, format: "junit" })).toBe(
+				[
+					'<?xml version="1.0" encoding="UTF-8"?>',
+					'<testsuites name="Jira components" tests="2" failures="1">',
+					'  <testsuite name="XYZ" tests="2" failures="1">',
+					'    <testcase classname="XYZ" name="[ID: 10130] Backend"><system-out>Component has no lead.',
+					"12 issue(s), 4 open.",
+					"https://xxx.atlassian.net/browse/XYZ/component/10130</system-out></testcase>",
+					'    <testcase classname="XYZ" name="[ID: 10131] &lt;Templates&gt;"><failure message="Has 5 open issue(s), more than 4 allowed." type="threshold">Has 5 open issue(s), more than 4 allowed.',
+					"Component has no lead.",
+					"5 issue(s), 5 open.",
+					"https://xxx.atlassian.net/browse/XYZ/component/10131</failure></testcase>",
+					"  </testsuite>",
+					'  <testsuite name="ABC" tests="0" failures="0">',
+					"  </testsuite>",
+					"</testsuites>"
+				].join("\n")
+			);
+		});
+
+		it("should render SARIF with errors only for components exceeding thresholds", () => {
+			const sarif = JSON.parse(renderCheckResult({ result: result, format: "sarif" }));
+
+			expect(sarif).toMatchObject({
+				version: "2.1.0",
+				runs: [
+					{
+						tool: {
+							driver: {
+								name: "jira-api-script-node-js",
+								rules: [{ id: "missing-lead" }]
+							}
+						},
+						results: [
+							{
+								ruleId: "missing-lead",
+								level: "warning",
+								message: { text: "Component has no lead. [ID: 10130] Backend" }
+							},
+							{
+								ruleId: "missing-lead",
+								level: "error",
+								message: {
+									text: "Component has no lead. [ID: 10131] <Templates> Has 5 open issue(s), more than 4 allowed."
+								},
+								locations: [
+									{
+										physicalLocation: {
+											artifactLocation: {
+												uri: "https://xxx.atlassian.net/browse/XYZ/component/10131"
+											}
+										},
+										logicalLocations: [
+											{ name: "<Templates>", fullyQualifiedName: "XYZ/<Templates>" }
+										]
+									}
+								],
+								properties: { issues: 5, openIssues: 5 }
+							}
+						]
+					}
+				]
+			});
+		});
+	});
+});
@@ -0,0 +1,400 @@
+import chalk from "chalk";
+import type { ComponentFinding, FindingSeverity } from "./componentHealthRules";
+import {
+	COMPONENT_HEALTH_RULES,
+	DEFAULT_COMPONENT_HEALTH_RULES
+} from "./componentHealthRules";
+import type { JsonReport, Report, ReportComponent } from "./renderReport";
+import { getComponentUrl, renderReport } from "./renderReport";
+
+/* -------------------------------------------------------------------------- */
+/*                                    TYPES                                   */
+/* -------------------------------------------------------------------------- */
+
+export const CHECK_FORMATS = ["text", "json", "junit", "sarif"] as const;
+
+export type CheckFormat = (typeof CHECK_FORMATS)[number];
+
+/**
+ * Limits of a check, reported components within them don't fail it.
+ */
+export type CheckThresholds = {
+	/** Max number of reported components (without a lead, or violating the rules). */
+	maxComponents?: number | undefined;
+
+	/**
+	 * Max number of open issues (not in the `done` status category, whatever its localized name)
+	 * of a single reported component, counted from the `status-category` breakdown (all issues
+	 * are counted without it).
+	 */
+	maxOpenIssues?: number | undefined;
+};
+
+export type CheckedComponent = {
+	projectId: string;
+	component: ReportComponent;
+
+	/** Thresholds exceeded by the component, empty when it is within them. */
+	violations: string[];
+};
+
+export type CheckResult = {
+	report: Report;
+	thresholds: CheckThresholds;
+	passed: boolean;
+
+	/** Exceeded thresholds, empty when the check passed. */
+	violations: string[];
+
+	/** Every reported component. */
+	components: CheckedComponent[];
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                    CHECK                                   */
+/* -------------------------------------------------------------------------- */
+
+function getProblem(report: Report): string {
+	return report.rules ? "violating the rules" : "without a project lead";
+}
+
+/**
+ * Returns number of issues of a component, which are not done yet.
+ */
+export function countOpenIssues(component: ReportComponent): number {
+	const statusCategories = component.breakdowns?.["status-category"];
+	return component.issues - (statusCategories?.done ?? 0);
+}
+
+/**
+ * Checks reported components against thresholds. Without any threshold,
+ * a single reported component fails the check (like `maxComponents` of `0`).
+ */
+export function checkThresholds(opts: {
+	report: Report;
+	thresholds: CheckThresholds;
+}): CheckResult {
+	const { report, thresholds } = opts;
+	const { maxOpenIssues } = thresholds;
+	const { maxComponents = maxOpenIssues === undefined ? 0 : undefined } = thresholds;
+
+	const problem = getProblem(report);
+	const reportedComponents = report.projects.flatMap(({ projectId, components }) => {
+		return components.map((component) => ({ projectId, component }));
+	});
+	const count = reportedComponents.length;
+	const isCountExceeded = maxComponents !== undefined && count > maxComponents;
+
+	const components = reportedComponents.map(({ projectId, component }) => {
+		const violations: string[] = [];
+		const openIssues = countOpenIssues(component);
+
+		if (isCountExceeded) {
+			violations.push(
+				`One of ${count} component(s) ${problem}, more than ${maxComponents} allowed.`
+			);
+		}
+
+		if (maxOpenIssues !== undefined && openIssues > maxOpenIssues) {
+			violations.push(
+				`Has ${openIssues} open issue(s), more than ${maxOpenIssues} allowed.`
+			);
+		}
+
+		return { projectId, component, violations };
+	});
+
+	const violations: string[] = [];
+
+	if (isCountExceeded) {
+		violations.push(
+			`${count} component(s) ${problem}, more than ${maxComponents} allowed.`
+		);
+	}
+
+	const busyCount = components.filter(({ component }) => {
+		return maxOpenIssues !== undefined && countOpenIssues(component) > maxOpenIssues;
+	}).length;
+
+	if (busyCount > 0) {
+		violations.push(
+			`${busyCount} component(s) ${problem} with more than ${String(
+				maxOpenIssues
+			)} open issue(s).`
+		);
+	}
+
+	return {
+		report: report,
+		thresholds: { maxComponents, maxOpenIssues },
+		passed: violations.length === 0,
+		violations: violations,
+		components: components
+	};
+}
+
+export function isCheckFormat(name: string): name is CheckFormat {
+	return (CHECK_FORMATS as readonly string[]).includes(name);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  RENDERERS                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Findings of a component, a report without rules lists just components without a lead.
+ */
+function getFindings(report: Report, component: ReportComponent): ComponentFinding[] {
+	if (report.rules) {
+		return component.findings ?? [];
+	}
+
+	return DEFAULT_COMPONENT_HEALTH_RULES.map((rule) => {
+		const { severity, description } = COMPONENT_HEALTH_RULES[rule];
+		return { rule: rule, severity: severity, message: description };
+	});
+}
+
+function describeThresholds(thresholds: CheckThresholds): string {
+	const { maxComponents, maxOpenIssues } = thresholds;
+
+	return [
+		...(maxComponents === undefined ? [] : [`max ${maxComponents} component(s)`]),
+		...(maxOpenIssues === undefined ? [] : [`max ${maxOpenIssues} open issue(s)`])
+	].join(", ");
+}
+
+function renderText(result: CheckResult, colors: boolean): string {
+	const { report, thresholds, passed, violations, components } = result;
+	const c = new chalk.Instance({ level: colors ? chalk.level : 0 });
+
+	const summary = passed
+		? c.green.bold(
+				`Check passed: ${components.length} component(s) ${getProblem(
+					report
+				)}, within thresholds (${describeThresholds(thresholds)}).`
+		  )
+		: c.red.bold(`Check failed (${describeThresholds(thresholds)}):`);
+
+	return [
+		renderReport({ report: report, format: "text", colors: colors }),
+		"",
+		summary,
+		...violations.map((violation) => c.red(`  • ${violation}`))
+	].join("\n");
+}
+
+/**
+ * Schema of the `json` format of a check, `schemaVersion` is bumped on every breaking change.
+ */
+export type JsonCheckResult = {
+	schemaVersion: 1;
+	passed: boolean;
+	thresholds: CheckThresholds;
+	violations: string[];
+
+	/** Reported components, which exceeded some thresholds. */
+	failedComponents: {
+		projectId: string;
+		id: string;
+		name: string;
+		violations: string[];
+	}[];
+
+	report: JsonReport;
+};
+
+function renderJson(result: CheckResult): string {
+	const { report, thresholds, passed, violations, components } = result;
+
+	const json: JsonCheckResult = {
+		schemaVersion: 1,
+		passed: passed,
+		thresholds: thresholds,
+		violations: violations,
+		failedComponents: components
+			.filter((checked) => checked.violations.length > 0)
+			.map(({ projectId, component, ...checked }) => {
+				return {
+					projectId: projectId,
+					id: component.id,
+					name: component.name,
+					violations: checked.violations
+				};
+			}),
+		report: JSON.parse(renderReport({ report: report, format: "json" })) as JsonReport
+	};
+
+	return JSON.stringify(json, null, 2);
+}
+
+function escapeXml(value: string | number): string {
+	return String(value)
+		.replaceAll("&", "&amp;")
+		.replaceAll("<", "&lt;")
+		.replaceAll(">", "&gt;")
+		.replaceAll('"', "&quot;")
+		.replaceAll("'", "&apos;");
+}
+
+/**
+ * JUnit XML, every project is a test suite, and every reported component is a test case,
+ * which fails when the component exceeds some thresholds.
+ */
+function renderJunit(result: CheckResult): string {
+	const { report, components } = result;
+
+	const renderTestCase = ({ projectId, component, violations }: CheckedComponent) => {
+		const { id, name, issues } = component;
+		const details = [
+			...getFindings(report, component).map(({ message }) => message),
+			`${issues} issue(s), ${countOpenIssues(component)} open.`,
+			getComponentUrl(report.baseUrl, projectId, id)
+		];
+		const attributes = `classname="${escapeXml(projectId)}" name="${escapeXml(
+			`[ID: ${id}] ${name}`
+		)}"`;
+
+		const [firstViolation] = violations;
+		const body = firstViolation
+			? `<failure message="${escapeXml(firstViolation)}" type="threshold">${escapeXml(
+					[...violations, ...details].join("\n")
+			  )}</failure>`
+			: `<system-out>${escapeXml(details.join("\n"))}</system-out>`;
+
+		return `    <testcase ${attributes}>${body}</testcase>`;
+	};
+
+	const failures = components.filter(({ violations }) => violations.length > 0).length;
+
+	return [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		`<testsuites name="Jira components" tests="${components.length}" failures="${failures}">`,
+		...report.projects.flatMap(({ projectId }) => {
+			const projectComponents = components.filter((checked) => {
+				return checked.projectId === projectId;
+			});
+			const projectFailures = projectComponents.filter(({ violations }) => {
+				return violations.length > 0;
+			}).length;
+
+			return [
+				`  <testsuite name="${escapeXml(projectId)}" tests="${
+					projectComponents.length
+				}" failures="${projectFailures}">`,
+				...projectComponents.map((checked) => renderTestCase(checked)),
+				"  </testsuite>"
+			];
+		}),
+		"</testsuites>"
+	].join("\n");
+}
+
+/**
+ * Findings within thresholds are at most warnings, they don't fail the check.
+ */
+const SARIF_LEVELS: Record<FindingSeverity, "error" | "warning" | "note"> = {
+	error: "warning",
+	warning: "warning",
+	info: "note"
+};
+
+/**
+ * SARIF 2.1.0 log, with a result for every finding of every reported component.
+ * Only findings of components, which exceed some thresholds, are errors. Components are
+ * not files, so their location is a link to Jira (and a logical `project/component` one).
+ */
+function renderSarif(result: CheckResult): string {
+	const { report, components } = result;
+	const rules = report.rules ?? DEFAULT_COMPONENT_HEALTH_RULES;
+
+	const sarif = {
+		$schema: "https://json.schemastore.org/sarif-2.1.0.json",
+		version: "2.1.0",
+		runs: [
+			{
+				tool: {
+					driver: {
+						name: "jira-api-script-node-js",
+						rules: rules.map((rule) => {
+							const { severity, description } = COMPONENT_HEALTH_RULES[rule];
+
+							return {
+								id: rule,
+								shortDescription: { text: description },
+								defaultConfiguration: { level: SARIF_LEVELS[severity] }
+							};
+						})
+					}
+				},
+				results: components.flatMap(({ projectId, component, violations }) => {
+					const { id, name, issues } = component;
+
+					return getFindings(report, component).map(({ rule, severity, message }) => {
+						return {
+							ruleId: rule,
+							level: violations.length > 0 ? "error" : SARIF_LEVELS[severity],
+							message: {
+								text: [`${message} [ID: ${id}] ${name}`, ...violations].join(" ")
+							},
+							locations: [
+								{
+									physicalLocation: {
+										artifactLocation: {
+											uri: getComponentUrl(report.baseUrl, projectId, id)
+										}
+									},
+									logicalLocations: [
+										{
+											name: name,
+											fullyQualifiedName: `${projectId}/${name}`,
+											kind: "module"
+										}
+									]
+								}
+							],
+							partialFingerprints: { component: `${projectId}/${id}` },
+							properties: {
+								projectId: projectId,
+								componentId: id,
+								issues: issues,
+								openIssues: countOpenIssues(component)
+							}
+						};
+					});
+				})
+			}
+		]
+	};
+
+	return JSON.stringify(sarif, null, 2);
+}
+
+/**
+ * Renders result of a check, only `text` format is (optionally) colored.
+ */
+export function renderCheckResult(opts: {
+	result: CheckResult;
+	format: CheckFormat;
+	colors?: boolean;
+}): string {
+	const { result, format, colors = false } = opts;
+
+	switch (format) {
+		case "text": {
+			return renderText(result, colors);
+		}
+		case "json": {
+			return renderJson(result);
+		}
+		case "junit": {
+			return renderJunit(result);
+		}
+		case "sarif": {
+			return renderSarif(result);
+		}
+		default: {
+			throw new TypeError(`Unknown check format '${String(format)}'.`);
+		}
+	}
+}
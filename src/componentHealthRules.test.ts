@@ -0,0 +1,110 @@
+import { describe, expect, it } from "@jest/globals";
+import type { ComponentHealthRuleContext, FindingSeverity } from "./componentHealthRules";
+import {
+	COMPONENT_HEALTH_RULE_NAMES,
+	checkComponentHealth,
+	compareFindingSeverity,
+	isComponentHealthRuleName
+} from "./componentHealthRules";
+
+const HEALTHY_CONTEXT: ComponentHealthRuleContext = {
+	component: {
+		id: "1",
+		name: "Backend",
+		description: "All the backend services.",
+		assigneeType: "COMPONENT_LEAD",
+		lead: { accountId: "abc", displayName: "John Doe", active: true }
+	},
+	issues: 5,
+	isLeadProjectMember: true
+};
+
+describe("checkComponentHealth", () => {
+	it("should not report any findings for a healthy component", () => {
+		expect(
+			checkComponentHealth(HEALTHY_CONTEXT, COMPONENT_HEALTH_RULE_NAMES)
+		).toStrictEqual([]);
+	});
+
+	it("should report a missing lead", () => {
+		const ctx = {
+			...HEALTHY_CONTEXT,
+			component: { ...HEALTHY_CONTEXT.component, lead: undefined },
+			isLeadProjectMember: undefined
+		};
+
+		expect(checkComponentHealth(ctx, COMPONENT_HEALTH_RULE_NAMES)).toStrictEqual([
+			{ rule: "missing-lead", severity: "error", message: "Component has no lead." }
+		]);
+	});
+
+	it("should report an inactive lead, that is not a project member", () => {
+		const ctx = {
+			...HEALTHY_CONTEXT,
+			component: {
+				...HEALTHY_CONTEXT.component,
+				lead: { accountId: "abc", displayName: "John Doe", active: false }
+			},
+			isLeadProjectMember: false
+		};
+
+		expect(
+			checkComponentHealth(ctx, COMPONENT_HEALTH_RULE_NAMES).map(({ rule }) => rule)
+		).toStrictEqual(["inactive-lead", "lead-not-project-member"]);
+	});
+
+	it("should report missing metadata and components without issues", () => {
+		const ctx = {
+			...HEALTHY_CONTEXT,
+			component: {
+				...HEALTHY_CONTEXT.component,
+				description: " ",
+				assigneeType: "PROJECT_DEFAULT"
+			},
+			issues: 0
+		};
+
+		expect(checkComponentHealth(ctx, COMPONENT_HEALTH_RULE_NAMES)).toStrictEqual([
+			{
+				rule: "missing-assignee-type",
+				severity: "warning",
+				message: "Component default assignee is not set."
+			},
+			{
+				rule: "missing-description",
+				severity: "info",
+				message: "Component has no description."
+			},
+			{ rule: "no-issues", severity: "info", message: "Component has no issues." }
+		]);
+	});
+
+	it("should check only enabled rules", () => {
+		const ctx = { ...HEALTHY_CONTEXT, issues: 0 };
+
+		expect(checkComponentHealth(ctx, ["missing-lead"])).toStrictEqual([]);
+		expect(
+			checkComponentHealth({ ...ctx, issues: undefined }, ["no-issues"])
+		).toStrictEqual([]);
+	});
+});
+
+describe("isComponentHealthRuleName", () => {
+	it("should recognize only known rules", () => {
+		expect(isComponentHealthRuleName("missing-lead")).toBe(true);
+		expect(isComponentHealthRuleName("toString")).toBe(false);
+		expect(isComponentHealthRuleName("xyz")).toBe(false);
+	});
+});
+
+describe("compareFindingSeverity", () => {
+	it("should sort findings from the most severe", () => {
+		const severities: FindingSeverity[] = ["info", "error", "warning"];
+
+		expect(severities.sort(compareFindingSeverity)).toStrictEqual([
+			"error",
+			"warning",
+			"info"
+		]);
+	});
+});
@@ -0,0 +1,150 @@
+import type { GetComponentsResponse } from "./JiraAPI";
+
+/* -------------------------------------------------------------------------- */
+/*                                    TYPES                                   */
+/* -------------------------------------------------------------------------- */
+
+export const FINDING_SEVERITIES = ["error", "warning", "info"] as const;
+
+export type FindingSeverity = (typeof FINDING_SEVERITIES)[number];
+
+export type ComponentFinding = {
+	rule: ComponentHealthRuleName;
+	severity: FindingSeverity;
+	message: string;
+};
+
+export type ComponentHealthRuleContext = {
+	component: GetComponentsResponse[number];
+
+	/**
+	 * Number of the component's issues, `undefined` when not counted (yet).
+	 */
+	issues: number | undefined;
+
+	/**
+	 * Tells if the component lead can be assigned to issues of the project,
+	 * `undefined` when not checked (or when there is no lead).
+	 */
+	isLeadProjectMember: boolean | undefined;
+};
+
+export type ComponentHealthRule = {
+	severity: FindingSeverity;
+	description: string;
+
+	/**
+	 * Data that has to be fetched before the rule can be checked.
+	 */
+	requires: ("issues" | "projectMembers")[];
+
+	/**
+	 * Returns a message describing the problem, or `undefined` if component is healthy.
+	 */
+	check: (ctx: ComponentHealthRuleContext) => string | undefined;
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                    RULES                                   */
+/* -------------------------------------------------------------------------- */
+
+export const COMPONENT_HEALTH_RULES = {
+	"missing-lead": {
+		severity: "error",
+		description: "Component has no lead.",
+		requires: [],
+		check: ({ component }) => {
+			return component.lead ? undefined : "Component has no lead.";
+		}
+	},
+	"inactive-lead": {
+		severity: "error",
+		description: "Component lead account is deactivated.",
+		requires: [],
+		check: ({ component }) => {
+			const { lead } = component;
+			return lead?.active === false
+				? `Component lead '${lead.displayName}' is deactivated.`
+				: undefined;
+		}
+	},
+	"lead-not-project-member": {
+		severity: "warning",
+		description: "Component lead can't be assigned to issues of the project.",
+		requires: ["projectMembers"],
+		check: ({ component, isLeadProjectMember }) => {
+			const { lead } = component;
+			return lead && isLeadProjectMember === false
+				? `Component lead '${lead.displayName}' is not a member of the project.`
+				: undefined;
+		}
+	},
+	"missing-assignee-type": {
+		severity: "warning",
+		description: "Component default assignee is not set (left to the project default).",
+		requires: [],
+		check: ({ component }) => {
+			const { assigneeType } = component;
+			return !assigneeType || assigneeType === "PROJECT_DEFAULT"
+				? "Component default assignee is not set."
+				: undefined;
+		}
+	},
+	"missing-description": {
+		severity: "info",
+		description: "Component has no description.",
+		requires: [],
+		check: ({ component }) => {
+			return component.description?.trim() ? undefined : "Component has no description.";
+		}
+	},
+	"no-issues": {
+		severity: "info",
+		description: "Component has no issues.",
+		requires: ["issues"],
+		check: ({ issues }) => {
+			return issues === 0 ? "Component has no issues." : undefined;
+		}
+	}
+} satisfies Record<string, ComponentHealthRule>;
+
+export type ComponentHealthRuleName = keyof typeof COMPONENT_HEALTH_RULES;
+
+export const COMPONENT_HEALTH_RULE_NAMES = Object.keys(
+	COMPONENT_HEALTH_RULES
+) as ComponentHealthRuleName[];
+
+/**
+ * The original (and the only one before rules were introduced) check.
+ */
+export const DEFAULT_COMPONENT_HEALTH_RULES: ComponentHealthRuleName[] = ["missing-lead"];
+
+/* -------------------------------------------------------------------------- */
+/*                                   HELPERS                                  */
+/* -------------------------------------------------------------------------- */
+
+export function checkComponentHealth(
+	ctx: ComponentHealthRuleContext,
+	rules: readonly ComponentHealthRuleName[]
+): ComponentFinding[] {
+	const findings: ComponentFinding[] = [];
+
+	for (const rule of rules) {
+		const { severity, check } = COMPONENT_HEALTH_RULES[rule] as ComponentHealthRule;
+		const message = check(ctx);
+
+		if (message !== undefined) {
+			findings.push({ rule, severity, message });
+		}
+	}
+
+	return findings;
+}
+
+export function isComponentHealthRuleName(name: string): name is ComponentHealthRuleName {
+	return Object.hasOwn(COMPONENT_HEALTH_RULES, name);
+}
+
+export function compareFindingSeverity(a: FindingSeverity, b: FindingSeverity): number {
+	return FINDING_SEVERITIES.indexOf(a) - FINDING_SEVERITIES.indexOf(b);
+}
@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it } from "@jest/globals";
+import fetchMock from "fetch-mock";
+import type { JiraIssue } from "./JiraAPI";
+import { JiraAPI } from "./JiraAPI";
+import ExampleGetIssuesByComponentsResponse from "./__fixtures__/GetIssuesByComponentsResponse.json";
+import { countIssuesByComponentId, getIssuesCountByComponentId } from "./countIssues";
+
+describe("countIssues", () => {
+	const baseUrl = "https://xxx.atlassian.net";
+	const projectId = "XYZ";
+
+	afterEach(() => {
+		fetchMock.restore();
+	});
+
+	describe("getIssuesCountByComponentId", () => {
+		it("should count issues with several components for each of them", () => {
+			const issues: JiraIssue[] = [
+				{ id: "1", fields: { components: [{ id: "a", name: "A" }] } },
+				{
+					id: "2",
+					fields: {
+						components: [
+							{ id: "a", name: "A" },
+							{ id: "b", name: "B" }
+						]
+					}
+				},
+				{ id: "3", fields: { components: [] } }
+			];
+
+			expect(getIssuesCountByComponentId(issues)).toStrictEqual(
+				new Map([
+					["a", 2],
+					["b", 1]
+				])
+			);
+		});
+	});
+
+	describe("countIssuesByComponentId", () => {
+		it("should count fetched issues with the full-scan strategy", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(`begin:${baseUrl}/rest/api/3/search/jql?`, {
+				status: 200,
+				body: { issues: ExampleGetIssuesByComponentsResponse.issues, isLast: true }
+			});
+
+			const api = new JiraAPI({ baseUrl });
+
+			const counts = await countIssuesByComponentId({
+				api: api,
+				projectId: projectId,
+				componentIds: ["10130", "10128"],
+				strategy: "full-scan"
+			});
+
+			expect(counts.get("10130")).toBeGreaterThan(0);
+			expect(
+				fetchMock.called(`begin:${baseUrl}/rest/api/3/search/approximate-count`)
+			).toBe(false);
+		});
+
+		it("should ask for a count of every component with the fast strategy", async () => {
+			expect.hasAssertions();
+
+			for (const componentId of ["1", "10"]) {
+				fetchMock.mock(
+					{
+						name: componentId,
+						url: `${baseUrl}/rest/api/3/search/approximate-count`,
+						method: "POST",
+						body: { jql: `project = XYZ AND component = ${componentId}` }
+					},
+					{ status: 200, body: { count: Number(componentId) } }
+				);
+			}
+
+			const api = new JiraAPI({ baseUrl });
+
+			await expect(
+				countIssuesByComponentId({
+					api: api,
+					projectId: projectId,
+					componentIds: ["1", "10"],
+					strategy: "fast"
+				})
+			).resolves.toStrictEqual(
+				new Map([
+					["1", 1],
+					["10", 10]
+				])
+			);
+			expect(fetchMock.called(`begin:${baseUrl}/rest/api/3/search/jql`)).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,80 @@
+import type {
+	JiraAPI,
+	JiraIssue,
+	JiraNetworkError,
+	JiraResponseError,
+	JiraSchemaError,
+	JiraTimeoutError
+} from "./JiraAPI";
+
+/* -------------------------------------------------------------------------- */
+/*                                    TYPES                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Ways of counting issues of components:
+ * - `full-scan` - every issue is fetched (page by page) and counted for each of its components,
+ * - `fast` - Jira counts issues of every component, with a single request per component
+ *   (approximate on Cloud, see `JiraAPI.countIssuesByComponent`).
+ */
+export const ISSUE_COUNT_STRATEGIES = ["full-scan", "fast"] as const;
+
+export type IssueCountStrategy = (typeof ISSUE_COUNT_STRATEGIES)[number];
+
+/* -------------------------------------------------------------------------- */
+/*                                  COUNTING                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Issues with several components count for each of them.
+ */
+export function getIssuesCountByComponentId(
+	issues: readonly JiraIssue[]
+): Map<string, number> {
+	const issuesCountByComponentId = new Map<string, number>();
+
+	for (const issue of issues) {
+		for (const component of issue.fields.components) {
+			issuesCountByComponentId.set(
+				component.id,
+				(issuesCountByComponentId.get(component.id) ?? 0) + 1
+			);
+		}
+	}
+
+	return issuesCountByComponentId;
+}
+
+/**
+ * Returns number of issues of every given component. With the `fast` strategy
+ * all components are counted at the same time (the concurrency limit of `api` still applies).
+ * @throws {JiraSchemaError | JiraResponseError | JiraTimeoutError | JiraNetworkError}
+ */
+export async function countIssuesByComponentId(query: {
+	api: JiraAPI;
+	projectId: string;
+	componentIds: string[];
+	strategy: IssueCountStrategy;
+	signal?: AbortSignal | undefined;
+}): Promise<Map<string, number>> {
+	const { api, projectId, componentIds, strategy, signal } = query;
+
+	if (strategy === "full-scan") {
+		return getIssuesCountByComponentId(
+			await api.getIssuesByComponents({ projectId, componentIds, signal })
+		);
+	}
+
+	const counts = await Promise.all(
+		componentIds.map(async (componentId) => {
+			const count = await api.countIssuesByComponent({
+				projectId,
+				componentId,
+				signal
+			});
+			return [componentId, count] as const;
+		})
+	);
+
+	return new Map(counts);
+}
@@ -0,0 +1,55 @@
+import { setTimeout as sleep } from "node:timers/promises";
+import { describe, expect, it } from "@jest/globals";
+import { createConcurrencyLimiter } from "./createConcurrencyLimiter";
+
+describe("createConcurrencyLimiter", () => {
+	it("should throw an error if maxConcurrency is not a positive safe integer", () => {
+		expect(() => {
+			createConcurrencyLimiter({ maxConcurrency: 0 });
+		}).toThrow(TypeError);
+	});
+
+	it("should never run more than maxConcurrency tasks at the same time", async () => {
+		expect.hasAssertions();
+
+		const limit = createConcurrencyLimiter({ maxConcurrency: 2 });
+
+		let runningCount = 0;
+		let maxRunningCount = 0;
+
+		const results = await Promise.all(
+			[30, 10, 20, 5, 15].map(async (delay, index) => {
+				return limit(async () => {
+					runningCount++;
+					maxRunningCount = Math.max(maxRunningCount, runningCount);
+					await sleep(delay);
+					runningCount--;
+					return index;
+				});
+			})
+		);
+
+		expect(maxRunningCount).toBe(2);
+		expect(results).toStrictEqual([0, 1, 2, 3, 4]);
+	});
+
+	it("should free slots of failed tasks", async () => {
+		expect.hasAssertions();
+
+		const limit = createConcurrencyLimiter({ maxConcurrency: 1 });
+
+		await expect(
+			limit(async () => {
+				await sleep(1);
+				throw new Error("Failed");
+			})
+		).rejects.toThrow("Failed");
+
+		await expect(
+			limit(async () => {
+				await sleep(1);
+				return "ok";
+			})
+		).resolves.toBe("ok");
+	});
+});
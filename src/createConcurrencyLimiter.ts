@@ -0,0 +1,42 @@
+export type ConcurrencyLimiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Creates a function that runs at most `maxConcurrency` tasks at the same time,
+ * remaining tasks are queued and started in FIFO order as soon as a slot is freed.
+ */
+export function createConcurrencyLimiter(opts: {
+	maxConcurrency: number;
+}): ConcurrencyLimiter {
+	const { maxConcurrency } = opts;
+
+	if (!Number.isSafeInteger(maxConcurrency) || maxConcurrency <= 0) {
+		throw new TypeError(`Option 'maxConcurrency' needs to be a positive safe integer.`);
+	}
+
+	const queue: (() => void)[] = [];
+	let runningCount = 0;
+
+	const startNextTask = () => {
+		if (runningCount < maxConcurrency) {
+			const start = queue.shift();
+			if (start) {
+				runningCount++;
+				start();
+			}
+		}
+	};
+
+	return async <T>(task: () => Promise<T>) => {
+		await new Promise<void>((resolve) => {
+			queue.push(resolve);
+			startNextTask();
+		});
+
+		try {
+			return await task();
+		} finally {
+			runningCount--;
+			startNextTask();
+		}
+	};
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "@jest/globals";
+import { createJqlBatches } from "./createJqlBatches";
+
+describe("createJqlBatches", () => {
+	it("should throw an error if maxLength is not a positive safe integer", () => {
+		expect(() => {
+			createJqlBatches({ values: ["1"], maxLength: 0 });
+		}).toThrow(TypeError);
+	});
+
+	it("should return no batches when there are no values", () => {
+		expect(createJqlBatches({ values: [], maxLength: 10 })).toStrictEqual([]);
+	});
+
+	it("should return a single batch when all values fit", () => {
+		expect(createJqlBatches({ values: ["1", "2", "3"], maxLength: 7 })).toStrictEqual([
+			["1", "2", "3"]
+		]);
+	});
+
+	it("should split values so that every joined batch fits", () => {
+		const values = ["10128", "10130", "10131", "10132", "10133"];
+		const batches = createJqlBatches({ values: values, maxLength: 12 });
+
+		expect(batches).toStrictEqual([["10128", "10130"], ["10131", "10132"], ["10133"]]);
+		expect(batches.flat()).toStrictEqual(values);
+	});
+
+	it("should put a value longer than maxLength into a batch of its own", () => {
+		expect(
+			createJqlBatches({ values: ["1", "123456", "2"], maxLength: 4 })
+		).toStrictEqual([["1"], ["123456"], ["2"]]);
+	});
+});
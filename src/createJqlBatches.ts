@@ -0,0 +1,40 @@
+/**
+ * Splits values of a JQL list (like `component IN (a, b, c)`) into batches, so that the list
+ * of every batch is at most `maxLength` characters long. Values keep their order,
+ * a value longer than `maxLength` gets a batch of its own.
+ */
+export function createJqlBatches(opts: {
+	values: readonly string[];
+	maxLength: number;
+}): string[][] {
+	const { values, maxLength } = opts;
+
+	if (!Number.isSafeInteger(maxLength) || maxLength <= 0) {
+		throw new TypeError(`Option 'maxLength' needs to be a positive safe integer.`);
+	}
+
+	const SEPARATOR = ", ";
+
+	const batches: string[][] = [];
+	let batch: string[] = [];
+	let batchLength = 0;
+
+	for (const value of values) {
+		const length = batch.length === 0 ? value.length : SEPARATOR.length + value.length;
+
+		if (batch.length > 0 && batchLength + length > maxLength) {
+			batches.push(batch);
+			batch = [value];
+			batchLength = value.length;
+		} else {
+			batch.push(value);
+			batchLength += length;
+		}
+	}
+
+	if (batch.length > 0) {
+		batches.push(batch);
+	}
+
+	return batches;
+}
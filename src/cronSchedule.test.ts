@@ -0,0 +1,75 @@
+import { describe, expect, it } from "@jest/globals";
+import { getNextCronTime, parseCronExpression } from "./cronSchedule";
+
+describe("cronSchedule", () => {
+	describe("parseCronExpression", () => {
+		it("should parse lists, ranges, steps and names", () => {
+			const cron = parseCronExpression("*/20 9-17/4 1,15 jan-mar mon-fri");
+
+			expect([...cron.minutes]).toStrictEqual([0, 20, 40]);
+			expect([...cron.hours]).toStrictEqual([9, 13, 17]);
+			expect([...cron.daysOfMonth]).toStrictEqual([1, 15]);
+			expect([...cron.months]).toStrictEqual([1, 2, 3]);
+			expect([...cron.daysOfWeek]).toStrictEqual([1, 2, 3, 4, 5]);
+			expect(cron.isDayOfMonthRestricted).toBe(true);
+		});
+
+		it("should parse macros, and Sunday as 7", () => {
+			expect(parseCronExpression("@hourly")).toMatchObject({
+				minutes: new Set([0]),
+				isDayOfMonthRestricted: false,
+				isDayOfWeekRestricted: false
+			});
+			expect([...parseCronExpression("0 0 * * 5-7").daysOfWeek]).toStrictEqual([5, 6, 0]);
+		});
+
+		it("should fail on invalid expressions", () => {
+			expect(() => parseCronExpression("0 * * *")).toThrow(
+				"Cron expression '0 * * *' must have 5 fields (minute, hour, day of month, month, day of week), 4 found."
+			);
+			expect(() => parseCronExpression("0 24 * * *")).toThrow(
+				"Invalid hour '24' of cron expression '0 24 * * *', allowed: 0-23."
+			);
+			expect(() => parseCronExpression("*/0 * * * *")).toThrow(
+				"Invalid minute '*/0' of cron expression '*/0 * * * *', allowed: 0-59."
+			);
+		});
+	});
+
+	describe("getNextCronTime", () => {
+		/*
+			Cron works in local time, so do the dates.
+		*/
+		const after = new Date(2024, 4, 1, 12, 30, 15);
+
+		it("should return the next matching minute", () => {
+			expect(getNextCronTime(parseCronExpression("*/15 * * * *"), after)).toStrictEqual(
+				new Date(2024, 4, 1, 12, 45)
+			);
+			expect(getNextCronTime(parseCronExpression("30 12 * * *"), after)).toStrictEqual(
+				new Date(2024, 4, 2, 12, 30)
+			);
+		});
+
+		it("should skip months and days", () => {
+			expect(getNextCronTime(parseCronExpression("0 9 29 feb *"), after)).toStrictEqual(
+				new Date(2028, 1, 29, 9, 0)
+			);
+			expect(getNextCronTime(parseCronExpression("0 0 * * sat"), after)).toStrictEqual(
+				new Date(2024, 4, 4, 0, 0)
+			);
+		});
+
+		it("should match either the day of month, or the day of week, when both are restricted", () => {
+			expect(getNextCronTime(parseCronExpression("0 0 10 * mon"), after)).toStrictEqual(
+				new Date(2024, 4, 6, 0, 0)
+			);
+		});
+
+		it("should fail on expressions, which never match", () => {
+			expect(() => getNextCronTime(parseCronExpression("0 0 30 2 *"), after)).toThrow(
+				"Cron expression '0 0 30 2 *' never matches."
+			);
+		});
+	});
+});
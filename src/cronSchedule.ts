@@ -0,0 +1,219 @@
+/* -------------------------------------------------------------------------- */
+/*                                    TYPES                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Parsed cron expression, every field is a set of allowed values.
+ */
+export type CronExpression = {
+	/** Original expression, used in error messages. */
+	source: string;
+	minutes: ReadonlySet<number>;
+	hours: ReadonlySet<number>;
+	daysOfMonth: ReadonlySet<number>;
+	months: ReadonlySet<number>;
+
+	/** Sunday is `0` (`7` is accepted too). */
+	daysOfWeek: ReadonlySet<number>;
+
+	/**
+	 * When both days of month and days of week are restricted (not `*`),
+	 * a day matching either of them matches (like in cron).
+	 */
+	isDayOfMonthRestricted: boolean;
+	isDayOfWeekRestricted: boolean;
+};
+
+type CronField = {
+	name: string;
+	min: number;
+	max: number;
+	names?: readonly string[];
+};
+
+const CRON_FIELDS = [
+	{ name: "minute", min: 0, max: 59 },
+	{ name: "hour", min: 0, max: 23 },
+	{ name: "day of month", min: 1, max: 31 },
+	{
+		name: "month",
+		min: 1,
+		max: 12,
+		names: [
+			"jan",
+			"feb",
+			"mar",
+			"apr",
+			"may",
+			"jun",
+			"jul",
+			"aug",
+			"sep",
+			"oct",
+			"nov",
+			"dec"
+		]
+	},
+	{
+		name: "day of week",
+		min: 0,
+		max: 7,
+		names: ["sun", "mon", "tue", "wed", "thu", "fri", "sat"]
+	}
+] as const satisfies readonly CronField[];
+
+const CRON_MACROS: Record<string, string> = {
+	"@yearly": "0 0 1 1 *",
+	"@annually": "0 0 1 1 *",
+	"@monthly": "0 0 1 * *",
+	"@weekly": "0 0 * * 0",
+	"@daily": "0 0 * * *",
+	"@midnight": "0 0 * * *",
+	"@hourly": "0 * * * *"
+};
+
+/**
+ * How far the next time of an expression is searched for (expressions like `0 0 30 2 *`
+ * never match). Leap days are matched at most every 8 years (like 2096 and 2104).
+ */
+const MAX_CRON_SEARCH_YEARS = 8;
+
+/* -------------------------------------------------------------------------- */
+/*                                   PARSER                                   */
+/* -------------------------------------------------------------------------- */
+
+function parseCronValue(value: string, field: CronField): number {
+	const nameIndex = field.names?.indexOf(value.toLowerCase()) ?? -1;
+
+	if (nameIndex !== -1) {
+		return nameIndex + field.min;
+	}
+
+	const number = /^\d+$/u.test(value) ? Number(value) : Number.NaN;
+	return number >= field.min && number <= field.max ? number : Number.NaN;
+}
+
+/**
+ * Parses a field like `*`, `5`, `1-5`, `*\/15`, `10-50/10`, `mon-fri` or a list of them.
+ */
+function parseCronField(value: string, field: CronField, source: string): Set<number> {
+	const values = new Set<number>();
+
+	for (const part of value.split(",")) {
+		const [range = "", step, ...rest] = part.split("/");
+		const [start = "", end, ...restOfRange] =
+			range === "*" ? [String(field.min), String(field.max)] : range.split("-");
+
+		/*
+			A single value with a step (like `5/15`) starts a range up to the max.
+		*/
+		const from = parseCronValue(start, field);
+		const to = parseCronValue(
+			end ?? (step === undefined ? start : String(field.max)),
+			field
+		);
+		const increment = Number(step ?? "1");
+
+		if (
+			rest.length > 0 ||
+			restOfRange.length > 0 ||
+			Number.isNaN(from) ||
+			Number.isNaN(to) ||
+			from > to ||
+			!Number.isInteger(increment) ||
+			increment < 1
+		) {
+			throw new TypeError(
+				`Invalid ${field.name} '${part}' of cron expression '${source}', allowed: ${field.min}-${field.max}.`
+			);
+		}
+
+		for (let current = from; current <= to; current += increment) {
+			values.add(current);
+		}
+	}
+
+	return values;
+}
+
+/**
+ * Parses a standard cron expression with 5 fields (minute, hour, day of month, month
+ * and day of week), or a macro like `@daily`. Fields can be lists of values, ranges
+ * and steps, months and days of week can be named (like `jan` or `mon`).
+ */
+export function parseCronExpression(expression: string): CronExpression {
+	const source = expression.trim();
+	const fields = (CRON_MACROS[source.toLowerCase()] ?? source).split(/\s+/u);
+
+	if (fields.length !== CRON_FIELDS.length) {
+		throw new TypeError(
+			`Cron expression '${source}' must have ${CRON_FIELDS.length} fields (minute, hour, day of month, month, day of week), ${fields.length} found.`
+		);
+	}
+
+	const [minutes, hours, daysOfMonth, months, daysOfWeek] = CRON_FIELDS.map(
+		(field, index) => parseCronField(fields[index] ?? "", field, source)
+	) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+	if (daysOfWeek.delete(7)) {
+		daysOfWeek.add(0);
+	}
+
+	return {
+		source: source,
+		minutes: minutes,
+		hours: hours,
+		daysOfMonth: daysOfMonth,
+		months: months,
+		daysOfWeek: daysOfWeek,
+		isDayOfMonthRestricted: !fields[2]?.startsWith("*"),
+		isDayOfWeekRestricted: !fields[4]?.startsWith("*")
+	};
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  SCHEDULE                                  */
+/* -------------------------------------------------------------------------- */
+
+function matchesDay(cron: CronExpression, time: Date): boolean {
+	const { daysOfMonth, daysOfWeek, isDayOfMonthRestricted, isDayOfWeekRestricted } = cron;
+	const isDayOfMonthMatched = daysOfMonth.has(time.getDate());
+	const isDayOfWeekMatched = daysOfWeek.has(time.getDay());
+
+	if (isDayOfMonthRestricted && isDayOfWeekRestricted) {
+		return isDayOfMonthMatched || isDayOfWeekMatched;
+	}
+
+	return isDayOfMonthMatched && isDayOfWeekMatched;
+}
+
+/**
+ * Returns the first time (in local time, like cron) after a given one, which
+ * matches a cron expression. Non-matching months, days and hours are skipped as a whole.
+ */
+export function getNextCronTime(cron: CronExpression, after: Date): Date {
+	const time = new Date(after);
+	time.setSeconds(0, 0);
+	time.setMinutes(time.getMinutes() + 1);
+
+	const limit = new Date(time);
+	limit.setFullYear(limit.getFullYear() + MAX_CRON_SEARCH_YEARS);
+
+	while (time.getTime() < limit.getTime()) {
+		if (!cron.months.has(time.getMonth() + 1)) {
+			time.setMonth(time.getMonth() + 1, 1);
+			time.setHours(0, 0, 0, 0);
+		} else if (!matchesDay(cron, time)) {
+			time.setDate(time.getDate() + 1);
+			time.setHours(0, 0, 0, 0);
+		} else if (!cron.hours.has(time.getHours())) {
+			time.setHours(time.getHours() + 1, 0, 0, 0);
+		} else if (cron.minutes.has(time.getMinutes())) {
+			return time;
+		} else {
+			time.setMinutes(time.getMinutes() + 1, 0, 0);
+		}
+	}
+
+	throw new TypeError(`Cron expression '${cron.source}' never matches.`);
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "@jest/globals";
+import { diffSnapshots, renderSnapshotDiff } from "./diffSnapshots";
+import type { Snapshot } from "./snapshotStore";
+
+describe("diffSnapshots", () => {
+	const from: Snapshot = {
+		takenAt: "2024-05-01T12:00:00.000Z",
+		baseUrl: "https://xxx.atlassian.net",
+		projects: [
+			{
+				projectId: "XYZ",
+				components: [
+					{ id: "1", name: "Backend", hasLead: true },
+					{ id: "2", name: "Frontend", hasLead: false, issues: 4 },
+					{ id: "3", name: "Templates", hasLead: false, issues: 5 },
+					{ id: "4", name: "Removed", hasLead: false, issues: 1 }
+				]
+			}
+		]
+	};
+
+	const to: Snapshot = {
+		takenAt: "2024-05-08T12:00:00.000Z",
+		baseUrl: "https://xxx.atlassian.net",
+		projects: [
+			{
+				projectId: "XYZ",
+				components: [
+					{ id: "1", name: "Backend", hasLead: false, issues: 2 },
+					{ id: "2", name: "Frontend", hasLead: true },
+					{ id: "3", name: "Templates", hasLead: false, issues: 7 },
+					{ id: "5", name: "Created", hasLead: false, issues: 0 }
+				]
+			},
+			{
+				projectId: "ABC",
+				components: [{ id: "6", name: "Sync", hasLead: true }]
+			}
+		]
+	};
+
+	it("should list components that lost or gained a lead, or changed issue counts", () => {
+		expect(diffSnapshots(from, to)).toStrictEqual({
+			from: from.takenAt,
+			to: to.takenAt,
+			projects: [
+				{
+					projectId: "XYZ",
+					lostLead: [
+						{ id: "1", name: "Backend", issues: 2 },
+						{ id: "5", name: "Created", issues: 0 }
+					],
+					gainedLead: [{ id: "2", name: "Frontend" }],
+					issuesChanged: [{ id: "3", name: "Templates", from: 5, to: 7 }]
+				},
+				{ projectId: "ABC", lostLead: [], gainedLead: [], issuesChanged: [] }
+			]
+		});
+	});
+
+	it("should have no changes between the same snapshots", () => {
+		expect(diffSnapshots(to, to).projects).toStrictEqual([
+			{ projectId: "XYZ", lostLead: [], gainedLead: [], issuesChanged: [] },
+			{ projectId: "ABC", lostLead: [], gainedLead: [], issuesChanged: [] }
+		]);
+	});
+
+	describe("renderSnapshotDiff", () => {
+		const diff = diffSnapshots(from, to);
+
+		it("should render text", () => {
+			expect(renderSnapshotDiff({ diff: diff, format: "text" })).toBe(
+				[
+					"Changes between snapshots of 2024-05-01T12:00:00.000Z and 2024-05-08T12:00:00.000Z:",
+					"",
+					"Project XYZ:",
+					"  Lost a lead (2):",
+					"    [ID: 1] Backend with 2 issue(s)",
+					"    [ID: 5] Created with 0 issue(s)",
+					"  Gained a lead (1):",
+					"    [ID: 2] Frontend",
+					"  Issue count changed (1):",
+					"    [ID: 3] Templates 5 → 7 (+2)",
+					"",
+					"Project ABC:",
+					"  No changes."
+				].join("\n")
+			);
+		});
+
+		it("should render versioned JSON", () => {
+			expect(
+				JSON.parse(renderSnapshotDiff({ diff: diff, format: "json" }))
+			).toStrictEqual({
+				schemaVersion: 1,
+				...diff
+			});
+		});
+	});
+});
@@ -0,0 +1,203 @@
+import chalk from "chalk";
+import type { Snapshot, SnapshotComponent } from "./snapshotStore";
+
+/* -------------------------------------------------------------------------- */
+/*                                    TYPES                                   */
+/* -------------------------------------------------------------------------- */
+
+export const SNAPSHOT_DIFF_FORMATS = ["text", "json"] as const;
+
+export type SnapshotDiffFormat = (typeof SNAPSHOT_DIFF_FORMATS)[number];
+
+export type ProjectSnapshotDiff = {
+	projectId: string;
+
+	/** Components without a lead, which had one (or didn't exist) in the earlier snapshot. */
+	lostLead: { id: string; name: string; issues?: number }[];
+
+	/** Components with a lead, which didn't have one in the earlier snapshot. */
+	gainedLead: { id: string; name: string }[];
+
+	/** Components with issue counts known in both snapshots. */
+	issuesChanged: { id: string; name: string; from: number; to: number }[];
+};
+
+export type SnapshotDiff = {
+	/** `takenAt` of the earlier snapshot. */
+	from: string;
+
+	/** `takenAt` of the later snapshot. */
+	to: string;
+
+	projects: ProjectSnapshotDiff[];
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                    DIFF                                    */
+/* -------------------------------------------------------------------------- */
+
+function diffProjectComponents(
+	projectId: string,
+	fromComponents: SnapshotComponent[],
+	toComponents: SnapshotComponent[]
+): ProjectSnapshotDiff {
+	const fromComponentsById = new Map(
+		fromComponents.map((component) => [component.id, component])
+	);
+
+	const diff: ProjectSnapshotDiff = {
+		projectId: projectId,
+		lostLead: [],
+		gainedLead: [],
+		issuesChanged: []
+	};
+
+	for (const { id, name, hasLead, issues } of toComponents) {
+		const fromComponent = fromComponentsById.get(id);
+
+		if (!hasLead && (fromComponent?.hasLead ?? true)) {
+			diff.lostLead.push(issues === undefined ? { id, name } : { id, name, issues });
+		}
+
+		if (hasLead && fromComponent?.hasLead === false) {
+			diff.gainedLead.push({ id, name });
+		}
+
+		if (
+			issues !== undefined &&
+			fromComponent?.issues !== undefined &&
+			issues !== fromComponent.issues
+		) {
+			diff.issuesChanged.push({
+				id: id,
+				name: name,
+				from: fromComponent.issues,
+				to: issues
+			});
+		}
+	}
+
+	return diff;
+}
+
+/**
+ * Compares components of projects of the later snapshot with the earlier one.
+ * Components created in the meantime without a lead are reported as ones that lost it,
+ * a project missing from the earlier snapshot is compared as if it had no components.
+ */
+export function diffSnapshots(from: Snapshot, to: Snapshot): SnapshotDiff {
+	const fromProjectsById = new Map(
+		from.projects.map((project) => [project.projectId, project])
+	);
+
+	return {
+		from: from.takenAt,
+		to: to.takenAt,
+		projects: to.projects.map(({ projectId, components }) => {
+			return diffProjectComponents(
+				projectId,
+				fromProjectsById.get(projectId)?.components ?? [],
+				components
+			);
+		})
+	};
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  RENDERERS                                 */
+/* -------------------------------------------------------------------------- */
+
+function renderTextProjectDiff(diff: ProjectSnapshotDiff, c: chalk.Chalk): string[] {
+	const { lostLead, gainedLead, issuesChanged } = diff;
+
+	if (lostLead.length + gainedLead.length + issuesChanged.length === 0) {
+		return [c.gray("  No changes.")];
+	}
+
+	const formatComponent = (id: string, name: string) => {
+		return `    ${c.gray(`[ID: ${id}]`)} ${c.bold(name)}`;
+	};
+
+	const formatIssueChange = (fromIssues: number, toIssues: number) => {
+		const change = toIssues - fromIssues;
+		const color = change > 0 ? c.red : c.green;
+		return color(`${fromIssues} → ${toIssues} (${change > 0 ? "+" : ""}${change})`);
+	};
+
+	return [
+		...(lostLead.length > 0
+			? [
+					c.red(`  Lost a lead (${lostLead.length}):`),
+					...lostLead.map(({ id, name, issues }) => {
+						return issues === undefined
+							? formatComponent(id, name)
+							: `${formatComponent(id, name)} ${c.magenta(
+									`with ${c.bold(issues)} issue(s)`
+							  )}`;
+					})
+			  ]
+			: []),
+		...(gainedLead.length > 0
+			? [
+					c.green(`  Gained a lead (${gainedLead.length}):`),
+					...gainedLead.map(({ id, name }) => formatComponent(id, name))
+			  ]
+			: []),
+		...(issuesChanged.length > 0
+			? [
+					c.yellow(`  Issue count changed (${issuesChanged.length}):`),
+					...issuesChanged.map(({ id, name, from, to }) => {
+						return `${formatComponent(id, name)} ${formatIssueChange(from, to)}`;
+					})
+			  ]
+			: [])
+	];
+}
+
+function renderText(diff: SnapshotDiff, colors: boolean): string {
+	const c = new chalk.Instance({ level: colors ? chalk.level : 0 });
+
+	return [
+		c.cyan.bold(`Changes between snapshots of ${diff.from} and ${diff.to}:`),
+		...diff.projects.flatMap((projectDiff) => {
+			return [
+				"",
+				c.cyan.bold(`Project ${projectDiff.projectId}:`),
+				...renderTextProjectDiff(projectDiff, c)
+			];
+		})
+	].join("\n");
+}
+
+/**
+ * Schema of the `json` format, `schemaVersion` is bumped on every breaking change.
+ */
+export type JsonSnapshotDiff = SnapshotDiff & { schemaVersion: 1 };
+
+function renderJson(diff: SnapshotDiff): string {
+	const json: JsonSnapshotDiff = { schemaVersion: 1, ...diff };
+	return JSON.stringify(json, null, 2);
+}
+
+/**
+ * Renders changes between two snapshots, only `text` format is (optionally) colored.
+ */
+export function renderSnapshotDiff(opts: {
+	diff: SnapshotDiff;
+	format: SnapshotDiffFormat;
+	colors?: boolean;
+}): string {
+	const { diff, format, colors = false } = opts;
+
+	switch (format) {
+		case "text": {
+			return renderText(diff, colors);
+		}
+		case "json": {
+			return renderJson(diff);
+		}
+		default: {
+			throw new TypeError(`Unknown snapshot diff format '${String(format)}'.`);
+		}
+	}
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "@jest/globals";
+import type { ZodIssue } from "zod";
+import {
+	JiraAuthError,
+	JiraNetworkError,
+	JiraNotFoundError,
+	JiraPermissionError,
+	JiraRateLimitError,
+	JiraResponseError,
+	JiraSchemaError,
+	JiraTimeoutError
+} from "./JiraAPI";
+import { EXIT_CODES, diagnoseError } from "./errorDiagnostics";
+import { NotificationError } from "./notifications";
+
+describe("diagnoseError", () => {
+	const url = "https://xxx.atlassian.net/rest/api/3/project/XYZ/components";
+
+	it.each([
+		[
+			new JiraAuthError({ url: url, status: 401, message: "Unauthorized" }),
+			EXIT_CODES.auth
+		],
+		[
+			new JiraPermissionError({ url: url, status: 403, message: "Forbidden" }),
+			EXIT_CODES.permission
+		],
+		[
+			new JiraNotFoundError({ url: url, status: 404, message: "Not Found" }),
+			EXIT_CODES.notFound
+		],
+		[
+			new JiraRateLimitError({ url: url, status: 429, message: "Too Many Requests" }),
+			EXIT_CODES.rateLimit
+		],
+		[
+			new JiraResponseError({ url: url, status: 500, message: "Internal Server Error" }),
+			EXIT_CODES.failure
+		],
+		[
+			new JiraSchemaError({ url: url, issues: [], message: "Invalid" }),
+			EXIT_CODES.schemaDrift
+		],
+		[new JiraNetworkError({ url: url, message: "ENOTFOUND" }), EXIT_CODES.network],
+		[new JiraTimeoutError({ url: url, message: "Timed out" }), EXIT_CODES.timeout]
+	])("should diagnose %s", (jiraError, exitCode) => {
+		expect(diagnoseError(jiraError)).toMatchObject({
+			summary: `${jiraError.name}: ${jiraError.message}`,
+			explanation: expect.any(String),
+			suggestion: expect.any(String),
+			exitCode: exitCode
+		});
+	});
+
+	it("should mention a delay requested by Jira", () => {
+		const error = new JiraRateLimitError({
+			url: url,
+			status: 429,
+			message: "Too Many Requests",
+			retryAfterMs: 30_000
+		});
+
+		expect(diagnoseError(error)?.explanation).toBe(
+			"Jira kept rate limiting requests after all retries (and asked to wait 30 s)."
+		);
+	});
+
+	it("should list a few schema mismatches", () => {
+		const issues: ZodIssue[] = Array.from({ length: 7 }, (value, index) => {
+			return {
+				code: "invalid_type",
+				expected: "string",
+				received: "number",
+				path: [index, "id"],
+				message: "Expected string, received number"
+			};
+		});
+
+		const error = new JiraSchemaError({ url: url, issues: issues, message: "Invalid" });
+
+		expect(diagnoseError(error)?.details).toStrictEqual([
+			"0.id: Expected string, received number",
+			"1.id: Expected string, received number",
+			"2.id: Expected string, received number",
+			"3.id: Expected string, received number",
+			"4.id: Expected string, received number",
+			"... and 2 more"
+		]);
+	});
+
+	it("should list failed notification sinks", () => {
+		const error = new NotificationError({
+			failures: [
+				{ sink: "slack hooks.slack.com", message: "Responded with 404 Not Found." }
+			],
+			message: "1 of 2 notification(s) failed."
+		});
+
+		expect(diagnoseError(error)).toMatchObject({
+			summary: "NotificationError: 1 of 2 notification(s) failed.",
+			details: ["slack hooks.slack.com: Responded with 404 Not Found."],
+			exitCode: EXIT_CODES.notification
+		});
+	});
+
+	it("should not diagnose unknown errors", () => {
+		expect(diagnoseError(new TypeError("Unknown"))).toBeUndefined();
+		expect(diagnoseError("Unknown")).toBeUndefined();
+	});
+});
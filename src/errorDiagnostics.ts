@@ -0,0 +1,210 @@
+import {
+	JiraAuthError,
+	JiraNetworkError,
+	JiraNotFoundError,
+	JiraOfflineError,
+	JiraPermissionError,
+	JiraRateLimitError,
+	JiraResponseError,
+	JiraSchemaError,
+	JiraTimeoutError
+} from "./JiraAPI";
+import { NotificationError } from "./notifications";
+
+/* -------------------------------------------------------------------------- */
+/*                                 EXIT CODES                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Exit codes of the CLI, so that CI jobs can tell failures apart.
+ * `failure` is used for invalid options and unexpected errors,
+ * `findings` when the run succeeded, but components exceeded thresholds of `check`.
+ */
+export const EXIT_CODES = {
+	success: 0,
+	failure: 1,
+	auth: 2,
+	permission: 3,
+	notFound: 4,
+	rateLimit: 5,
+	schemaDrift: 6,
+	network: 7,
+	timeout: 8,
+	notification: 9,
+	findings: 10
+} as const;
+
+export type ExitCode = (typeof EXIT_CODES)[keyof typeof EXIT_CODES];
+
+/* -------------------------------------------------------------------------- */
+/*                                 DIAGNOSTICS                                */
+/* -------------------------------------------------------------------------- */
+
+export type ErrorDiagnosis = {
+	/** Name and message of the error (which includes messages of Jira). */
+	summary: string;
+
+	/** What (most likely) happened. */
+	explanation: string;
+
+	/** What to try next. */
+	suggestion: string;
+
+	/** Mismatches of a schema, or failed notification sinks. */
+	details: string[];
+
+	exitCode: ExitCode;
+};
+
+/**
+ * Max number of reported schema mismatches, a changed field usually breaks every item of a list.
+ */
+const MAX_SCHEMA_ISSUES = 5;
+
+function getSchemaIssueDetails(error: JiraSchemaError): string[] {
+	const details = error.issues.slice(0, MAX_SCHEMA_ISSUES).map((issue) => {
+		const path = issue.path.length > 0 ? issue.path.join(".") : "(body)";
+		return `${path}: ${issue.message}`;
+	});
+
+	const hiddenCount = error.issues.length - details.length;
+
+	return hiddenCount > 0 ? [...details, `... and ${hiddenCount} more`] : details;
+}
+
+/**
+ * Explains errors of `JiraAPI` (and of notifications), and picks their exit code. Other errors are not known,
+ * so they are not diagnosed (`undefined` is returned).
+ */
+export function diagnoseError(error: unknown): ErrorDiagnosis | undefined {
+	if (!(error instanceof Error)) {
+		return undefined;
+	}
+
+	const summary = `${error.name}: ${error.message}`;
+
+	if (error instanceof JiraAuthError) {
+		return {
+			summary: summary,
+			explanation: "Jira rejected the credentials (or the site requires them).",
+			suggestion:
+				"Check '--jira-email' and '--jira-api-token' (Cloud), or '--jira-personal-access-token' (Data Center / Server). Tokens can expire or be revoked.",
+			details: [],
+			exitCode: EXIT_CODES.auth
+		};
+	}
+
+	if (error instanceof JiraPermissionError) {
+		return {
+			summary: summary,
+			explanation: "The user is authenticated, but is not allowed to do the request.",
+			suggestion:
+				"Ask a Jira admin for the 'Browse Projects' permission ('Administer Projects' to assign leads), or use a different account.",
+			details: [],
+			exitCode: EXIT_CODES.permission
+		};
+	}
+
+	if (error instanceof JiraNotFoundError) {
+		return {
+			summary: summary,
+			explanation:
+				"Jira couldn't find the project (or other resource), or the user is not allowed to see it.",
+			suggestion:
+				"Check project keys of '--jira-project-id', '--jira-base-url', and '--jira-api-flavor' (for Data Center / Server).",
+			details: [],
+			exitCode: EXIT_CODES.notFound
+		};
+	}
+
+	if (error instanceof JiraRateLimitError) {
+		const { retryAfterMs } = error;
+
+		return {
+			summary: summary,
+			explanation: `Jira kept rate limiting requests after all retries${
+				retryAfterMs === undefined
+					? ""
+					: ` (and asked to wait ${Math.ceil(retryAfterMs / 1000)} s)`
+			}.`,
+			suggestion:
+				"Lower '--max-concurrency', raise '--retry-max-attempts' or '--retry-max-delay', or try again later.",
+			details: [],
+			exitCode: EXIT_CODES.rateLimit
+		};
+	}
+
+	if (error instanceof JiraResponseError) {
+		return {
+			summary: summary,
+			explanation: `Jira responded with an error (${error.status}).`,
+			suggestion:
+				error.status >= 500
+					? "Jira may be unavailable, try again later."
+					: "Check the options, Jira explained the error below (when it could).",
+			details: [],
+			exitCode: EXIT_CODES.failure
+		};
+	}
+
+	if (error instanceof JiraSchemaError) {
+		return {
+			summary: summary,
+			explanation:
+				"Jira responded with data of an unexpected shape, its API has probably changed.",
+			suggestion:
+				"Check '--jira-api-flavor' (Cloud and Data Center / Server APIs differ), or update the script.",
+			details: getSchemaIssueDetails(error),
+			exitCode: EXIT_CODES.schemaDrift
+		};
+	}
+
+	if (error instanceof JiraNetworkError) {
+		return {
+			summary: summary,
+			explanation: `Jira couldn't be reached${
+				error.code === undefined ? "" : ` (${error.code})`
+			}.`,
+			suggestion:
+				"Check '--jira-base-url', the network connection, and the proxy ('--proxy', HTTPS_PROXY) or CA certificates ('--ca-file').",
+			details: [],
+			exitCode: EXIT_CODES.network
+		};
+	}
+
+	if (error instanceof JiraTimeoutError) {
+		return {
+			summary: summary,
+			explanation: "Jira didn't respond in time.",
+			suggestion:
+				"Raise '--request-timeout' (or '--deadline'), or lower '--max-concurrency'.",
+			details: [],
+			exitCode: EXIT_CODES.timeout
+		};
+	}
+
+	if (error instanceof JiraOfflineError) {
+		return {
+			summary: summary,
+			explanation:
+				"The response is not cached, and nothing is sent to Jira in the offline mode.",
+			suggestion: "Run the same command without '--offline' first, to fill the cache.",
+			details: [],
+			exitCode: EXIT_CODES.failure
+		};
+	}
+
+	if (error instanceof NotificationError) {
+		return {
+			summary: summary,
+			explanation:
+				"The report was created, but some notification sinks couldn't be reached (or they rejected it).",
+			suggestion:
+				"Check the sinks of '--notify' (or JIRA_AUDIT_NOTIFY), the other sinks were notified.",
+			details: error.failures.map(({ sink, message }) => `${sink}: ${message}`),
+			exitCode: EXIT_CODES.notification
+		};
+	}
+
+	return undefined;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it, jest } from "@jest/globals";
+
+describe("index", () => {
+	it("should have no side effects on import", async () => {
+		expect.hasAssertions();
+
+		jest.resetModules();
+
+		const initialFetch = (globalThis as { fetch?: unknown }).fetch;
+		const initialExitCode = process.exitCode;
+		const consoleLog = jest.spyOn(console, "log");
+		const consoleError = jest.spyOn(console, "error");
+
+		await import("./index");
+
+		expect((globalThis as { fetch?: unknown }).fetch).toBe(initialFetch);
+		expect(process.exitCode).toBe(initialExitCode);
+		expect(consoleLog).not.toHaveBeenCalled();
+		expect(consoleError).not.toHaveBeenCalled();
+
+		consoleLog.mockRestore();
+		consoleError.mockRestore();
+	});
+
+	it("should expose the client, schemas and audit functions", async () => {
+		expect.hasAssertions();
+
+		const library = await import("./index");
+
+		expect(library).toMatchObject({
+			JiraAPI: expect.any(Function),
+			JiraSchemaError: expect.any(Function),
+			GetComponentsResponseSchema: expect.objectContaining({
+				parse: expect.any(Function)
+			}),
+			GetIssuesByComponentsResponseSchema: expect.objectContaining({
+				parse: expect.any(Function)
+			}),
+			getJiraComponentsWithoutLead: expect.any(Function),
+			auditJiraComponents: expect.any(Function),
+			auditJiraProjects: expect.any(Function),
+			renderReport: expect.any(Function),
+			diagnoseError: expect.any(Function)
+		});
+		expect(library).not.toHaveProperty("app");
+	});
+});
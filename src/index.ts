@@ -0,0 +1,46 @@
+/**
+ * Entry point of the library (the CLI is `app.ts`). Importing it has no side effects,
+ * nothing is patched and nothing is run, a `JiraAPI` client has to be created explicitly:
+ * ```ts
+ * import { JiraAPI, getJiraComponentsWithoutLead } from "jira-api-script-node-js";
+ *
+ * const api = new JiraAPI({ baseUrl: "https://abc.atlassian.net", credentials });
+ * const components = await getJiraComponentsWithoutLead({ api, projectId: "XYZ" });
+ * ```
+ */
+
+/* -------------------------------------------------------------------------- */
+/*                                   CLIENT                                   */
+/* -------------------------------------------------------------------------- */
+
+export * from "./JiraAPI";
+export * from "./jiraTransport";
+export * from "./transportMiddlewares";
+export * from "./retryPolicy";
+export * from "./responseCache";
+export * from "./recordReplay";
+export * from "./resolveJiraCredentials";
+export * from "./errorDiagnostics";
+
+/* -------------------------------------------------------------------------- */
+/*                                    AUDIT                                   */
+/* -------------------------------------------------------------------------- */
+
+export * from "./auditJiraProjects";
+export * from "./componentHealthRules";
+export * from "./countIssues";
+export * from "./issueBreakdowns";
+export * from "./assignComponentLeads";
+export * from "./renderReport";
+export * from "./snapshotStore";
+export * from "./diffSnapshots";
+export * from "./checkThresholds";
+export * from "./watchAudit";
+export * from "./cronSchedule";
+
+/* -------------------------------------------------------------------------- */
+/*                                NOTIFICATIONS                               */
+/* -------------------------------------------------------------------------- */
+
+export * from "./notifications";
+export * from "./smtpClient";
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "@jest/globals";
+import type { GetIssuesByComponentsResponse } from "./JiraAPI";
+import {
+	getIssueBreakdownFields,
+	getIssueBreakdownLabels,
+	getIssueBreakdownsByComponentId,
+	isIssueBreakdown
+} from "./issueBreakdowns";
+
+type Issue = GetIssuesByComponentsResponse["issues"][number];
+
+const NOW = Date.parse("2023-06-30T12:00:00.000Z");
+
+function createIssue(
+	id: string,
+	componentIds: string[],
+	fields: Omit<Issue["fields"], "components">
+): Issue {
+	return {
+		id: id,
+		fields: {
+			components: componentIds.map((componentId) => ({ id: componentId, name: "" })),
+			...fields
+		}
+	};
+}
+
+function createStatus(key: string, name: string) {
+	return { name: name, statusCategory: { key, name } };
+}
+
+const ISSUES: Issue[] = [
+	createIssue("1", ["A"], {
+		status: createStatus("done", "Done"),
+		issuetype: { name: "Bug" },
+		priority: { name: "High" },
+		updated: "2023-06-29T12:00:00.000+0200"
+	}),
+	createIssue("2", ["A", "B"], {
+		status: createStatus("new", "To Do"),
+		issuetype: { name: "Task" },
+		priority: null,
+		updated: "2023-05-01T12:00:00.000+0200"
+	}),
+	createIssue("3", ["A"], {
+		status: createStatus("indeterminate", "In Progress"),
+		issuetype: { name: "Bug" },
+		priority: { name: "Low" },
+		updated: "2022-01-01T12:00:00.000+0200"
+	})
+];
+
+describe("issueBreakdowns", () => {
+	it("should map breakdowns to issue fields", () => {
+		expect(
+			getIssueBreakdownFields(["status-category", "issue-type", "age"])
+		).toStrictEqual(["status", "issuetype", "updated"]);
+	});
+
+	it("should break down issues of every component", () => {
+		const breakdownsByComponentId = getIssueBreakdownsByComponentId({
+			issues: ISSUES,
+			breakdowns: ["status-category", "issue-type", "priority", "age"],
+			now: NOW
+		});
+
+		expect(Object.fromEntries(breakdownsByComponentId)).toStrictEqual({
+			A: {
+				"status-category": { new: 1, indeterminate: 1, done: 1 },
+				"issue-type": { Bug: 2, Task: 1 },
+				"priority": { High: 1, Low: 1, None: 1 },
+				"age": { "0-7d": 1, "31-90d": 1, "90d+": 1 }
+			},
+			B: {
+				"status-category": { new: 1 },
+				"issue-type": { Task: 1 },
+				"priority": { None: 1 },
+				"age": { "31-90d": 1 }
+			}
+		});
+	});
+
+	it("should keep values in a stable order", () => {
+		const breakdownsByComponentId = getIssueBreakdownsByComponentId({
+			issues: ISSUES,
+			breakdowns: ["status-category", "issue-type"],
+			now: NOW
+		});
+
+		/*
+			`toStrictEqual` ignores order of the keys.
+		*/
+		expect(JSON.stringify(breakdownsByComponentId.get("A"))).toBe(
+			JSON.stringify({
+				"status-category": { new: 1, indeterminate: 1, done: 1 },
+				"issue-type": { Bug: 2, Task: 1 }
+			})
+		);
+	});
+
+	it("should label status categories with their localized names", () => {
+		const issues = [
+			createIssue("4", ["C"], { status: createStatus("done", "Erledigt") }),
+			createIssue("5", ["C"], { status: createStatus("new", "Zu erledigen") })
+		];
+
+		expect(
+			getIssueBreakdownsByComponentId({
+				issues: issues,
+				breakdowns: ["status-category"]
+			}).get("C")
+		).toStrictEqual({ "status-category": { new: 1, done: 1 } });
+		expect(
+			getIssueBreakdownLabels({
+				issues: issues,
+				breakdowns: ["status-category", "priority"]
+			})
+		).toStrictEqual({ "status-category": { done: "Erledigt", new: "Zu erledigen" } });
+	});
+
+	it("should validate breakdown names", () => {
+		expect(isIssueBreakdown("age")).toBe(true);
+		expect(isIssueBreakdown("assignee")).toBe(false);
+	});
+});
@@ -0,0 +1,208 @@
+import type { IssueExtraField, JiraIssue } from "./JiraAPI";
+
+/* -------------------------------------------------------------------------- */
+/*                                    TYPES                                   */
+/* -------------------------------------------------------------------------- */
+
+export const ISSUE_BREAKDOWNS = [
+	"status-category",
+	"issue-type",
+	"priority",
+	"age"
+] as const;
+
+export type IssueBreakdown = (typeof ISSUE_BREAKDOWNS)[number];
+
+/**
+ * Number of issues per value (like `{ new: 2, done: 5 }`) of every enabled breakdown.
+ */
+export type IssueBreakdowns = Partial<Record<IssueBreakdown, Record<string, number>>>;
+
+/**
+ * Display labels of values, which are not readable on their own. Status categories are keyed
+ * by their (stable) keys, like `done`, and labeled with their names, which Jira localizes.
+ */
+export type IssueBreakdownLabels = Partial<
+	Record<IssueBreakdown, Record<string, string>>
+>;
+
+/**
+ * Keys of status categories, in the order of a workflow.
+ */
+export const STATUS_CATEGORY_KEYS = ["new", "indeterminate", "done"] as const;
+
+/**
+ * Buckets of the time since the last update of an issue, from the most recent one.
+ */
+export const ISSUE_AGE_BUCKETS = [
+	{ label: "0-7d", maxDays: 7 },
+	{ label: "8-30d", maxDays: 30 },
+	{ label: "31-90d", maxDays: 90 },
+	{ label: "90d+", maxDays: Number.POSITIVE_INFINITY }
+] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Value used when an issue doesn't have a given field (like an issue without a priority).
+ */
+const NONE = "None";
+
+/* -------------------------------------------------------------------------- */
+/*                                 BREAKDOWNS                                 */
+/* -------------------------------------------------------------------------- */
+
+const ISSUE_BREAKDOWN_DEFINITIONS: Record<
+	IssueBreakdown,
+	{
+		field: IssueExtraField;
+		getValue: (issue: JiraIssue, now: number) => string;
+
+		/** Label of the value of an issue, when it differs from the value. */
+		getLabel?: (issue: JiraIssue) => string;
+
+		/** Fixed order of values, the rest is sorted by count (and then by name). */
+		order: readonly string[];
+	}
+> = {
+	"status-category": {
+		field: "status",
+		getValue: ({ fields }) => fields.status?.statusCategory.key ?? NONE,
+		getLabel: ({ fields }) => fields.status?.statusCategory.name ?? NONE,
+		order: STATUS_CATEGORY_KEYS
+	},
+	"issue-type": {
+		field: "issuetype",
+		getValue: ({ fields }) => fields.issuetype?.name ?? NONE,
+		order: []
+	},
+	"priority": {
+		field: "priority",
+		getValue: ({ fields }) => fields.priority?.name ?? NONE,
+		order: []
+	},
+	"age": {
+		field: "updated",
+		getValue: ({ fields }, now) => {
+			const updated = fields.updated ? Date.parse(fields.updated) : Number.NaN;
+
+			if (Number.isNaN(updated)) {
+				return NONE;
+			}
+
+			const days = Math.max(0, now - updated) / DAY_MS;
+			const bucket = ISSUE_AGE_BUCKETS.find(({ maxDays }) => days <= maxDays);
+
+			return bucket?.label ?? NONE;
+		},
+		order: ISSUE_AGE_BUCKETS.map(({ label }) => label)
+	}
+};
+
+export function getIssueBreakdownFields(
+	breakdowns: readonly IssueBreakdown[]
+): IssueExtraField[] {
+	return breakdowns.map((breakdown) => ISSUE_BREAKDOWN_DEFINITIONS[breakdown].field);
+}
+
+function sortBreakdownValues(
+	breakdown: IssueBreakdown,
+	counts: Map<string, number>
+): Record<string, number> {
+	const { order } = ISSUE_BREAKDOWN_DEFINITIONS[breakdown];
+
+	const getRank = (value: string) => {
+		const index = order.indexOf(value);
+		return index === -1 ? order.length : index;
+	};
+
+	const entries = [...counts].sort(([a, aCount], [b, bCount]) => {
+		return getRank(a) - getRank(b) || bCount - aCount || a.localeCompare(b);
+	});
+
+	return Object.fromEntries(entries);
+}
+
+/**
+ * Breaks down issues of every component, issues with several components count for each of them.
+ * Issues have to be fetched with fields returned by `getIssueBreakdownFields`.
+ */
+export function getIssueBreakdownsByComponentId(opts: {
+	issues: readonly JiraIssue[];
+	breakdowns: readonly IssueBreakdown[];
+	now?: number;
+}): Map<string, IssueBreakdowns> {
+	const { issues, breakdowns, now = Date.now() } = opts;
+
+	const countsByComponentId = new Map<string, Map<IssueBreakdown, Map<string, number>>>();
+
+	for (const issue of issues) {
+		for (const component of issue.fields.components) {
+			const counts =
+				countsByComponentId.get(component.id) ??
+				new Map<IssueBreakdown, Map<string, number>>();
+
+			for (const breakdown of breakdowns) {
+				const value = ISSUE_BREAKDOWN_DEFINITIONS[breakdown].getValue(issue, now);
+				const valueCounts = counts.get(breakdown) ?? new Map<string, number>();
+
+				valueCounts.set(value, (valueCounts.get(value) ?? 0) + 1);
+				counts.set(breakdown, valueCounts);
+			}
+
+			countsByComponentId.set(component.id, counts);
+		}
+	}
+
+	const breakdownsByComponentId = new Map<string, IssueBreakdowns>();
+
+	for (const [componentId, counts] of countsByComponentId) {
+		const componentBreakdowns: IssueBreakdowns = {};
+
+		for (const [breakdown, valueCounts] of counts) {
+			componentBreakdowns[breakdown] = sortBreakdownValues(breakdown, valueCounts);
+		}
+
+		breakdownsByComponentId.set(componentId, componentBreakdowns);
+	}
+
+	return breakdownsByComponentId;
+}
+
+/**
+ * Returns labels of values of all issues, only for breakdowns with labels.
+ */
+export function getIssueBreakdownLabels(opts: {
+	issues: readonly JiraIssue[];
+	breakdowns: readonly IssueBreakdown[];
+}): IssueBreakdownLabels {
+	const { issues, breakdowns } = opts;
+	const labels: IssueBreakdownLabels = {};
+
+	for (const breakdown of breakdowns) {
+		const { getValue, getLabel } = ISSUE_BREAKDOWN_DEFINITIONS[breakdown];
+
+		if (getLabel) {
+			labels[breakdown] = Object.fromEntries(
+				issues.map((issue) => [getValue(issue, 0), getLabel(issue)])
+			);
+		}
+	}
+
+	return labels;
+}
+
+/**
+ * Returns label of a breakdown value, or the value itself.
+ */
+export function getIssueBreakdownLabel(
+	labels: IssueBreakdownLabels | undefined,
+	breakdown: IssueBreakdown,
+	value: string
+): string {
+	return labels?.[breakdown]?.[value] ?? value;
+}
+
+export function isIssueBreakdown(name: string): name is IssueBreakdown {
+	return (ISSUE_BREAKDOWNS as readonly string[]).includes(name);
+}
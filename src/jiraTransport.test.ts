@@ -0,0 +1,95 @@
+import { describe, expect, it } from "@jest/globals";
+import type {
+	JiraFetch,
+	JiraTransport,
+	JiraTransportRequest,
+	JiraTransportResponse
+} from "./jiraTransport";
+import { applyTransportMiddlewares, createFetchTransport } from "./jiraTransport";
+
+function createResponse(status: number): JiraTransportResponse {
+	return {
+		status: status,
+		statusText: "",
+		headers: { get: () => null },
+		// eslint-disable-next-line @typescript-eslint/require-await
+		json: async () => ({})
+	};
+}
+
+describe("jiraTransport", () => {
+	const request: JiraTransportRequest = {
+		url: "https://xxx.atlassian.net/rest/api/3/project/XYZ",
+		method: "GET",
+		headers: { Accept: "application/json" }
+	};
+
+	describe("createFetchTransport", () => {
+		it("should send requests with a given fetch", async () => {
+			expect.hasAssertions();
+
+			const calls: Parameters<JiraFetch>[] = [];
+			// eslint-disable-next-line @typescript-eslint/require-await
+			const fetch: JiraFetch = async (...args) => {
+				calls.push(args);
+				return createResponse(200);
+			};
+
+			const transport = createFetchTransport({ fetch });
+
+			await expect(transport(request)).resolves.toMatchObject({ status: 200 });
+			expect(calls).toStrictEqual([
+				[request.url, { method: request.method, headers: request.headers }]
+			]);
+		});
+	});
+
+	describe("applyTransportMiddlewares", () => {
+		it("should run middlewares in order", async () => {
+			expect.hasAssertions();
+
+			const events: string[] = [];
+			// eslint-disable-next-line @typescript-eslint/require-await
+			const transport: JiraTransport = async ({ headers }) => {
+				events.push(`send ${String(headers["X-Trace"])}`);
+				return createResponse(200);
+			};
+
+			const createMiddleware = (name: string) => {
+				return {
+					beforeRequest: (req: JiraTransportRequest) => {
+						events.push(`before ${name}`);
+						const trace = String(req.headers["X-Trace"]);
+						return { ...req, headers: { ...req.headers, "X-Trace": `${trace}${name}` } };
+					},
+					afterResponse: (res: JiraTransportResponse) => {
+						events.push(`after ${name}`);
+						return { ...res, status: res.status + 1 };
+					}
+				};
+			};
+
+			const wrappedTransport = applyTransportMiddlewares(transport, [
+				createMiddleware("a"),
+				{},
+				createMiddleware("b")
+			]);
+
+			await expect(
+				wrappedTransport({ ...request, headers: { "X-Trace": "" } })
+			).resolves.toMatchObject({ status: 202 });
+			expect(events).toStrictEqual([
+				"before a",
+				"before b",
+				"send ab",
+				"after a",
+				"after b"
+			]);
+		});
+
+		it("should return the transport itself without middlewares", () => {
+			const transport = createFetchTransport();
+			expect(applyTransportMiddlewares(transport, [])).toBe(transport);
+		});
+	});
+});
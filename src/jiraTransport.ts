@@ -0,0 +1,121 @@
+import type { Agent } from "node:http";
+import nodeFetch from "node-fetch";
+
+/* -------------------------------------------------------------------------- */
+/*                                    TYPES                                   */
+/* -------------------------------------------------------------------------- */
+
+export type JiraTransportRequest = {
+	url: string;
+	method: string;
+	headers: Record<string, string>;
+
+	/** JSON encoded body. */
+	body?: string | undefined;
+
+	/**
+	 * Agent of the connection (like a proxy tunnel), set by middlewares.
+	 */
+	agent?: Agent | undefined;
+
+	/**
+	 * Aborts the request (like on a timeout), set by middlewares.
+	 */
+	signal?: AbortSignal | undefined;
+};
+
+/**
+ * Subset of the fetch `Response` used by `JiraAPI`.
+ */
+export type JiraTransportResponse = {
+	status: number;
+	statusText: string;
+	headers: { get: (name: string) => string | null };
+	json: () => Promise<unknown>;
+};
+
+/**
+ * Sends requests of `JiraAPI`, which can be built with a different one
+ * (like a replay of recorded responses, see `createReplayTransport`).
+ */
+export type JiraTransport = (
+	request: JiraTransportRequest
+) => Promise<JiraTransportResponse>;
+
+/**
+ * A fetch implementation, `agent` is supported by `node-fetch` (but not by the native fetch).
+ */
+export type JiraFetch = (
+	url: string,
+	init: Omit<JiraTransportRequest, "url">
+) => Promise<JiraTransportResponse>;
+
+/**
+ * Hooks of a transport, middlewares are run in order:
+ * - `beforeRequest` - returns a request to send instead (like one with a proxy `agent`),
+ * - `afterResponse` - returns a response to use instead (or just looks at it, like a logger).
+ */
+export type JiraTransportMiddleware = {
+	beforeRequest?: (
+		request: JiraTransportRequest
+	) => JiraTransportRequest | Promise<JiraTransportRequest>;
+	afterResponse?: (
+		response: JiraTransportResponse,
+		request: JiraTransportRequest
+	) => JiraTransportResponse | Promise<JiraTransportResponse>;
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                 TRANSPORTS                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Creates a transport, which sends requests with a given fetch (defaults to `node-fetch`).
+ */
+export function createFetchTransport(opts: { fetch?: JiraFetch } = {}): JiraTransport {
+	const { fetch = nodeFetch } = opts;
+
+	return async (request) => {
+		const { url, ...init } = request;
+		return fetch(url, init);
+	};
+}
+
+/**
+ * Default transport, sends requests with `node-fetch`.
+ */
+export const fetchTransport = createFetchTransport();
+
+/**
+ * Wraps a transport with middlewares, see `JiraTransportMiddleware`.
+ */
+export function applyTransportMiddlewares(
+	transport: JiraTransport,
+	middlewares: readonly JiraTransportMiddleware[]
+): JiraTransport {
+	if (middlewares.length === 0) {
+		return transport;
+	}
+
+	return async (initialRequest) => {
+		let request = initialRequest;
+
+		for (const { beforeRequest } of middlewares) {
+			if (beforeRequest) {
+				// eslint-disable-next-line no-await-in-loop
+				request = await beforeRequest(request);
+			}
+		}
+
+		let response = await transport(request);
+
+		for (const { afterResponse } of middlewares) {
+			if (afterResponse) {
+				// eslint-disable-next-line no-await-in-loop
+				response = await afterResponse(response, request);
+			}
+		}
+
+		return response;
+	};
+}
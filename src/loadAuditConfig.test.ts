@@ -0,0 +1,149 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { ZodError } from "zod";
+import { findAuditConfigFile, loadAuditConfig } from "./loadAuditConfig";
+
+describe("loadAuditConfig", () => {
+	let tmpDir: string;
+
+	beforeEach(async () => {
+		tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "jira-audit-config-"));
+	});
+
+	afterEach(async () => {
+		await fs.rm(tmpDir, { recursive: true, force: true });
+	});
+
+	it("should return undefined when there is no config file", async () => {
+		expect.hasAssertions();
+
+		await expect(findAuditConfigFile(tmpDir)).resolves.toBeUndefined();
+		await expect(loadAuditConfig({ cwd: tmpDir })).resolves.toBeUndefined();
+		await expect(loadAuditConfig({ cwd: tmpDir, profile: "prod" })).rejects.toThrow(
+			TypeError
+		);
+	});
+
+	it("should find and load json config file", async () => {
+		expect.hasAssertions();
+
+		const config = {
+			baseUrl: "https://xxx.atlassian.net",
+			projects: ["ABC", "XYZ"],
+			rules: ["missing-lead"],
+			format: "json"
+		};
+
+		await fs.writeFile(
+			path.join(tmpDir, "jira-audit.config.json"),
+			JSON.stringify(config)
+		);
+
+		await expect(findAuditConfigFile(tmpDir)).resolves.toBe(
+			path.join(tmpDir, "jira-audit.config.json")
+		);
+		await expect(loadAuditConfig({ cwd: tmpDir })).resolves.toStrictEqual(config);
+	});
+
+	it("should load yaml config file with profiles", async () => {
+		expect.hasAssertions();
+
+		await fs.writeFile(
+			path.join(tmpDir, "audit.yaml"),
+			[
+				"baseUrl: https://xxx.atlassian.net",
+				"projects: all",
+				"output: reports/report.md",
+				"http:",
+				"  maxConcurrency: 2",
+				"notifications:",
+				"  template: templates/webhook.json",
+				"  onChange: true",
+				"check:",
+				"  maxComponents: 5",
+				"defaultProfile: staging",
+				"profiles:",
+				"  staging:",
+				"    baseUrl: https://staging.atlassian.net",
+				"  prod:",
+				"    projects: [ABC]",
+				"    auth:",
+				"      method: basic",
+				"      email: me@xxx.com",
+				"    http:",
+				"      retryMaxAttempts: 10",
+				"    notifications:",
+				"      countAbove: 3",
+				"    check:",
+				"      maxOpenIssues: 10"
+			].join("\n")
+		);
+
+		await expect(
+			loadAuditConfig({ cwd: tmpDir, configPath: "audit.yaml" })
+		).resolves.toStrictEqual({
+			baseUrl: "https://staging.atlassian.net",
+			projects: "all",
+			output: path.join(tmpDir, "reports", "report.md"),
+			http: { maxConcurrency: 2 },
+			notifications: {
+				template: path.join(tmpDir, "templates", "webhook.json"),
+				onChange: true
+			},
+			check: { maxComponents: 5 }
+		});
+
+		await expect(
+			loadAuditConfig({ cwd: tmpDir, configPath: "audit.yaml", profile: "prod" })
+		).resolves.toStrictEqual({
+			baseUrl: "https://xxx.atlassian.net",
+			projects: ["ABC"],
+			output: path.join(tmpDir, "reports", "report.md"),
+			auth: { method: "basic", email: "me@xxx.com" },
+			http: { maxConcurrency: 2, retryMaxAttempts: 10 },
+			notifications: {
+				template: path.join(tmpDir, "templates", "webhook.json"),
+				onChange: true,
+				countAbove: 3
+			},
+			check: { maxComponents: 5, maxOpenIssues: 10 }
+		});
+
+		await expect(
+			loadAuditConfig({ cwd: tmpDir, configPath: "audit.yaml", profile: "xyz" })
+		).rejects.toThrow("Unknown profile 'xyz', known profiles: staging, prod.");
+	});
+
+	it("should fail when config file is not valid", async () => {
+		expect.hasAssertions();
+
+		await fs.writeFile(
+			path.join(tmpDir, "jira-audit.config.yml"),
+			["baseUrl: not-url", "apiToken: secret"].join("\n")
+		);
+
+		await expect(loadAuditConfig({ cwd: tmpDir })).rejects.toThrow(ZodError);
+	});
+
+	it("should fail on unknown keys, like settings in a wrong block", async () => {
+		expect.hasAssertions();
+
+		await fs.writeFile(
+			path.join(tmpDir, "audit.yaml"),
+			["thresholds:", "  maxComponents: 5"].join("\n")
+		);
+		await expect(
+			loadAuditConfig({ cwd: tmpDir, configPath: "audit.yaml" })
+		).rejects.toThrow("Unrecognized key(s) in object: 'thresholds'");
+
+		await fs.writeFile(
+			path.join(tmpDir, "audit.yaml"),
+			["check:", "  maxConcurrency: 5"].join("\n")
+		);
+		await expect(
+			loadAuditConfig({ cwd: tmpDir, configPath: "audit.yaml" })
+		).rejects.toThrow("Unrecognized key(s) in object: 'maxConcurrency'");
+	});
+});
@@ -0,0 +1,241 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import YAML from "yaml";
+import z, { ZodError } from "zod";
+import { JIRA_API_FLAVORS, VALIDATION_MODES } from "./JiraAPI";
+import { CHECK_FORMATS } from "./checkThresholds";
+import { COMPONENT_HEALTH_RULE_NAMES } from "./componentHealthRules";
+import type { ComponentHealthRuleName } from "./componentHealthRules";
+import { ISSUE_COUNT_STRATEGIES } from "./countIssues";
+import { ISSUE_BREAKDOWNS } from "./issueBreakdowns";
+import { REPORT_FORMATS } from "./renderReport";
+
+/* -------------------------------------------------------------------------- */
+/*                                   SCHEMAS                                  */
+/* -------------------------------------------------------------------------- */
+
+export const AUDIT_CONFIG_FILE_NAMES = [
+	"jira-audit.config.json",
+	"jira-audit.config.yaml",
+	"jira-audit.config.yml"
+] as const;
+
+export type AuditConfigSettings = z.infer<typeof AuditConfigSettingsSchema>;
+
+/**
+ * NOTE:
+ * Config file is meant to be checked-in, so it intentionally can't hold any secrets.
+ * Tokens are still passed with CLI options, environment variables or a credentials file.
+ */
+export const AuditConfigSettingsSchema = z
+	.object({
+		baseUrl: z.string().url().optional(),
+		apiFlavor: z.enum(JIRA_API_FLAVORS).optional(),
+		projects: z
+			.union([z.literal("all"), z.string().min(1).array().nonempty()])
+			.optional(),
+		auth: z
+			.object({
+				method: z.enum(["anonymous", "basic", "bearer"]),
+				email: z.string().min(1).optional(),
+				credentialsFile: z.string().min(1).optional()
+			})
+			.strict()
+			.optional(),
+		rules: z
+			.enum(COMPONENT_HEALTH_RULE_NAMES as [ComponentHealthRuleName])
+			.array()
+			.optional(),
+		breakdowns: z.enum(ISSUE_BREAKDOWNS).array().optional(),
+		issueCount: z.enum(ISSUE_COUNT_STRATEGIES).optional(),
+		format: z.union([z.enum(REPORT_FORMATS), z.enum(CHECK_FORMATS)]).optional(),
+		output: z.string().min(1).optional(),
+		cache: z
+			.object({
+				directory: z.string().min(1),
+
+				/** In seconds. */
+				ttl: z.number().int().nonnegative().optional()
+			})
+			.strict()
+			.optional(),
+		validation: z.enum(VALIDATION_MODES).optional(),
+		snapshotFile: z.string().min(1).optional(),
+
+		/**
+		 * Sinks are not part of the config file, as their URLs hold secrets (see `--notify`).
+		 */
+		notifications: z
+			.object({
+				template: z.string().min(1).optional(),
+				onChange: z.boolean().optional(),
+				countAbove: z.number().int().nonnegative().optional()
+			})
+			.strict()
+			.optional(),
+		check: z
+			.object({
+				maxComponents: z.number().int().nonnegative().optional(),
+				maxOpenIssues: z.number().int().nonnegative().optional()
+			})
+			.strict()
+			.optional(),
+
+		/**
+		 * Limits of requests to Jira (thresholds of `check` are set in `check`).
+		 */
+		http: z
+			.object({
+				maxConcurrency: z.number().int().positive().optional(),
+				retryMaxAttempts: z.number().int().positive().optional(),
+				retryBaseDelay: z.number().int().nonnegative().optional(),
+				retryMaxDelay: z.number().int().nonnegative().optional(),
+				requestTimeout: z.number().int().nonnegative().optional(),
+				deadline: z.number().int().positive().optional()
+			})
+			.strict()
+			.optional()
+	})
+	.strict();
+
+export type AuditConfigFile = z.infer<typeof AuditConfigFileSchema>;
+
+export const AuditConfigFileSchema = AuditConfigSettingsSchema.extend({
+	defaultProfile: z.string().min(1).optional(),
+	profiles: z.record(AuditConfigSettingsSchema).optional()
+}).strict();
+
+/* -------------------------------------------------------------------------- */
+/*                                   LOADING                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Returns path of the first `jira-audit.config.(json|yaml|yml)` file found in `cwd`.
+ */
+export async function findAuditConfigFile(cwd: string): Promise<string | undefined> {
+	for (const fileName of AUDIT_CONFIG_FILE_NAMES) {
+		const filePath = path.resolve(cwd, fileName);
+
+		try {
+			// eslint-disable-next-line no-await-in-loop
+			await fs.access(filePath);
+			return filePath;
+		} catch {
+			/* File doesn't exist, or it is not accessible. */
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Profile settings override the top level settings (`http`, `auth`, `notifications`
+ * and `check` are merged).
+ * Relative paths are resolved against the directory of the config file.
+ */
+function resolveProfile(opts: {
+	configFile: AuditConfigFile;
+	configDir: string;
+	profile: string | undefined;
+}): AuditConfigSettings {
+	const { configFile, configDir, profile } = opts;
+	const { profiles = {}, defaultProfile, ...baseSettings } = configFile;
+
+	const profileName = profile ?? defaultProfile;
+	const profileSettings = profileName === undefined ? {} : profiles[profileName];
+
+	if (!profileSettings) {
+		const knownProfiles = Object.keys(profiles).join(", ") || "none";
+		throw new TypeError(
+			`Unknown profile '${String(profileName)}', known profiles: ${knownProfiles}.`
+		);
+	}
+
+	const settings: AuditConfigSettings = { ...baseSettings, ...profileSettings };
+
+	if (baseSettings.http ?? profileSettings.http) {
+		settings.http = { ...baseSettings.http, ...profileSettings.http };
+	}
+
+	if (baseSettings.auth && profileSettings.auth) {
+		settings.auth = { ...baseSettings.auth, ...profileSettings.auth };
+	}
+
+	if (baseSettings.notifications && profileSettings.notifications) {
+		settings.notifications = {
+			...baseSettings.notifications,
+			...profileSettings.notifications
+		};
+	}
+
+	if (baseSettings.check && profileSettings.check) {
+		settings.check = { ...baseSettings.check, ...profileSettings.check };
+	}
+
+	if (settings.notifications?.template !== undefined) {
+		settings.notifications = {
+			...settings.notifications,
+			template: path.resolve(configDir, settings.notifications.template)
+		};
+	}
+
+	if (settings.output !== undefined) {
+		settings.output = path.resolve(configDir, settings.output);
+	}
+
+	if (settings.snapshotFile !== undefined) {
+		settings.snapshotFile = path.resolve(configDir, settings.snapshotFile);
+	}
+
+	if (settings.cache !== undefined) {
+		settings.cache = {
+			...settings.cache,
+			directory: path.resolve(configDir, settings.cache.directory)
+		};
+	}
+
+	if (settings.auth?.credentialsFile !== undefined) {
+		settings.auth = {
+			...settings.auth,
+			credentialsFile: path.resolve(configDir, settings.auth.credentialsFile)
+		};
+	}
+
+	return settings;
+}
+
+/**
+ * Loads config file (given explicitly, or found in `cwd`), and returns settings of a given
+ * (or the default) profile. Returns `undefined` when there is no config file.
+ * @throws {ZodError | TypeError | Error}
+ */
+export async function loadAuditConfig(opts: {
+	configPath?: string | undefined;
+	cwd: string;
+	profile?: string | undefined;
+}): Promise<AuditConfigSettings | undefined> {
+	const { configPath, cwd, profile } = opts;
+
+	const filePath = configPath
+		? path.resolve(cwd, configPath)
+		: await findAuditConfigFile(cwd);
+
+	if (filePath === undefined) {
+		if (profile !== undefined) {
+			throw new TypeError(
+				`Profile '${profile}' was requested, but no config file was found.`
+			);
+		}
+
+		return undefined;
+	}
+
+	const text = await fs.readFile(filePath, "utf8");
+	const json: unknown = filePath.endsWith(".json") ? JSON.parse(text) : YAML.parse(text);
+
+	return resolveProfile({
+		configFile: AuditConfigFileSchema.parse(json),
+		configDir: path.dirname(filePath),
+		profile: profile
+	});
+}
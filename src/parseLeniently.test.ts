@@ -0,0 +1,66 @@
+import { describe, expect, it } from "@jest/globals";
+import z from "zod";
+import { parseLeniently } from "./parseLeniently";
+
+describe("parseLeniently", () => {
+	const schema = z.object({
+		total: z.number(),
+		values: z.object({ id: z.string(), tags: z.string().array() }).array()
+	});
+
+	it("should return valid data as it is", () => {
+		const json = { total: 1, values: [{ id: "1", tags: [] }] };
+
+		expect(parseLeniently(schema, json)).toStrictEqual({ data: json, skipped: [] });
+	});
+
+	it("should skip the outermost records containing mismatches", () => {
+		const json = {
+			total: 4,
+			values: [
+				{ id: "1", tags: ["a"] },
+				{ id: 2, tags: [] },
+				{ id: "3", tags: ["b", 1, 2] },
+				{ id: "4", tags: [] }
+			]
+		};
+
+		const result = parseLeniently(schema, json);
+
+		expect(result?.data).toStrictEqual({
+			total: 4,
+			values: [
+				{ id: "1", tags: ["a"] },
+				{ id: "4", tags: [] }
+			]
+		});
+		expect(result?.skipped).toStrictEqual([
+			{
+				path: ["values", 1],
+				record: { id: 2, tags: [] },
+				issues: [expect.objectContaining({ path: ["values", 1, "id"] })]
+			},
+			{
+				path: ["values", 2],
+				record: { id: "3", tags: ["b", 1, 2] },
+				issues: [
+					expect.objectContaining({ path: ["values", 2, "tags", 1] }),
+					expect.objectContaining({ path: ["values", 2, "tags", 2] })
+				]
+			}
+		]);
+		expect(json.values).toHaveLength(4);
+	});
+
+	it("should skip items of a list body", () => {
+		expect(parseLeniently(z.string().array(), ["a", 1, "b"])).toStrictEqual({
+			data: ["a", "b"],
+			skipped: [{ path: [1], record: 1, issues: [expect.any(Object)] }]
+		});
+	});
+
+	it("should not skip anything when a mismatch is not in a record", () => {
+		expect(parseLeniently(schema, { values: [{ id: 1, tags: [] }] })).toBeUndefined();
+		expect(parseLeniently(schema, { total: 0 })).toBeUndefined();
+	});
+});
@@ -0,0 +1,109 @@
+import type z from "zod";
+
+export type SkippedRecord = {
+	/** Path of the record, like `["issues", 3]` (or `[0]` of a list). */
+	path: (string | number)[];
+
+	/** Original (invalid) record. */
+	record: unknown;
+
+	/** Mismatches of the record, their paths are relative to the response body. */
+	issues: z.ZodIssue[];
+};
+
+export type LenientParseResult<T> = {
+	data: T;
+	skipped: SkippedRecord[];
+};
+
+const SKIPPED = Symbol("skipped");
+
+/**
+ * Returns a value of `json` at a given path, the path has to exist.
+ */
+function getValueAtPath(json: unknown, path: (string | number)[]): unknown {
+	let value = json;
+
+	for (const key of path) {
+		value = (value as Record<string | number, unknown>)[key];
+	}
+
+	return value;
+}
+
+/**
+ * Returns a copy of `json` without records of given paths.
+ */
+function omitRecords(json: unknown, recordPaths: (string | number)[][]): unknown {
+	const copy: unknown = JSON.parse(JSON.stringify(json));
+	const lists = new Set<unknown[]>();
+
+	for (const path of recordPaths) {
+		const list = getValueAtPath(copy, path.slice(0, -1)) as unknown[];
+
+		list[path.at(-1) as number] = SKIPPED;
+		lists.add(list);
+	}
+
+	for (const list of lists) {
+		const kept = list.filter((item) => item !== SKIPPED);
+		list.splice(0, list.length, ...kept);
+	}
+
+	return copy;
+}
+
+/**
+ * Validates `json` with `schema`, but skips records (items of lists, like components
+ * or issues of a page) which don't match it, instead of rejecting the whole body.
+ * A record is the outermost list item containing a mismatch.
+ *
+ * Returns `undefined` when a mismatch is not in a record (like a missing `total` of a page),
+ * or when the body still doesn't match without the skipped records.
+ */
+export function parseLeniently<T>(
+	schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+	json: unknown
+): LenientParseResult<T> | undefined {
+	const result = schema.safeParse(json);
+
+	if (result.success) {
+		return { data: result.data, skipped: [] };
+	}
+
+	const skippedByPath = new Map<string, SkippedRecord>();
+
+	for (const issue of result.error.issues) {
+		const indexPosition = issue.path.findIndex((key) => typeof key === "number");
+
+		if (indexPosition === -1) {
+			return undefined;
+		}
+
+		const path = issue.path.slice(0, indexPosition + 1);
+		const key = JSON.stringify(path);
+		const skippedRecord = skippedByPath.get(key);
+
+		if (skippedRecord) {
+			skippedRecord.issues.push(issue);
+		} else {
+			skippedByPath.set(key, {
+				path: path,
+				record: getValueAtPath(json, path),
+				issues: [issue]
+			});
+		}
+	}
+
+	const skipped = [...skippedByPath.values()];
+	const retriedResult = schema.safeParse(
+		omitRecords(
+			json,
+			skipped.map(({ path }) => path)
+		)
+	);
+
+	return retriedResult.success
+		? { data: retriedResult.data, skipped: skipped }
+		: undefined;
+}
@@ -0,0 +1,45 @@
+import { PassThrough } from "node:stream";
+import { describe, expect, it } from "@jest/globals";
+import { promptConfirmation } from "./promptConfirmation";
+
+async function answer(text: string): Promise<{ isConfirmed: boolean; output: string }> {
+	const input = new PassThrough();
+	const output = new PassThrough();
+
+	let outputText = "";
+	output.on("data", (chunk) => {
+		outputText += String(chunk);
+	});
+
+	const promise = promptConfirmation({
+		question: "Continue?",
+		input: input,
+		output: output
+	});
+	input.end(text);
+
+	return { isConfirmed: await promise, output: outputText };
+}
+
+describe("promptConfirmation", () => {
+	it("should ask a given question", async () => {
+		expect.hasAssertions();
+
+		await expect(answer("y\n")).resolves.toStrictEqual({
+			isConfirmed: true,
+			output: "Continue? (y/N) "
+		});
+	});
+
+	it.each(["y", "Y", "yes", " YES "])("should confirm with '%s'", async (text) => {
+		expect.hasAssertions();
+
+		await expect(answer(`${text}\n`)).resolves.toMatchObject({ isConfirmed: true });
+	});
+
+	it.each(["", "n", "no", "yep"])("should not confirm with '%s'", async (text) => {
+		expect.hasAssertions();
+
+		await expect(answer(`${text}\n`)).resolves.toMatchObject({ isConfirmed: false });
+	});
+});
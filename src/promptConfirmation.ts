@@ -0,0 +1,21 @@
+import readline from "node:readline/promises";
+
+/**
+ * Asks a yes/no question, anything but `y` or `yes` (case-insensitive) is a no.
+ */
+export async function promptConfirmation(opts: {
+	question: string;
+	input?: NodeJS.ReadableStream;
+	output?: NodeJS.WritableStream;
+}): Promise<boolean> {
+	const { question, input = process.stdin, output = process.stdout } = opts;
+
+	const rl = readline.createInterface({ input, output });
+
+	try {
+		const answer = await rl.question(`${question} (y/N) `);
+		return ["y", "yes"].includes(answer.trim().toLowerCase());
+	} finally {
+		rl.close();
+	}
+}
@@ -0,0 +1,175 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import fetchMock from "fetch-mock";
+import { JiraAPI, JiraNotFoundError } from "./JiraAPI";
+import ExampleGetComponentsResponse from "./__fixtures__/GetComponentsResponse.json";
+import { fetchTransport } from "./jiraTransport";
+import {
+	createRecordingTransport,
+	createReplayTransport,
+	loadRecordings,
+	sanitizeRecording
+} from "./recordReplay";
+import type { JiraCredentials } from "./resolveJiraCredentials";
+
+describe("recordReplay", () => {
+	const baseUrl = "https://xxx.atlassian.net";
+	const projectId = "XYZ";
+	const credentials: JiraCredentials = {
+		type: "basic",
+		email: "me@xxx.com",
+		apiToken: "secret-token"
+	};
+
+	let tmpDir: string;
+
+	beforeEach(async () => {
+		tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "jira-recordings-"));
+	});
+
+	afterEach(async () => {
+		fetchMock.restore();
+		await fs.rm(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("sanitizeRecording", () => {
+		it("should scrub credentials and emails", () => {
+			const recording = sanitizeRecording(
+				{
+					request: { method: "GET", url: "/rest/api/3/myself?token=secret-token" },
+					response: {
+						status: 200,
+						body: { emailAddress: "someone@xxx.com", note: "me@xxx.com" }
+					}
+				},
+				credentials
+			);
+
+			expect(recording).toStrictEqual({
+				request: { method: "GET", url: "/rest/api/3/myself?token=[REDACTED]" },
+				response: {
+					status: 200,
+					body: { emailAddress: "redacted@example.com", note: "redacted@example.com" }
+				}
+			});
+		});
+	});
+
+	describe("createRecordingTransport", () => {
+		it("should save successful responses and client errors as fixtures", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(`${baseUrl}/rest/api/3/project/${projectId}/components`, {
+				status: 200,
+				body: ExampleGetComponentsResponse
+			});
+			fetchMock.mock(`${baseUrl}/rest/api/3/project/${projectId}`, {
+				status: 404,
+				body: { errorMessages: [`No project could be found with key '${projectId}'.`] }
+			});
+
+			const api = new JiraAPI({
+				baseUrl: baseUrl,
+				credentials: credentials,
+				transport: createRecordingTransport({
+					transport: fetchTransport,
+					directory: tmpDir,
+					credentials: credentials
+				})
+			});
+
+			const components = await api.getComponents({ projectId });
+			await expect(api.getProject({ projectId })).rejects.toThrow(JiraNotFoundError);
+
+			await expect(loadRecordings(tmpDir)).resolves.toStrictEqual([
+				{
+					request: { method: "GET", url: `/rest/api/3/project/${projectId}` },
+					response: {
+						status: 404,
+						body: {
+							errorMessages: [`No project could be found with key '${projectId}'.`]
+						}
+					}
+				},
+				{
+					request: { method: "GET", url: `/rest/api/3/project/${projectId}/components` },
+					response: { status: 200, body: ExampleGetComponentsResponse }
+				}
+			]);
+			expect(components).toHaveLength(ExampleGetComponentsResponse.length);
+		});
+	});
+
+	describe("createReplayTransport", () => {
+		it("should answer with recorded responses of any Jira site", async () => {
+			expect.hasAssertions();
+
+			fetchMock.mock(`${baseUrl}/rest/api/3/project/${projectId}/components`, {
+				status: 200,
+				body: ExampleGetComponentsResponse
+			});
+
+			const recordingApi = new JiraAPI({
+				baseUrl: baseUrl,
+				transport: createRecordingTransport({
+					transport: fetchTransport,
+					directory: tmpDir,
+					credentials: credentials
+				})
+			});
+			const components = await recordingApi.getComponents({ projectId });
+
+			fetchMock.restore();
+
+			const api = new JiraAPI({
+				baseUrl: "https://yyy.atlassian.net",
+				transport: await createReplayTransport({ directory: tmpDir })
+			});
+
+			await expect(api.getComponents({ projectId })).resolves.toStrictEqual(components);
+			await expect(api.getProject({ projectId })).rejects.toThrow(
+				`No recorded response of GET /rest/api/3/project/${projectId} in ${tmpDir}.`
+			);
+			expect(fetchMock.called()).toBe(false);
+		});
+
+		it("should replay requests with emails and credentials in their query", async () => {
+			expect.hasAssertions();
+
+			const url = `${baseUrl}/rest/api/3/user/search?query=someone@xxx.com&token=secret-token`;
+
+			fetchMock.mock(`begin:${baseUrl}/rest/api/3/user/search`, {
+				status: 200,
+				body: [{ accountId: "1", emailAddress: "someone@xxx.com" }]
+			});
+
+			const recordingTransport = createRecordingTransport({
+				transport: fetchTransport,
+				directory: tmpDir,
+				credentials: credentials
+			});
+			await recordingTransport({ url: url, method: "GET", headers: {} });
+
+			fetchMock.restore();
+
+			const transport = await createReplayTransport({
+				directory: tmpDir,
+				credentials: credentials
+			});
+			const res = await transport({ url: url, method: "GET", headers: {} });
+
+			await expect(loadRecordings(tmpDir)).resolves.toMatchObject([
+				{
+					request: {
+						url: "/rest/api/3/user/search?query=redacted@example.com&token=[REDACTED]"
+					}
+				}
+			]);
+			await expect(res.json()).resolves.toStrictEqual([
+				{ accountId: "1", emailAddress: "redacted@example.com" }
+			]);
+		});
+	});
+});
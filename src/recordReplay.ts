@@ -0,0 +1,258 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import { STATUS_CODES } from "node:http";
+import path from "node:path";
+import z, { ZodError } from "zod";
+import type {
+	JiraTransport,
+	JiraTransportRequest,
+	JiraTransportResponse
+} from "./jiraTransport";
+import type { JiraCredentials } from "./resolveJiraCredentials";
+import { redactCredentials } from "./resolveJiraCredentials";
+import { isRetryableStatus } from "./retryPolicy";
+
+/* -------------------------------------------------------------------------- */
+/*                                    TYPES                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * A recorded request and its response, saved as a JSON file of its own.
+ * Origin is not recorded, so a recording made with one Jira site can be replayed with any other.
+ */
+export type RecordedResponse = z.infer<typeof RecordedResponseSchema>;
+
+export const RecordedResponseSchema = z.object({
+	request: z.object({
+		method: z.string(),
+
+		/** Path and query string, like `/rest/api/3/project/SP/components`. */
+		url: z.string(),
+		body: z.unknown().optional()
+	}),
+	response: z.object({
+		status: z.number(),
+		body: z.unknown()
+	})
+});
+
+/**
+ * Emails are replaced with a placeholder (instead of `[REDACTED]`), so they are still valid.
+ */
+const EMAIL_PLACEHOLDER = "redacted@example.com";
+
+const EMAIL_PATTERN = /[\w.%+-]+@[\w-]+\.[\w.-]+/gu;
+
+/* -------------------------------------------------------------------------- */
+/*                                  RECORDING                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Creates a response with an already parsed JSON body.
+ */
+function createJsonResponse(response: {
+	status: number;
+	statusText: string;
+	headers: JiraTransportResponse["headers"];
+	body: unknown;
+}): JiraTransportResponse {
+	const { status, statusText, headers, body } = response;
+
+	return {
+		status: status,
+		statusText: statusText,
+		headers: headers,
+		// eslint-disable-next-line @typescript-eslint/require-await
+		json: async () => body
+	};
+}
+
+/**
+ * Returns request key, which is the same for a recorded request and its replay.
+ */
+function getRequestKey(request: { method: string; url: string; body?: unknown }): string {
+	const { method, url, body } = request;
+	return JSON.stringify([method, url, body ?? null]);
+}
+
+function getPathAndQuery(url: string): string {
+	const { pathname, search } = new URL(url);
+	return `${pathname}${search}`;
+}
+
+/**
+ * Scrubs credentials (including the encoded `Authorization` header) and all emails of a JSON value.
+ */
+function sanitizeJson(value: unknown, credentials: JiraCredentials): unknown {
+	const text = JSON.stringify(value).replaceAll(EMAIL_PATTERN, EMAIL_PLACEHOLDER);
+	return JSON.parse(redactCredentials(text, credentials));
+}
+
+/**
+ * Scrubs a request the same way when it is recorded and when it is replayed,
+ * so that a request with an email (like in its query) still finds its recording.
+ */
+function sanitizeRequest(
+	request: RecordedResponse["request"],
+	credentials: JiraCredentials
+): RecordedResponse["request"] {
+	return RecordedResponseSchema.shape.request.parse(sanitizeJson(request, credentials));
+}
+
+/**
+ * Scrubs credentials (including the encoded `Authorization` header) and all emails.
+ */
+export function sanitizeRecording(
+	recording: RecordedResponse,
+	credentials: JiraCredentials
+): RecordedResponse {
+	const { request, response } = recording;
+
+	return {
+		request: sanitizeRequest(request, credentials),
+		response: RecordedResponseSchema.shape.response.parse(
+			sanitizeJson(response, credentials)
+		)
+	};
+}
+
+/**
+ * Client errors (like 404 of a missing project) are answered the same way again,
+ * so they are recorded too, unlike transient ones (429).
+ */
+function isRecordedStatus(status: number): boolean {
+	return status === 200 || (status >= 400 && status < 500 && !isRetryableStatus(status));
+}
+
+/**
+ * Wraps a transport, so that every successful (200) response and client error is saved
+ * as a sanitized fixture into `directory`, other responses are passed through without being recorded.
+ */
+export function createRecordingTransport(opts: {
+	transport: JiraTransport;
+	directory: string;
+	credentials: JiraCredentials;
+}): JiraTransport {
+	const { transport, directory, credentials } = opts;
+
+	return async (request) => {
+		const res = await transport(request);
+
+		if (!isRecordedStatus(res.status)) {
+			return res;
+		}
+
+		/*
+			Bodies of errors don't have to be JSON (like HTML pages of proxies).
+		*/
+		const body =
+			res.status === 200
+				? await res.json()
+				: await res.json().catch(() => {
+						// Recorded without a body.
+				  });
+
+		const recording = sanitizeRecording(
+			{
+				request: {
+					method: request.method,
+					url: getPathAndQuery(request.url),
+					...(request.body === undefined ? {} : { body: JSON.parse(request.body) })
+				},
+				response: { status: res.status, body: body }
+			},
+			credentials
+		);
+
+		const hash = createHash("sha256")
+			.update(getRequestKey(recording.request))
+			.digest("hex")
+			.slice(0, 8);
+		const slug = new URL(request.url).pathname.replaceAll(/\W+/gu, "-");
+		const fileName = `${request.method.toLowerCase()}${slug}-${hash}.json`;
+
+		await fs.mkdir(directory, { recursive: true });
+		await fs.writeFile(
+			path.join(directory, fileName),
+			`${JSON.stringify(recording, undefined, "\t")}\n`
+		);
+
+		return createJsonResponse({
+			status: res.status,
+			statusText: res.statusText,
+			headers: res.headers,
+			body: body
+		});
+	};
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  REPLAYING                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Loads all recordings of a directory (sorted by their file names).
+ * @throws {ZodError | Error}
+ */
+export async function loadRecordings(directory: string): Promise<RecordedResponse[]> {
+	const entries = await fs.readdir(directory);
+	const fileNames = entries.filter((fileName) => fileName.endsWith(".json")).sort();
+
+	return Promise.all(
+		fileNames.map(async (fileName) => {
+			const text = await fs.readFile(path.join(directory, fileName), "utf8");
+			return RecordedResponseSchema.parse(JSON.parse(text));
+		})
+	);
+}
+
+/**
+ * Creates a transport, which answers with responses recorded by `createRecordingTransport`
+ * (loaded from `directory` at once), so nothing is sent over the network.
+ * A request that was not recorded fails. Requests are sanitized like recorded ones
+ * (with the same `credentials`), before they are looked up.
+ * @throws {ZodError | Error}
+ */
+export async function createReplayTransport(opts: {
+	directory: string;
+	credentials?: JiraCredentials;
+}): Promise<JiraTransport> {
+	const { directory, credentials = { type: "anonymous" } } = opts;
+
+	const recordings = await loadRecordings(directory);
+	const recordingsByKey = new Map(
+		recordings.map((recording) => [getRequestKey(recording.request), recording])
+	);
+
+	// eslint-disable-next-line @typescript-eslint/require-await
+	return async (request: JiraTransportRequest): Promise<JiraTransportResponse> => {
+		const url = getPathAndQuery(request.url);
+		const recording = recordingsByKey.get(
+			getRequestKey(
+				sanitizeRequest(
+					{
+						method: request.method,
+						url: url,
+						...(request.body === undefined ? {} : { body: JSON.parse(request.body) })
+					},
+					credentials
+				)
+			)
+		);
+
+		if (!recording) {
+			throw new Error(
+				`No recorded response of ${request.method} ${url} in ${directory}.`
+			);
+		}
+
+		const { status, body } = recording.response;
+
+		return createJsonResponse({
+			status: status,
+			statusText: STATUS_CODES[status] ?? "",
+			headers: { get: () => null },
+			body: body
+		});
+	};
+}
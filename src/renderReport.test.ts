@@ -0,0 +1,269 @@
+import { describe, expect, it } from "@jest/globals";
+import type { Report } from "./renderReport";
+import { REPORT_FORMATS, renderReport } from "./renderReport";
+
+const REPORT: Report = {
+	baseUrl: "https://xxx.atlassian.net",
+	projects: [
+		{
+			projectId: "XYZ",
+			components: [
+				{ id: "10130", name: "Backend", issues: 1 },
+				{ id: "10128", name: 'Sync, "Import" | Export', issues: 12 }
+			]
+		}
+	]
+};
+
+const MULTI_PROJECT_REPORT: Report = {
+	baseUrl: "https://xxx.atlassian.net",
+	projects: [
+		{ projectId: "ABC", components: [{ id: "1", name: "Core", issues: 3 }] },
+		{ projectId: "XYZ", components: [] }
+	]
+};
+
+const RULES_REPORT: Report = {
+	baseUrl: "https://xxx.atlassian.net",
+	rules: ["missing-lead", "missing-description"],
+	projects: [
+		{
+			projectId: "XYZ",
+			components: [
+				{
+					id: "1",
+					name: "Core",
+					issues: 3,
+					findings: [
+						{
+							rule: "missing-description",
+							severity: "info",
+							message: "Component has no description."
+						},
+						{ rule: "missing-lead", severity: "error", message: "Component has no lead." }
+					]
+				}
+			]
+		}
+	]
+};
+
+const BREAKDOWNS_REPORT: Report = {
+	baseUrl: "https://xxx.atlassian.net",
+	breakdowns: ["status-category", "priority"],
+	projects: [
+		{
+			projectId: "XYZ",
+			components: [
+				{
+					id: "1",
+					name: "Core",
+					issues: 3,
+					breakdowns: {
+						"status-category": { new: 1, done: 2 },
+						"priority": { High: 3 }
+					},
+					breakdownLabels: { "status-category": { new: "To Do", done: "Done" } }
+				},
+				{
+					id: "2",
+					name: "Docs",
+					issues: 0,
+					breakdowns: { "status-category": {}, "priority": {} }
+				}
+			]
+		}
+	]
+};
+
+const EMPTY_REPORT: Report = { ...REPORT, projects: [] };
+
+describe("renderReport", () => {
+	it("should render text format", () => {
+		expect(renderReport({ report: REPORT, format: "text" })).toBe(
+			[
+				"Script detected 2 component(s) without a project lead:",
+				"",
+				"[ID: 10130] Backend with 1 issue(s)",
+				'[ID: 10128] Sync, "Import" | Export with 12 issue(s)'
+			].join("\n")
+		);
+
+		expect(
+			renderReport({
+				report: { ...REPORT, projects: [{ projectId: "XYZ", components: [] }] },
+				format: "text"
+			})
+		).toBe("Script didn't detect any components without a project lead :)");
+	});
+
+	it("should render json format with a stable schema", () => {
+		expect(JSON.parse(renderReport({ report: REPORT, format: "json" }))).toStrictEqual({
+			schemaVersion: 3,
+			baseUrl: "https://xxx.atlassian.net",
+			projects: [
+				{
+					projectId: "XYZ",
+					components: [
+						{ id: "10130", name: "Backend", issues: 1 },
+						{ id: "10128", name: 'Sync, "Import" | Export', issues: 12 }
+					]
+				}
+			]
+		});
+	});
+
+	it("should render csv format", () => {
+		expect(renderReport({ report: REPORT, format: "csv" })).toBe(
+			[
+				"project,id,name,issues",
+				"XYZ,10130,Backend,1",
+				'XYZ,10128,"Sync, ""Import"" | Export",12'
+			].join("\n")
+		);
+	});
+
+	it("should render markdown format", () => {
+		expect(renderReport({ report: REPORT, format: "markdown" })).toBe(
+			[
+				"## XYZ",
+				"",
+				"| ID | Name | Issues |",
+				"| --- | --- | ---: |",
+				"| 10130 | Backend | 1 |",
+				'| 10128 | Sync, "Import" \\| Export | 12 |'
+			].join("\n")
+		);
+	});
+
+	it("should render table format", () => {
+		expect(renderReport({ report: REPORT, format: "table" })).toBe(
+			[
+				"XYZ:",
+				"+-------+-------------------------+--------+",
+				"| ID    | Name                    | Issues |",
+				"+-------+-------------------------+--------+",
+				"| 10130 | Backend                 |      1 |",
+				'| 10128 | Sync, "Import" | Export |     12 |',
+				"+-------+-------------------------+--------+"
+			].join("\n")
+		);
+	});
+
+	it("should group components per project", () => {
+		expect(renderReport({ report: MULTI_PROJECT_REPORT, format: "text" })).toBe(
+			[
+				"Project ABC:",
+				"Script detected 1 component(s) without a project lead:",
+				"",
+				"[ID: 1] Core with 3 issue(s)",
+				"",
+				"Project XYZ:",
+				"Script didn't detect any components without a project lead :)"
+			].join("\n")
+		);
+
+		expect(renderReport({ report: MULTI_PROJECT_REPORT, format: "csv" })).toBe(
+			["project,id,name,issues", "ABC,1,Core,3"].join("\n")
+		);
+
+		expect(renderReport({ report: MULTI_PROJECT_REPORT, format: "markdown" })).toBe(
+			[
+				"## ABC",
+				"",
+				"| ID | Name | Issues |",
+				"| --- | --- | ---: |",
+				"| 1 | Core | 3 |",
+				"",
+				"## XYZ",
+				"",
+				"| ID | Name | Issues |",
+				"| --- | --- | ---: |"
+			].join("\n")
+		);
+	});
+
+	it("should render findings when rules are enabled", () => {
+		expect(renderReport({ report: RULES_REPORT, format: "text" })).toBe(
+			[
+				"Script detected 1 component(s) violating the rules (missing-lead, missing-description):",
+				"",
+				"[ID: 1] Core with 3 issue(s)",
+				"    info    missing-description: Component has no description.",
+				"    error   missing-lead: Component has no lead."
+			].join("\n")
+		);
+
+		expect(renderReport({ report: RULES_REPORT, format: "csv" })).toBe(
+			[
+				"project,id,name,issues,severity,findings",
+				"XYZ,1,Core,3,error,missing-description; missing-lead"
+			].join("\n")
+		);
+
+		expect(
+			JSON.parse(renderReport({ report: RULES_REPORT, format: "json" }))
+		).toStrictEqual({ schemaVersion: 3, ...RULES_REPORT });
+	});
+
+	it("should render enabled breakdowns as sub-rows or columns", () => {
+		expect(renderReport({ report: BREAKDOWNS_REPORT, format: "text" })).toBe(
+			[
+				"Script detected 2 component(s) without a project lead:",
+				"",
+				"[ID: 1] Core with 3 issue(s)",
+				"    Status category: To Do 1, Done 2",
+				"    Priority: High 3",
+				"[ID: 2] Docs with 0 issue(s)",
+				"    Status category: -",
+				"    Priority: -"
+			].join("\n")
+		);
+
+		expect(renderReport({ report: BREAKDOWNS_REPORT, format: "csv" })).toBe(
+			[
+				"project,id,name,issues,status-category,priority",
+				"XYZ,1,Core,3,To Do: 1; Done: 2,High: 3",
+				"XYZ,2,Docs,0,,"
+			].join("\n")
+		);
+
+		expect(
+			JSON.parse(renderReport({ report: BREAKDOWNS_REPORT, format: "json" }))
+		).toStrictEqual({ schemaVersion: 3, ...BREAKDOWNS_REPORT });
+	});
+
+	it("should render a self-contained html page", () => {
+		const html = renderReport({ report: MULTI_PROJECT_REPORT, format: "html" });
+
+		expect(html).toMatch(/^<!DOCTYPE html>\n/u);
+		expect(html).toContain(
+			'<li>• Jira base url: <a href="https://xxx.atlassian.net">https://xxx.atlassian.net</a></li>'
+		);
+		expect(html).toContain("<li>• Jira projects: ABC, XYZ</li>");
+		expect(html).toContain('<table class="sortable">');
+		expect(html).toContain(
+			'<td data-value="Core"><a href="https://xxx.atlassian.net/browse/ABC/component/1">Core</a></td>'
+		);
+		expect(html).toContain(
+			'<p class="empty">No components without a project lead :)</p>'
+		);
+		expect(html).not.toMatch(/<link|<script src|<img/u);
+	});
+
+	it("should escape html, and scale issue bars to the largest count", () => {
+		const html = renderReport({ report: REPORT, format: "html" });
+
+		expect(html).toContain("Sync, &quot;Import&quot; | Export");
+		expect(html).toContain(
+			'<td class="right" data-value="12"><span class="bar"><span style="width: 100%"></span></span>12</td>'
+		);
+		expect(html).toContain(
+			'<td class="right" data-value="1"><span class="bar"><span style="width: 8%"></span></span>1</td>'
+		);
+	});
+
+	it.each(REPORT_FORMATS)("should render '%s' format of an empty report", (format) => {
+		expect(() => renderReport({ report: EMPTY_REPORT, format: format })).not.toThrow();
+	});
+});
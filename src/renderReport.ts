@@ -0,0 +1,581 @@
+import chalk from "chalk";
+import type {
+	ComponentFinding,
+	ComponentHealthRuleName,
+	FindingSeverity
+} from "./componentHealthRules";
+import { compareFindingSeverity } from "./componentHealthRules";
+import type {
+	IssueBreakdown,
+	IssueBreakdownLabels,
+	IssueBreakdowns
+} from "./issueBreakdowns";
+import { getIssueBreakdownLabel } from "./issueBreakdowns";
+
+/* -------------------------------------------------------------------------- */
+/*                                    TYPES                                   */
+/* -------------------------------------------------------------------------- */
+
+export const REPORT_FORMATS = [
+	"text",
+	"json",
+	"csv",
+	"markdown",
+	"table",
+	"html"
+] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export type ReportComponent = {
+	id: string;
+	name: string;
+	issues: number;
+	findings?: ComponentFinding[];
+	breakdowns?: IssueBreakdowns;
+	breakdownLabels?: IssueBreakdownLabels;
+};
+
+export type ReportProject = { projectId: string; components: ReportComponent[] };
+
+export type Report = {
+	baseUrl: string;
+	projects: ReportProject[];
+
+	/**
+	 * Explicitly enabled health rules. When set, findings of every component are reported too,
+	 * otherwise report lists just components without a lead.
+	 */
+	rules?: ComponentHealthRuleName[] | undefined;
+
+	/**
+	 * Enabled issue breakdowns, reported as sub-rows (`text`) or extra columns (other formats).
+	 */
+	breakdowns?: IssueBreakdown[] | undefined;
+};
+
+/**
+ * Schema of the `json` format, `schemaVersion` is bumped on every breaking change:
+ * - `1` - single project (`projectId` and `components` at the top level),
+ * - `2` - components grouped per project,
+ * - `3` - status categories keyed by their keys (like `done`), their names are in `breakdownLabels`.
+ *
+ * Optional fields (like `rules`, `findings` and `breakdowns`) can be added without a version bump.
+ */
+export type JsonReport = {
+	schemaVersion: 3;
+	baseUrl: string;
+	rules?: ComponentHealthRuleName[];
+	breakdowns?: IssueBreakdown[];
+	projects: ReportProject[];
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                   COLUMNS                                  */
+/* -------------------------------------------------------------------------- */
+
+type Column = {
+	key: string;
+	title: string;
+	align: "left" | "right";
+	value: (component: ReportComponent) => string | number;
+};
+
+function getHighestSeverity(findings: ComponentFinding[]): FindingSeverity | undefined {
+	const severities = findings.map(({ severity }) => severity);
+	return severities.sort(compareFindingSeverity)[0];
+}
+
+const ISSUE_BREAKDOWN_TITLES: Record<IssueBreakdown, string> = {
+	"status-category": "Status category",
+	"issue-type": "Issue type",
+	"priority": "Priority",
+	"age": "Last updated"
+};
+
+function formatBreakdown(component: ReportComponent, breakdown: IssueBreakdown): string {
+	const { breakdowns = {}, breakdownLabels } = component;
+
+	return Object.entries(breakdowns[breakdown] ?? {})
+		.map(([value, count]) => {
+			return `${getIssueBreakdownLabel(breakdownLabels, breakdown, value)}: ${count}`;
+		})
+		.join("; ");
+}
+
+function getColumns(report: Report): Column[] {
+	const columns: Column[] = [
+		{ key: "id", title: "ID", align: "left", value: ({ id }) => id },
+		{ key: "name", title: "Name", align: "left", value: ({ name }) => name },
+		{ key: "issues", title: "Issues", align: "right", value: ({ issues }) => issues }
+	];
+
+	if (report.rules) {
+		columns.push(
+			{
+				key: "severity",
+				title: "Severity",
+				align: "left",
+				value: ({ findings = [] }) => getHighestSeverity(findings) ?? ""
+			},
+			{
+				key: "findings",
+				title: "Findings",
+				align: "left",
+				value: ({ findings = [] }) => findings.map(({ rule }) => rule).join("; ")
+			}
+		);
+	}
+
+	for (const breakdown of report.breakdowns ?? []) {
+		columns.push({
+			key: breakdown,
+			title: ISSUE_BREAKDOWN_TITLES[breakdown],
+			align: "left",
+			value: (component) => formatBreakdown(component, breakdown)
+		});
+	}
+
+	return columns;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  RENDERERS                                 */
+/* -------------------------------------------------------------------------- */
+
+function renderTextFinding(finding: ComponentFinding, c: chalk.Chalk): string {
+	const { rule, severity, message } = finding;
+
+	const color = { error: c.red, warning: c.yellow, info: c.blue }[severity];
+
+	return `    ${color(`${severity.padEnd(7)} ${rule}:`)} ${message}`;
+}
+
+function renderTextBreakdown(
+	breakdown: IssueBreakdown,
+	component: ReportComponent,
+	c: chalk.Chalk
+): string {
+	const { breakdowns = {}, breakdownLabels } = component;
+
+	const values = Object.entries(breakdowns[breakdown] ?? {}).map(([value, count]) => {
+		return `${getIssueBreakdownLabel(breakdownLabels, breakdown, value)} ${c.bold(
+			count
+		)}`;
+	});
+
+	return `    ${c.gray(`${ISSUE_BREAKDOWN_TITLES[breakdown]}:`)} ${
+		values.join(", ") || "-"
+	}`;
+}
+
+function renderTextProject(
+	project: ReportProject,
+	report: Report,
+	c: chalk.Chalk
+): string {
+	const { components } = project;
+	const { rules, breakdowns = [] } = report;
+
+	const problem = rules
+		? `violating the rules (${rules.join(", ")})`
+		: "without a project lead";
+
+	if (components.length === 0) {
+		return c.green(`Script didn't detect any components ${problem} :)`);
+	}
+
+	return [
+		c.yellow(`Script detected ${c.bold(components.length)} component(s) ${problem}:`),
+		"",
+		...components.flatMap((component) => {
+			const { id, name, issues, findings = [] } = component;
+
+			return [
+				[
+					c.gray(`[ID: ${id}]`),
+					c.bold(name),
+					c.magenta(`with ${c.bold(issues)} issue(s)`)
+				].join(" "),
+				...(rules ? findings.map((finding) => renderTextFinding(finding, c)) : []),
+				...breakdowns.map((breakdown) => {
+					return renderTextBreakdown(breakdown, component, c);
+				})
+			];
+		})
+	].join("\n");
+}
+
+/**
+ * Single project report is not grouped, as project is already listed in the run metadata.
+ */
+function renderText(report: Report, colors: boolean): string {
+	const { projects } = report;
+	const c = new chalk.Instance({ level: colors ? chalk.level : 0 });
+
+	const [firstProject] = projects;
+	if (projects.length === 1 && firstProject) {
+		return renderTextProject(firstProject, report, c);
+	}
+
+	return projects
+		.map((project) => {
+			return [
+				c.cyan.bold(`Project ${project.projectId}:`),
+				renderTextProject(project, report, c)
+			].join("\n");
+		})
+		.join("\n\n");
+}
+
+function renderJson(report: Report): string {
+	const { baseUrl, projects, rules, breakdowns } = report;
+
+	const jsonReport: JsonReport = {
+		schemaVersion: 3,
+		baseUrl: baseUrl,
+		...(rules ? { rules } : {}),
+		...(breakdowns ? { breakdowns } : {}),
+		projects: projects.map(({ projectId, components }) => {
+			return {
+				projectId: projectId,
+				components: components.map(
+					({ id, name, issues, findings = [], ...component }) => {
+						return {
+							id,
+							name,
+							issues,
+							...(rules ? { findings } : {}),
+							...(breakdowns ? { breakdowns: component.breakdowns ?? {} } : {}),
+							...(breakdowns && component.breakdownLabels
+								? { breakdownLabels: component.breakdownLabels }
+								: {})
+						};
+					}
+				)
+			};
+		})
+	};
+
+	return JSON.stringify(jsonReport, null, 2);
+}
+
+function escapeCsvValue(value: string | number): string {
+	const text = String(value);
+	return /[",\r\n]/u.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+function renderCsv(report: Report): string {
+	const columns = getColumns(report);
+
+	const rows = [
+		["project", ...columns.map(({ key }) => key)],
+		...report.projects.flatMap(({ projectId, components }) => {
+			return components.map((component) => {
+				return [projectId, ...columns.map(({ value }) => value(component))];
+			});
+		})
+	];
+
+	return rows
+		.map((row) => row.map((value) => escapeCsvValue(value)).join(","))
+		.join("\n");
+}
+
+function escapeMarkdownValue(value: string | number): string {
+	return String(value).replaceAll("|", "\\|").replaceAll(/\r?\n/gu, " ");
+}
+
+function renderMarkdownProject(project: ReportProject, columns: Column[]): string {
+	const rows = [
+		columns.map(({ title }) => title),
+		columns.map(({ align }) => (align === "right" ? "---:" : "---")),
+		...project.components.map((component) => {
+			return columns.map(({ value }) => escapeMarkdownValue(value(component)));
+		})
+	];
+
+	return [
+		`## ${escapeMarkdownValue(project.projectId)}`,
+		"",
+		...rows.map((row) => `| ${row.join(" | ")} |`)
+	].join("\n");
+}
+
+function renderMarkdown(report: Report): string {
+	const columns = getColumns(report);
+
+	return report.projects
+		.map((project) => renderMarkdownProject(project, columns))
+		.join("\n\n");
+}
+
+function renderTableProject(project: ReportProject, columns: Column[]): string {
+	const rows = [
+		columns.map(({ title }) => title),
+		...project.components.map((component) => {
+			return columns.map(({ value }) => String(value(component)));
+		})
+	];
+
+	const widths = columns.map((column, index) => {
+		return Math.max(...rows.map((row) => row[index]?.length ?? 0));
+	});
+
+	const renderRow = (row: string[]) => {
+		const cells = row.map((cell, index) => {
+			const width = widths[index] ?? 0;
+			return columns[index]?.align === "right"
+				? cell.padStart(width)
+				: cell.padEnd(width);
+		});
+
+		return `| ${cells.join(" | ")} |`;
+	};
+
+	const separator = `+-${widths.map((width) => "-".repeat(width)).join("-+-")}-+`;
+	const [header = [], ...body] = rows;
+
+	return [
+		`${project.projectId}:`,
+		separator,
+		renderRow(header),
+		separator,
+		...body.map((row) => renderRow(row)),
+		separator
+	].join("\n");
+}
+
+function renderTable(report: Report): string {
+	const columns = getColumns(report);
+
+	return report.projects
+		.map((project) => renderTableProject(project, columns))
+		.join("\n\n");
+}
+
+function escapeHtml(value: string | number): string {
+	return String(value)
+		.replaceAll("&", "&amp;")
+		.replaceAll("<", "&lt;")
+		.replaceAll(">", "&gt;")
+		.replaceAll('"', "&quot;")
+		.replaceAll("'", "&#39;");
+}
+
+/**
+ * Link to a component in Jira, which works on both Cloud and Data Center / Server.
+ */
+export function getComponentUrl(
+	baseUrl: string,
+	projectId: string,
+	componentId: string
+): string {
+	return `${baseUrl}/browse/${encodeURIComponent(
+		projectId
+	)}/component/${encodeURIComponent(componentId)}`;
+}
+
+const HTML_STYLE = `
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #172b4d; }
+h1 { font-size: 1.5rem; }
+h2 { font-size: 1.2rem; margin-top: 2rem; }
+.metadata { list-style: none; padding: 0; color: #5e6c84; }
+table { border-collapse: collapse; min-width: 40rem; }
+th, td { padding: 0.4rem 0.8rem; border-bottom: 1px solid #dfe1e6; text-align: left; }
+th { cursor: pointer; user-select: none; background: #f4f5f7; }
+th[aria-sort="ascending"]::after { content: " \\25B2"; }
+th[aria-sort="descending"]::after { content: " \\25BC"; }
+td.right { text-align: right; }
+.bar { display: inline-block; width: 8rem; height: 0.6rem; margin-right: 0.5rem; background: #ebecf0; }
+.bar span { display: block; height: 100%; background: #de350b; }
+.empty { color: #00875a; }
+`;
+
+/**
+ * Sorts a table by a clicked column, by `data-value` of its cells (numbers as numbers).
+ */
+const HTML_SCRIPT = `
+for (const table of document.querySelectorAll("table.sortable")) {
+  const headers = [...table.tHead.rows[0].cells];
+  headers.forEach((header, index) => {
+    header.addEventListener("click", () => {
+      const ascending = header.getAttribute("aria-sort") !== "ascending";
+      const isNumeric = header.dataset.type === "number";
+      const getValue = (row) => row.cells[index].dataset.value;
+      const rows = [...table.tBodies[0].rows].sort((a, b) => {
+        const order = isNumeric
+          ? Number(getValue(a)) - Number(getValue(b))
+          : getValue(a).localeCompare(getValue(b));
+        return ascending ? order : -order;
+      });
+      for (const otherHeader of headers) otherHeader.removeAttribute("aria-sort");
+      header.setAttribute("aria-sort", ascending ? "ascending" : "descending");
+      table.tBodies[0].append(...rows);
+    });
+  });
+}
+`;
+
+function renderHtmlCell(opts: {
+	column: Column;
+	component: ReportComponent;
+	report: Report;
+	projectId: string;
+	maxIssues: number;
+}): string {
+	const { column, component, report, projectId, maxIssues } = opts;
+
+	const value = column.value(component);
+	const dataValue = `data-value="${escapeHtml(value)}"`;
+
+	if (column.key === "name") {
+		const url = getComponentUrl(report.baseUrl, projectId, component.id);
+		return `<td ${dataValue}><a href="${escapeHtml(url)}">${escapeHtml(value)}</a></td>`;
+	}
+
+	if (column.key === "issues") {
+		const width = maxIssues > 0 ? Math.round((component.issues / maxIssues) * 100) : 0;
+		return `<td class="right" ${dataValue}><span class="bar"><span style="width: ${width}%"></span></span>${escapeHtml(
+			value
+		)}</td>`;
+	}
+
+	return `<td${
+		column.align === "right" ? ' class="right"' : ""
+	} ${dataValue}>${escapeHtml(value)}</td>`;
+}
+
+function renderHtmlProject(
+	project: ReportProject,
+	report: Report,
+	columns: Column[],
+	maxIssues: number
+): string {
+	const { projectId, components } = project;
+
+	const heading = `<h2>Project ${escapeHtml(projectId)} (${
+		components.length
+	} component(s))</h2>`;
+
+	if (components.length === 0) {
+		const problem = report.rules ? "violating the rules" : "without a project lead";
+		return [heading, `<p class="empty">No components ${problem} :)</p>`].join("\n");
+	}
+
+	const headers = columns.map(({ title, key }) => {
+		const type = key === "issues" ? "number" : "text";
+		return `<th data-type="${type}">${escapeHtml(title)}</th>`;
+	});
+
+	const rows = components.map((component) => {
+		const cells = columns.map((column) => {
+			return renderHtmlCell({ column, component, report, projectId, maxIssues });
+		});
+
+		return `<tr>${cells.join("")}</tr>`;
+	});
+
+	return [
+		heading,
+		'<table class="sortable">',
+		`<thead><tr>${headers.join("")}</tr></thead>`,
+		"<tbody>",
+		...rows,
+		"</tbody>",
+		"</table>"
+	].join("\n");
+}
+
+/**
+ * A single self-contained page (styles and sorting of tables are inlined),
+ * with the run metadata, and a table per project.
+ */
+function renderHtml(report: Report): string {
+	const { baseUrl, projects, rules, breakdowns } = report;
+	const columns = getColumns(report);
+
+	const maxIssues = Math.max(
+		0,
+		...projects.flatMap(({ components }) => components.map(({ issues }) => issues))
+	);
+
+	const title = rules
+		? `Jira components violating the rules (${rules.join(", ")})`
+		: "Jira components without a project lead";
+
+	const projectIds = projects.map(({ projectId }) => projectId).join(", ");
+
+	const metadata = [
+		`<li>• Jira base url: <a href="${escapeHtml(baseUrl)}">${escapeHtml(
+			baseUrl
+		)}</a></li>`,
+		`<li>• Jira ${projects.length === 1 ? "project" : "projects"}: ${escapeHtml(
+			projectIds
+		)}</li>`,
+		...(breakdowns && breakdowns.length > 0
+			? [`<li>• Issue breakdowns: ${escapeHtml(breakdowns.join(", "))}</li>`]
+			: [])
+	];
+
+	return [
+		"<!DOCTYPE html>",
+		'<html lang="en">',
+		"<head>",
+		'<meta charset="utf-8">',
+		'<meta name="viewport" content="width=device-width, initial-scale=1">',
+		`<title>${escapeHtml(title)}</title>`,
+		`<style>${HTML_STYLE}</style>`,
+		"</head>",
+		"<body>",
+		`<h1>${escapeHtml(title)}</h1>`,
+		'<ul class="metadata">',
+		...metadata,
+		"</ul>",
+		...projects.map((project) => renderHtmlProject(project, report, columns, maxIssues)),
+		`<script>${HTML_SCRIPT}</script>`,
+		"</body>",
+		"</html>"
+	].join("\n");
+}
+
+export function isReportFormat(name: string): name is ReportFormat {
+	return (REPORT_FORMATS as readonly string[]).includes(name);
+}
+
+/**
+ * Renders a report of components without a lead (or with findings of the enabled health rules),
+ * grouped per project, in a given format. Only `text` format is (optionally) colored,
+ * `html` is meant for people (as a file), the rest is meant for machines.
+ */
+export function renderReport(opts: {
+	report: Report;
+	format: ReportFormat;
+	colors?: boolean;
+}): string {
+	const { report, format, colors = false } = opts;
+
+	switch (format) {
+		case "text": {
+			return renderText(report, colors);
+		}
+		case "json": {
+			return renderJson(report);
+		}
+		case "csv": {
+			return renderCsv(report);
+		}
+		case "markdown": {
+			return renderMarkdown(report);
+		}
+		case "table": {
+			return renderTable(report);
+		}
+		case "html": {
+			return renderHtml(report);
+		}
+		default: {
+			throw new TypeError(`Unknown report format '${String(format)}'.`);
+		}
+	}
+}
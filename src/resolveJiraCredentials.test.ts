@@ -0,0 +1,160 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import { ZodError } from "zod";
+import {
+	createAuthorizationHeader,
+	redactCredentials,
+	resolveJiraCredentials
+} from "./resolveJiraCredentials";
+
+describe("resolveJiraCredentials", () => {
+	let tmpDir: string;
+	let credentialsFile: string;
+	let invalidCredentialsFile: string;
+
+	beforeAll(async () => {
+		tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "jira-credentials-"));
+		credentialsFile = path.join(tmpDir, "credentials.json");
+		invalidCredentialsFile = path.join(tmpDir, "invalid.json");
+
+		await fs.writeFile(
+			credentialsFile,
+			JSON.stringify({ email: "file@xxx.com", apiToken: "file-token" })
+		);
+		await fs.writeFile(invalidCredentialsFile, JSON.stringify({ password: "xyz" }));
+	});
+
+	afterAll(async () => {
+		await fs.rm(tmpDir, { recursive: true, force: true });
+	});
+
+	it("should default to anonymous credentials", async () => {
+		expect.hasAssertions();
+
+		await expect(resolveJiraCredentials({ options: {}, env: {} })).resolves.toStrictEqual(
+			{
+				type: "anonymous"
+			}
+		);
+	});
+
+	it("should prefer options over environment variables over credentials file", async () => {
+		expect.hasAssertions();
+
+		await expect(
+			resolveJiraCredentials({
+				options: { jiraEmail: "options@xxx.com", jiraCredentialsFile: credentialsFile },
+				env: { JIRA_API_TOKEN: "env-token" }
+			})
+		).resolves.toStrictEqual({
+			type: "basic",
+			email: "options@xxx.com",
+			apiToken: "env-token"
+		});
+	});
+
+	it("should read credentials file from environment variable", async () => {
+		expect.hasAssertions();
+
+		await expect(
+			resolveJiraCredentials({
+				options: {},
+				env: { JIRA_CREDENTIALS_FILE: credentialsFile }
+			})
+		).resolves.toStrictEqual({
+			type: "basic",
+			email: "file@xxx.com",
+			apiToken: "file-token"
+		});
+	});
+
+	it("should resolve personal access token", async () => {
+		expect.hasAssertions();
+
+		await expect(
+			resolveJiraCredentials({
+				options: {},
+				env: { JIRA_PERSONAL_ACCESS_TOKEN: "pat" }
+			})
+		).resolves.toStrictEqual({ type: "bearer", personalAccessToken: "pat" });
+	});
+
+	it("should fail when credentials are incomplete or ambiguous", async () => {
+		expect.hasAssertions();
+
+		await expect(
+			resolveJiraCredentials({ options: { jiraEmail: "me@xxx.com" }, env: {} })
+		).rejects.toThrow(TypeError);
+
+		await expect(
+			resolveJiraCredentials({
+				options: { jiraPersonalAccessToken: "pat" },
+				env: { JIRA_CREDENTIALS_FILE: credentialsFile }
+			})
+		).rejects.toThrow(TypeError);
+	});
+
+	it("should skip empty values, and fail when the rest is incomplete", async () => {
+		expect.hasAssertions();
+
+		await expect(
+			resolveJiraCredentials({
+				options: { jiraCredentialsFile: credentialsFile },
+				env: { JIRA_EMAIL: "", JIRA_API_TOKEN: "env-token" }
+			})
+		).resolves.toStrictEqual({
+			type: "basic",
+			email: "file@xxx.com",
+			apiToken: "env-token"
+		});
+
+		await expect(
+			resolveJiraCredentials({
+				options: {},
+				env: { JIRA_EMAIL: "", JIRA_API_TOKEN: "env-token" }
+			})
+		).rejects.toThrow("Basic authentication requires both an email and an API token.");
+	});
+
+	it("should fail when credentials file is not valid", async () => {
+		expect.hasAssertions();
+
+		await expect(
+			resolveJiraCredentials({
+				options: { jiraCredentialsFile: invalidCredentialsFile },
+				env: {}
+			})
+		).rejects.toThrow(ZodError);
+	});
+});
+
+describe("createAuthorizationHeader", () => {
+	it("should create header matching the credentials type", () => {
+		expect(createAuthorizationHeader({ type: "anonymous" })).toBeUndefined();
+		expect(
+			createAuthorizationHeader({ type: "basic", email: "a@b.c", apiToken: "token" })
+		).toBe(`Basic ${Buffer.from("a@b.c:token").toString("base64")}`);
+		expect(
+			createAuthorizationHeader({ type: "bearer", personalAccessToken: "pat" })
+		).toBe("Bearer pat");
+	});
+});
+
+describe("redactCredentials", () => {
+	it("should redact tokens, emails and encoded authorization headers", () => {
+		const credentials = { type: "basic", email: "a@b.c", apiToken: "token" } as const;
+		const encoded = Buffer.from("a@b.c:token").toString("base64");
+
+		expect(
+			redactCredentials(`user a@b.c used token, header: Basic ${encoded}`, credentials)
+		).toBe("user [REDACTED] used [REDACTED], header: Basic [REDACTED]");
+	});
+
+	it("should not modify text for anonymous credentials", () => {
+		expect(redactCredentials("nothing to hide", { type: "anonymous" })).toBe(
+			"nothing to hide"
+		);
+	});
+});
@@ -0,0 +1,149 @@
+import fs from "node:fs/promises";
+import z, { ZodError } from "zod";
+
+/* -------------------------------------------------------------------------- */
+/*                                    TYPES                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Credentials used to authenticate `JiraAPI` requests:
+ * - `anonymous` - no `Authorization` header (public sites only),
+ * - `basic` - Jira Cloud email + API token,
+ * - `bearer` - Jira Data Center / Server Personal Access Token.
+ */
+export type JiraCredentials =
+	| { type: "anonymous" }
+	| { type: "basic"; email: string; apiToken: string }
+	| { type: "bearer"; personalAccessToken: string };
+
+export type JiraCredentialsOptions = {
+	jiraEmail?: string | undefined;
+	jiraApiToken?: string | undefined;
+	jiraPersonalAccessToken?: string | undefined;
+	jiraCredentialsFile?: string | undefined;
+};
+
+export type JiraCredentialsFile = z.infer<typeof JiraCredentialsFileSchema>;
+
+export const JiraCredentialsFileSchema = z
+	.object({
+		email: z.string().min(1).optional(),
+		apiToken: z.string().min(1).optional(),
+		personalAccessToken: z.string().min(1).optional()
+	})
+	.strict();
+
+/* -------------------------------------------------------------------------- */
+/*                                  RESOLVING                                 */
+/* -------------------------------------------------------------------------- */
+
+async function readCredentialsFile(filePath: string): Promise<JiraCredentialsFile> {
+	const text = await fs.readFile(filePath, "utf8");
+	const json: unknown = JSON.parse(text);
+
+	return JiraCredentialsFileSchema.parse(json);
+}
+
+/**
+ * Returns the first value, which is set. Empty values (like `JIRA_EMAIL=""`) are not set.
+ */
+function getFirstValue(...values: (string | undefined)[]): string | undefined {
+	return values.find((value) => value !== undefined && value !== "");
+}
+
+/**
+ * Resolves credentials field by field, in the following order of precedence:
+ * 1. CLI options (`--jira-email`, `--jira-api-token`, `--jira-personal-access-token`),
+ * 2. environment variables (`JIRA_EMAIL`, `JIRA_API_TOKEN`, `JIRA_PERSONAL_ACCESS_TOKEN`),
+ * 3. JSON credentials file (`--jira-credentials-file` or `JIRA_CREDENTIALS_FILE`).
+ * @throws {TypeError | ZodError | Error}
+ */
+export async function resolveJiraCredentials(opts: {
+	options: JiraCredentialsOptions;
+	env?: NodeJS.ProcessEnv;
+}): Promise<JiraCredentials> {
+	const { options, env = process.env } = opts;
+
+	const credentialsFilePath = getFirstValue(
+		options.jiraCredentialsFile,
+		env.JIRA_CREDENTIALS_FILE
+	);
+	const file = credentialsFilePath ? await readCredentialsFile(credentialsFilePath) : {};
+
+	const email = getFirstValue(options.jiraEmail, env.JIRA_EMAIL, file.email);
+	const apiToken = getFirstValue(options.jiraApiToken, env.JIRA_API_TOKEN, file.apiToken);
+	const personalAccessToken = getFirstValue(
+		options.jiraPersonalAccessToken,
+		env.JIRA_PERSONAL_ACCESS_TOKEN,
+		file.personalAccessToken
+	);
+
+	if (personalAccessToken) {
+		if (email ?? apiToken) {
+			throw new TypeError(
+				`Credentials are ambiguous, use either a personal access token or an email with an API token.`
+			);
+		}
+
+		return { type: "bearer", personalAccessToken: personalAccessToken };
+	}
+
+	if (email ?? apiToken) {
+		if (!email || !apiToken) {
+			throw new TypeError(
+				`Basic authentication requires both an email and an API token.`
+			);
+		}
+
+		return { type: "basic", email: email, apiToken: apiToken };
+	}
+
+	return { type: "anonymous" };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   HELPERS                                  */
+/* -------------------------------------------------------------------------- */
+
+export function createAuthorizationHeader(
+	credentials: JiraCredentials
+): string | undefined {
+	if (credentials.type === "basic") {
+		const { email, apiToken } = credentials;
+		return `Basic ${Buffer.from(`${email}:${apiToken}`).toString("base64")}`;
+	}
+
+	if (credentials.type === "bearer") {
+		return `Bearer ${credentials.personalAccessToken}`;
+	}
+
+	return undefined;
+}
+
+/**
+ * Replaces every secret (including the encoded `Authorization` header) found in `text`.
+ * Emails are not secret, but they are redacted too, as they shouldn't end up in CI logs.
+ */
+export function redactCredentials(text: string, credentials: JiraCredentials): string {
+	const secrets: string[] = [];
+
+	if (credentials.type === "basic") {
+		secrets.push(credentials.apiToken, credentials.email);
+	}
+
+	if (credentials.type === "bearer") {
+		secrets.push(credentials.personalAccessToken);
+	}
+
+	const authorizationHeader = createAuthorizationHeader(credentials);
+	if (authorizationHeader) {
+		secrets.unshift(authorizationHeader.replace(/^\w+ /u, ""));
+	}
+
+	let redactedText = text;
+	for (const secret of secrets) {
+		redactedText = redactedText.replaceAll(secret, "[REDACTED]");
+	}
+
+	return redactedText;
+}
@@ -0,0 +1,115 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import type { CachedResponse } from "./responseCache";
+import {
+	createResponseCache,
+	createResponseCacheKey,
+	isCachedResponseFresh
+} from "./responseCache";
+
+describe("responseCache", () => {
+	const response: CachedResponse = {
+		url: "https://xxx.atlassian.net/rest/api/3/project/XYZ",
+		storedAt: 1_000_000,
+		etag: '"abc"',
+		body: { id: "1", key: "XYZ", name: "Project XYZ" }
+	};
+
+	describe("createResponseCacheKey", () => {
+		const request = { identity: "Basic abc", method: "GET", url: response.url };
+
+		it("should be the same for the same request", () => {
+			expect(createResponseCacheKey(request)).toBe(
+				createResponseCacheKey({ ...request })
+			);
+		});
+
+		it("should differ for different identities, methods, URLs and bodies", () => {
+			const keys = new Set([
+				createResponseCacheKey(request),
+				createResponseCacheKey({ ...request, identity: "anonymous" }),
+				createResponseCacheKey({ ...request, method: "POST" }),
+				createResponseCacheKey({ ...request, url: `${response.url}/components` }),
+				createResponseCacheKey({ ...request, body: { jql: "project = XYZ" } })
+			]);
+
+			expect(keys.size).toBe(5);
+		});
+
+		it("should not contain the identity", () => {
+			expect(createResponseCacheKey(request)).toMatch(/^[\da-f]{64}$/u);
+		});
+	});
+
+	describe("isCachedResponseFresh", () => {
+		it("should be fresh only until the TTL elapses", () => {
+			const ttlMs = 1000;
+
+			expect(
+				isCachedResponseFresh({ response: response, ttlMs: ttlMs, now: 1_000_999 })
+			).toBe(true);
+			expect(
+				isCachedResponseFresh({ response: response, ttlMs: ttlMs, now: 1_001_000 })
+			).toBe(false);
+		});
+	});
+
+	describe("createResponseCache", () => {
+		let tmpDir: string;
+
+		beforeEach(async () => {
+			tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "jira-response-cache-"));
+		});
+
+		afterEach(async () => {
+			await fs.rm(tmpDir, { recursive: true, force: true });
+		});
+
+		it("should throw an error if ttlMs is not a non-negative safe integer", () => {
+			expect(() => {
+				createResponseCache({ directory: tmpDir, ttlMs: -1 });
+			}).toThrow(TypeError);
+		});
+
+		it("should return stored responses", async () => {
+			expect.hasAssertions();
+
+			const cache = createResponseCache({
+				directory: path.join(tmpDir, "cache"),
+				ttlMs: 0
+			});
+			await cache.set("key", response);
+
+			await expect(cache.get("key")).resolves.toStrictEqual(response);
+			await expect(cache.get("other-key")).resolves.toBeUndefined();
+		});
+
+		it("should store concurrent responses of the same key", async () => {
+			expect.hasAssertions();
+
+			const cache = createResponseCache({ directory: tmpDir, ttlMs: 0 });
+			const responses = Array.from(Array.from({ length: 20 }).keys(), (index) => {
+				return { ...response, storedAt: index };
+			});
+
+			await expect(
+				Promise.all(responses.map(async (value) => cache.set("key", value)))
+			).resolves.toHaveLength(20);
+			await expect(cache.get("key")).resolves.toMatchObject({ url: response.url });
+			await expect(fs.readdir(tmpDir)).resolves.toStrictEqual(["key.json"]);
+		});
+
+		it("should treat corrupted files as missing", async () => {
+			expect.hasAssertions();
+
+			const cache = createResponseCache({ directory: tmpDir, ttlMs: 0 });
+			await fs.writeFile(path.join(tmpDir, "key.json"), "{");
+			await fs.writeFile(path.join(tmpDir, "other-key.json"), JSON.stringify({}));
+
+			await expect(cache.get("key")).resolves.toBeUndefined();
+			await expect(cache.get("other-key")).resolves.toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,111 @@
+import { createHash, randomUUID } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import z from "zod";
+
+/* -------------------------------------------------------------------------- */
+/*                                    TYPES                                   */
+/* -------------------------------------------------------------------------- */
+
+export type CachedResponse = z.infer<typeof CachedResponseSchema>;
+
+export const CachedResponseSchema = z.object({
+	/** Not used for lookups, it just makes cache files easier to inspect. */
+	url: z.string(),
+
+	/** Unix timestamp (in ms) of the last time the response was fetched or revalidated. */
+	storedAt: z.number(),
+	etag: z.string().optional(),
+	lastModified: z.string().optional(),
+	body: z.unknown()
+});
+
+export type ResponseCache = {
+	/**
+	 * Time (in ms) after which a cached response has to be revalidated with Jira.
+	 */
+	readonly ttlMs: number;
+
+	/**
+	 * Returns `undefined` when there is no (readable) cached response.
+	 */
+	get: (key: string) => Promise<CachedResponse | undefined>;
+	set: (key: string, response: CachedResponse) => Promise<void>;
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                    CACHE                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Creates a key of a request, `identity` (like the `Authorization` header) keeps responses
+ * seen by different users apart. Only a hash of it is ever stored.
+ */
+export function createResponseCacheKey(request: {
+	identity: string;
+	method: string;
+	url: string;
+	body?: unknown;
+}): string {
+	const { identity, method, url, body } = request;
+
+	return createHash("sha256")
+		.update(JSON.stringify([identity, method, url, body ?? null]))
+		.digest("hex");
+}
+
+export function isCachedResponseFresh(opts: {
+	response: CachedResponse;
+	ttlMs: number;
+	now?: number;
+}): boolean {
+	const { response, ttlMs, now = Date.now() } = opts;
+	return now - response.storedAt < ttlMs;
+}
+
+/**
+ * Creates a cache that keeps every response in a JSON file of its own (named by its key).
+ * Files are readable only by the current user, as responses may hold private data.
+ * Unreadable or corrupted files are treated as missing.
+ */
+export function createResponseCache(opts: {
+	directory: string;
+	ttlMs: number;
+}): ResponseCache {
+	const { directory, ttlMs } = opts;
+
+	if (!Number.isSafeInteger(ttlMs) || ttlMs < 0) {
+		throw new TypeError(`Option 'ttlMs' needs to be a non-negative safe integer.`);
+	}
+
+	const getFilePath = (key: string) => path.join(directory, `${key}.json`);
+
+	return {
+		ttlMs: ttlMs,
+		get: async (key) => {
+			let json: unknown = null;
+
+			try {
+				json = JSON.parse(await fs.readFile(getFilePath(key), "utf8"));
+			} catch {
+				/* File doesn't exist, or it is not a valid JSON. */
+			}
+
+			const result = CachedResponseSchema.safeParse(json);
+			return result.success ? result.data : undefined;
+		},
+		set: async (key, response) => {
+			await fs.mkdir(directory, { recursive: true, mode: 0o700 });
+
+			/*
+				Written atomically, so that concurrent runs never read a partially written file.
+				Every write has its own temporary file, the same key may be written concurrently.
+			*/
+			const filePath = getFilePath(key);
+			const tmpFilePath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+
+			await fs.writeFile(tmpFilePath, JSON.stringify(response), { mode: 0o600 });
+			await fs.rename(tmpFilePath, filePath);
+		}
+	};
+}
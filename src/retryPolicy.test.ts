@@ -0,0 +1,89 @@
+import { describe, expect, it } from "@jest/globals";
+import { Headers } from "node-fetch";
+import {
+	DEFAULT_RETRY_POLICY,
+	getRequestedRetryDelay,
+	getRetryDelay,
+	isRetryableStatus
+} from "./retryPolicy";
+
+describe("isRetryableStatus", () => {
+	it("should treat only rate limiting and server errors as retryable", () => {
+		expect(isRetryableStatus(429)).toBe(true);
+		expect(isRetryableStatus(500)).toBe(true);
+		expect(isRetryableStatus(503)).toBe(true);
+		expect(isRetryableStatus(501)).toBe(false);
+		expect(isRetryableStatus(400)).toBe(false);
+		expect(isRetryableStatus(401)).toBe(false);
+		expect(isRetryableStatus(404)).toBe(false);
+	});
+});
+
+describe("getRequestedRetryDelay", () => {
+	const now = Date.parse("2023-06-01T12:00:00.000Z");
+
+	it("should read 'Retry-After' header in seconds", () => {
+		const headers = new Headers({ "Retry-After": "5" });
+		expect(getRequestedRetryDelay({ headers, now })).toBe(5000);
+	});
+
+	it("should read 'Retry-After' header as HTTP date", () => {
+		const headers = new Headers({ "Retry-After": "Thu, 01 Jun 2023 12:00:10 GMT" });
+		expect(getRequestedRetryDelay({ headers, now })).toBe(10_000);
+	});
+
+	it("should read 'X-RateLimit-Reset' header when rate limit is exhausted", () => {
+		const headers = new Headers({
+			"X-RateLimit-Remaining": "0",
+			"X-RateLimit-Reset": "2023-06-01T12:00:03.000Z"
+		});
+		expect(getRequestedRetryDelay({ headers, now })).toBe(3000);
+	});
+
+	it("should ignore 'X-RateLimit-Reset' header when rate limit is not exhausted", () => {
+		const headers = new Headers({
+			"X-RateLimit-Remaining": "10",
+			"X-RateLimit-Reset": "2023-06-01T12:00:03.000Z"
+		});
+		expect(getRequestedRetryDelay({ headers, now })).toBeUndefined();
+	});
+
+	it("should ignore missing or invalid headers", () => {
+		expect(getRequestedRetryDelay({ headers: new Headers(), now: now })).toBeUndefined();
+		expect(
+			getRequestedRetryDelay({
+				headers: new Headers({ "Retry-After": "soon" }),
+				now: now
+			})
+		).toBeUndefined();
+	});
+});
+
+describe("getRetryDelay", () => {
+	const policy = { maxAttempts: 4, baseDelayMs: 100, maxDelayMs: 300 };
+
+	it("should grow exponentially up to max delay", () => {
+		const random = () => 0.999_999;
+
+		expect(getRetryDelay({ policy: policy, attempt: 1, random: random })).toBe(100);
+		expect(getRetryDelay({ policy: policy, attempt: 2, random: random })).toBe(200);
+		expect(getRetryDelay({ policy: policy, attempt: 3, random: random })).toBe(300);
+	});
+
+	it("should apply jitter", () => {
+		expect(getRetryDelay({ policy: policy, attempt: 2, random: () => 0.5 })).toBe(100);
+		expect(getRetryDelay({ policy: policy, attempt: 2, random: () => 0 })).toBe(0);
+	});
+
+	it("should stop after max attempts", () => {
+		expect(getRetryDelay({ policy: policy, attempt: 4 })).toBeUndefined();
+		expect(getRetryDelay({ policy: DEFAULT_RETRY_POLICY, attempt: 5 })).toBeUndefined();
+	});
+
+	it("should respect delay requested by Jira unless it exceeds max delay", () => {
+		expect(getRetryDelay({ policy: policy, attempt: 1, requestedDelay: 250 })).toBe(250);
+		expect(
+			getRetryDelay({ policy: policy, attempt: 1, requestedDelay: 1000 })
+		).toBeUndefined();
+	});
+});
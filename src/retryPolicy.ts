@@ -0,0 +1,101 @@
+export type RetryPolicy = Readonly<{
+	/**
+	 * Maximum number of attempts per request (including the first one), `1` disables retries.
+	 */
+	maxAttempts: number;
+
+	/**
+	 * Base of the exponential backoff, delay before attempt `n + 1` is randomly picked
+	 * from `[0, baseDelayMs * 2 ^ (n - 1)]` range ("full jitter").
+	 */
+	baseDelayMs: number;
+
+	/**
+	 * Upper limit for the backoff delay. When Jira asks (with `Retry-After` or `X-RateLimit-Reset`
+	 * headers) to wait longer than that, request is not retried at all.
+	 */
+	maxDelayMs: number;
+}>;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxAttempts: 5,
+	baseDelayMs: 500,
+	maxDelayMs: 60_000
+};
+
+/**
+ * Rate limiting (429) and server side errors (5xx except 501 Not Implemented) are transient.
+ */
+export function isRetryableStatus(status: number): boolean {
+	return status === 429 || (status >= 500 && status !== 501);
+}
+
+/**
+ * Returns delay (in ms) requested by Jira with either:
+ * - `Retry-After` header (delay in seconds or an HTTP date),
+ * - `X-RateLimit-Reset` header (ISO 8601 timestamp), when `X-RateLimit-Remaining` is `0`.
+ * @see https://developer.atlassian.com/cloud/jira/platform/rate-limiting/
+ */
+export function getRequestedRetryDelay(opts: {
+	headers: { get: (name: string) => string | null };
+	now?: number;
+}): number | undefined {
+	const { headers, now = Date.now() } = opts;
+
+	const retryAfter = headers.get("Retry-After")?.trim();
+	if (retryAfter) {
+		const seconds = Number(retryAfter);
+		if (Number.isFinite(seconds)) {
+			return Math.max(0, seconds * 1000);
+		}
+
+		const date = Date.parse(retryAfter);
+		if (!Number.isNaN(date)) {
+			return Math.max(0, date - now);
+		}
+	}
+
+	const rateLimitRemaining = headers.get("X-RateLimit-Remaining")?.trim();
+	const rateLimitReset = headers.get("X-RateLimit-Reset")?.trim();
+	if (rateLimitRemaining === "0" && rateLimitReset) {
+		const date = Date.parse(rateLimitReset);
+		if (!Number.isNaN(date)) {
+			return Math.max(0, date - now);
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Returns delay (in ms) before the next attempt, or `undefined` when request shouldn't be retried.
+ */
+export function getRetryDelay(opts: {
+	policy: RetryPolicy;
+
+	/** Number of the attempt that has just failed (starting from `1`). */
+	attempt: number;
+
+	/** Delay requested by Jira, see `getRequestedRetryDelay`. */
+	requestedDelay?: number | undefined;
+
+	/** Source of jitter, returns number in `[0, 1)` range. */
+	random?: () => number;
+}): number | undefined {
+	const { policy, attempt, requestedDelay, random = Math.random } = opts;
+
+	if (attempt >= policy.maxAttempts) {
+		return undefined;
+	}
+
+	if (requestedDelay !== undefined) {
+		return requestedDelay <= policy.maxDelayMs ? requestedDelay : undefined;
+	}
+
+	const exponentialDelay = Math.min(
+		policy.maxDelayMs,
+		policy.baseDelayMs * 2 ** (attempt - 1)
+	);
+
+	return Math.round(random() * exponentialDelay);
+}
@@ -0,0 +1,249 @@
+import { once } from "node:events";
+import net from "node:net";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "@jest/globals";
+import { SmtpError, formatMailMessage, sendMail } from "./smtpClient";
+import type { MailMessage } from "./smtpClient";
+
+describe("smtpClient", () => {
+	const message: MailMessage = {
+		from: "jira@example.com",
+		to: ["a@example.com", "b@example.com"],
+		subject: "Jira audit: 2 component(s) without a project lead",
+		text: "Backend\nFrontend"
+	};
+
+	let server: net.Server | undefined;
+
+	/** Connections accepted by the server, closed after every test (the server waits for them). */
+	const sockets = new Set<net.Socket>();
+
+	afterEach(async () => {
+		for (const socket of sockets) {
+			socket.destroy();
+		}
+		sockets.clear();
+
+		const closedServer = server;
+		server = undefined;
+
+		const closed = closedServer && once(closedServer, "close");
+		closedServer?.close();
+		await closed;
+	});
+
+	const trackConnections = (trackedServer: net.Server) => {
+		trackedServer.on("connection", (socket: net.Socket) => {
+			sockets.add(socket);
+		});
+	};
+
+	/**
+	 * Starts a local SMTP server, which accepts everything except rejected commands,
+	 * and records received commands and messages.
+	 */
+	const listen = async (opts: { rejectedCommand?: string } = {}) => {
+		const { rejectedCommand } = opts;
+		const commands: string[] = [];
+		const messages: string[] = [];
+
+		server = net.createServer((socket) => {
+			let buffer = "";
+			let isData = false;
+
+			socket.write("220 mock ESMTP\r\n");
+			socket.on("data", (chunk) => {
+				buffer += chunk.toString("utf8");
+
+				let lineEnd = buffer.indexOf(isData ? "\r\n.\r\n" : "\r\n");
+				while (lineEnd !== -1) {
+					if (isData) {
+						messages.push(buffer.slice(0, lineEnd));
+						buffer = buffer.slice(lineEnd + 5);
+						isData = false;
+						socket.write("250 queued\r\n");
+					} else {
+						const command = buffer.slice(0, lineEnd);
+						const [verb = ""] = command.split(/[ :]/u);
+						buffer = buffer.slice(lineEnd + 2);
+						commands.push(command);
+
+						const reply =
+							verb === rejectedCommand
+								? "550 rejected"
+								: {
+										EHLO: "250-mock\r\n250 AUTH PLAIN",
+										AUTH: "235 authenticated",
+										DATA: "354 go ahead",
+										QUIT: "221 bye"
+								  }[verb] ?? "250 ok";
+
+						isData = verb === "DATA" && verb !== rejectedCommand;
+						socket.write(`${reply}\r\n`);
+					}
+
+					lineEnd = buffer.indexOf(isData ? "\r\n.\r\n" : "\r\n");
+				}
+			});
+		});
+
+		trackConnections(server);
+		server.listen(0, "127.0.0.1");
+		await once(server, "listening");
+
+		const { port } = server.address() as AddressInfo;
+		return { port, commands, messages };
+	};
+
+	it("should send a message to every recipient", async () => {
+		expect.hasAssertions();
+
+		const { port, commands, messages } = await listen();
+
+		await sendMail({
+			server: {
+				host: "127.0.0.1",
+				port: port,
+				secure: false,
+				username: "bot",
+				password: "p@ss"
+			},
+			message: message
+		});
+
+		expect(commands).toStrictEqual([
+			expect.stringMatching(/^EHLO /u),
+			`AUTH PLAIN ${Buffer.from("\0bot\0p@ss").toString("base64")}`,
+			"MAIL FROM:<jira@example.com>",
+			"RCPT TO:<a@example.com>",
+			"RCPT TO:<b@example.com>",
+			"DATA",
+			"QUIT"
+		]);
+		expect(messages).toHaveLength(1);
+		expect(messages[0]).toContain("To: a@example.com, b@example.com");
+		expect(messages[0]).toContain(`Subject: ${message.subject}`);
+	});
+
+	it("should fail when the server rejects a command", async () => {
+		expect.hasAssertions();
+
+		const { port } = await listen({ rejectedCommand: "RCPT" });
+
+		const promise = sendMail({
+			server: { host: "127.0.0.1", port: port, secure: false },
+			message: message
+		});
+
+		await expect(promise).rejects.toThrow(SmtpError);
+		await expect(promise).rejects.toThrow("SMTP server replied 550: rejected");
+	});
+
+	it("should fail when the server can't be reached", async () => {
+		expect.hasAssertions();
+
+		const { port } = await listen();
+		server?.close();
+
+		await expect(
+			sendMail({
+				server: { host: "127.0.0.1", port: port, secure: false },
+				message: message
+			})
+		).rejects.toThrow(`SMTP connection to 127.0.0.1:${port} failed`);
+	});
+
+	describe("connecting", () => {
+		/**
+		 * Starts a server, which accepts connections, but never completes a TLS handshake.
+		 * Returns its port, and the first accepted connection.
+		 */
+		const listenSilently = async () => {
+			const silentServer = net.createServer();
+			const connection = once(silentServer, "connection") as Promise<[net.Socket]>;
+			server = silentServer;
+			trackConnections(silentServer);
+
+			silentServer.listen(0, "127.0.0.1");
+			await once(silentServer, "listening");
+
+			const { port } = silentServer.address() as AddressInfo;
+			return { port, connection };
+		};
+
+		it("should time out, when the connection isn't established", async () => {
+			expect.hasAssertions();
+
+			const { port } = await listenSilently();
+
+			await expect(
+				sendMail({
+					server: { host: "127.0.0.1", port: port, secure: true },
+					message: message,
+					timeoutMs: 50
+				})
+			).rejects.toThrow(`SMTP connection to 127.0.0.1:${port} failed: timed out (50 ms)`);
+		});
+
+		it("should close the connection, when it is aborted", async () => {
+			expect.hasAssertions();
+
+			const { port, connection } = await listenSilently();
+			const controller = new AbortController();
+
+			const promise = sendMail({
+				server: { host: "127.0.0.1", port: port, secure: true },
+				message: message,
+				signal: controller.signal
+			});
+
+			const [socket] = await connection;
+			const closed = once(socket, "close");
+			controller.abort();
+
+			await expect(promise).rejects.toThrow(
+				`SMTP connection to 127.0.0.1:${port} failed: the connection was aborted`
+			);
+			await expect(closed).resolves.toBeDefined();
+		});
+	});
+
+	it("should reject line breaks in headers", async () => {
+		expect.hasAssertions();
+
+		await expect(
+			sendMail({
+				server: { host: "127.0.0.1", port: 25, secure: false },
+				message: { ...message, subject: "Report\r\nBcc: someone@example.com" }
+			})
+		).rejects.toThrow("Mail header 'subject' can't contain line breaks.");
+		expect(() =>
+			formatMailMessage({ ...message, to: ["a@example.com\nBcc: someone@example.com"] })
+		).toThrow("Mail header 'to' can't contain line breaks.");
+	});
+
+	describe("formatMailMessage", () => {
+		it("should encode non-ASCII subjects, and the body", () => {
+			const formatted = formatMailMessage(
+				{ ...message, subject: "Komponenty bez vedoucího", text: "Příliš žluťoučký kůň" },
+				new Date("2024-05-01T12:00:00Z")
+			);
+
+			expect(formatted).toBe(
+				[
+					"From: jira@example.com",
+					"To: a@example.com, b@example.com",
+					`Subject: =?UTF-8?B?${Buffer.from("Komponenty bez vedoucího").toString(
+						"base64"
+					)}?=`,
+					"Date: Wed, 01 May 2024 12:00:00 GMT",
+					"MIME-Version: 1.0",
+					"Content-Type: text/plain; charset=utf-8",
+					"Content-Transfer-Encoding: base64",
+					"",
+					Buffer.from("Příliš žluťoučký kůň").toString("base64")
+				].join("\r\n")
+			);
+		});
+	});
+});
@@ -0,0 +1,379 @@
+import net from "node:net";
+import os from "node:os";
+import tls from "node:tls";
+
+/* -------------------------------------------------------------------------- */
+/*                                    TYPES                                   */
+/* -------------------------------------------------------------------------- */
+
+export type SmtpServer = {
+	host: string;
+	port: number;
+
+	/**
+	 * Connects over TLS right away (`smtps`, usually port 465). Otherwise the connection is
+	 * upgraded with `STARTTLS`, when the server supports it.
+	 */
+	secure: boolean;
+
+	username?: string | undefined;
+	password?: string | undefined;
+};
+
+export type MailMessage = {
+	from: string;
+	to: string[];
+	subject: string;
+
+	/** Plain text body. */
+	text: string;
+};
+
+type SmtpReply = { code: number; lines: string[] };
+
+/**
+ * Thrown when the server rejects a command (`code` is the SMTP reply code),
+ * or when the connection fails, times out, or is closed too early.
+ */
+export class SmtpError extends Error {
+	readonly code: number | undefined;
+
+	constructor({ code, message }: { code?: number | undefined; message: string }) {
+		super(message);
+		this.code = code;
+		this.name = "SmtpError";
+	}
+}
+
+/**
+ * Default timeout (in ms) of an SMTP connection, while waiting for the server.
+ */
+const DEFAULT_SMTP_TIMEOUT = 30_000;
+
+/* -------------------------------------------------------------------------- */
+/*                                 CONNECTION                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Opens a connection (a TLS one for `secure` servers), the socket is destroyed,
+ * when it isn't connected within `timeoutMs`, or when `signal` is aborted.
+ */
+async function connect(
+	server: SmtpServer,
+	opts: { timeoutMs: number; signal?: AbortSignal | undefined }
+): Promise<net.Socket> {
+	const { host, port, secure } = server;
+	const { timeoutMs, signal } = opts;
+
+	return new Promise((resolve, reject) => {
+		const socket = secure
+			? tls.connect({ host: host, port: port, servername: host })
+			: net.connect({ host, port });
+
+		const fail = (error: Error) => {
+			socket.destroy();
+			reject(error);
+		};
+
+		const abort = () => {
+			fail(new Error("the connection was aborted"));
+		};
+
+		socket.setTimeout(timeoutMs, () => {
+			fail(new Error(`timed out (${timeoutMs} ms)`));
+		});
+		socket.once("close", () => {
+			signal?.removeEventListener("abort", abort);
+		});
+		socket.once(secure ? "secureConnect" : "connect", () => {
+			socket.off("error", fail);
+			socket.setTimeout(0);
+			signal?.removeEventListener("abort", abort);
+			resolve(socket);
+		});
+		socket.once("error", fail);
+		signal?.addEventListener("abort", abort, { once: true });
+	});
+}
+
+async function upgradeToTls(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+	return new Promise((resolve, reject) => {
+		const tlsSocket = tls.connect({ socket: socket, servername: host });
+
+		tlsSocket.once("secureConnect", () => {
+			tlsSocket.off("error", reject);
+			resolve(tlsSocket);
+		});
+		tlsSocket.once("error", reject);
+	});
+}
+
+/**
+ * Reads replies of the server, a multiline reply (`250-...`) is returned as a whole.
+ */
+function createReplyReader(socket: net.Socket) {
+	let buffer = "";
+	let lines: string[] = [];
+	let failure: Error | null = null;
+	const replies: SmtpReply[] = [];
+	const waiting: {
+		resolve: (reply: SmtpReply) => void;
+		reject: (error: Error) => void;
+	}[] = [];
+
+	const onData = (chunk: Buffer) => {
+		buffer += chunk.toString("utf8");
+
+		let lineEnd = buffer.indexOf("\n");
+		while (lineEnd !== -1) {
+			const line = buffer.slice(0, lineEnd).replace(/\r$/u, "");
+			buffer = buffer.slice(lineEnd + 1);
+			lineEnd = buffer.indexOf("\n");
+
+			lines.push(line.slice(4));
+
+			if (line[3] !== "-") {
+				const reply = { code: Number(line.slice(0, 3)), lines: lines };
+				lines = [];
+				const waiter = waiting.shift();
+
+				if (waiter) {
+					waiter.resolve(reply);
+				} else {
+					replies.push(reply);
+				}
+			}
+		}
+	};
+
+	const onFailure = (error?: Error) => {
+		failure ??=
+			error instanceof SmtpError
+				? error
+				: new SmtpError({
+						message: error
+							? `SMTP connection failed: ${error.message}`
+							: "SMTP server closed the connection."
+				  });
+
+		for (const waiter of waiting.splice(0)) {
+			waiter.reject(failure);
+		}
+	};
+
+	const onClose = () => {
+		onFailure();
+	};
+
+	socket.on("data", onData);
+	socket.on("error", onFailure);
+	socket.on("close", onClose);
+
+	return {
+		read: async (): Promise<SmtpReply> => {
+			const reply = replies.shift();
+
+			if (reply) {
+				return reply;
+			}
+
+			if (failure) {
+				throw failure;
+			}
+
+			return new Promise((resolve, reject) => {
+				waiting.push({ resolve, reject });
+			});
+		},
+
+		/**
+		 * Stops reading, like before the connection is upgraded to TLS.
+		 */
+		detach: () => {
+			socket.off("data", onData);
+			socket.off("error", onFailure);
+			socket.off("close", onClose);
+		}
+	};
+}
+
+/**
+ * Sends commands over a connection, and checks reply codes of the server.
+ */
+function createSession(socket: net.Socket) {
+	const reader = createReplyReader(socket);
+
+	const expectReply = async (codes: number[]): Promise<SmtpReply> => {
+		const reply = await reader.read();
+
+		if (!codes.includes(reply.code)) {
+			throw new SmtpError({
+				code: reply.code,
+				message: `SMTP server replied ${reply.code}: ${reply.lines.join(" ")}`
+			});
+		}
+
+		return reply;
+	};
+
+	return {
+		expectReply: expectReply,
+		send: async (command: string, codes: number[]): Promise<SmtpReply> => {
+			socket.write(`${command}\r\n`);
+			return expectReply(codes);
+		},
+		detach: reader.detach
+	};
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   MESSAGE                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Encodes a header value with non-ASCII characters (RFC 2047).
+ */
+function encodeHeader(value: string): string {
+	// eslint-disable-next-line no-control-regex
+	return /^[\u0000-\u007F]*$/u.test(value)
+		? value
+		: `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+/**
+ * Line breaks in headers (or addresses of commands) would start new ones,
+ * like a hidden `Bcc` (header injection).
+ * @throws {TypeError}
+ */
+function assertMailHeaders(message: MailMessage): void {
+	const { from, to, subject } = message;
+	const headers = { from: [from], to: to, subject: [subject] };
+
+	for (const [name, values] of Object.entries(headers)) {
+		if (values.some((value) => /[\r\n]/u.test(value))) {
+			throw new TypeError(`Mail header '${name}' can't contain line breaks.`);
+		}
+	}
+}
+
+/**
+ * Formats the message (base64 encoded, so that any text is sent as is).
+ * @throws {TypeError}
+ */
+export function formatMailMessage(message: MailMessage, date = new Date()): string {
+	const { from, to, subject, text } = message;
+
+	assertMailHeaders(message);
+
+	const body =
+		Buffer.from(text, "utf8")
+			.toString("base64")
+			.match(/.{1,76}/gu) ?? [];
+
+	return [
+		`From: ${from}`,
+		`To: ${to.join(", ")}`,
+		`Subject: ${encodeHeader(subject)}`,
+		`Date: ${date.toUTCString()}`,
+		"MIME-Version: 1.0",
+		"Content-Type: text/plain; charset=utf-8",
+		"Content-Transfer-Encoding: base64",
+		"",
+		...body
+	].join("\r\n");
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                    SEND                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Sends a plain text email through an SMTP server (a minimal client, there are no attachments).
+ * Credentials are sent with `AUTH PLAIN`, so only over TLS (unless the server is local).
+ * Connecting and every reply of the server is limited by `timeoutMs`, aborting `signal`
+ * closes the connection.
+ * @throws {SmtpError | TypeError}
+ */
+export async function sendMail(opts: {
+	server: SmtpServer;
+	message: MailMessage;
+	timeoutMs?: number;
+	signal?: AbortSignal | undefined;
+}): Promise<void> {
+	const { server, message, timeoutMs = DEFAULT_SMTP_TIMEOUT, signal } = opts;
+	const { host, port, secure, username, password } = server;
+
+	signal?.throwIfAborted();
+	assertMailHeaders(message);
+
+	const socket = await connect(server, { timeoutMs, signal }).catch((error: unknown) => {
+		throw new SmtpError({
+			message: `SMTP connection to ${host}:${port} failed: ${String(
+				(error as Error).message
+			)}`
+		});
+	});
+
+	const abort = () => {
+		socket.destroy(new SmtpError({ message: "SMTP connection was aborted." }));
+	};
+
+	socket.setTimeout(timeoutMs, () => {
+		socket.destroy(
+			new SmtpError({ message: `SMTP server timed out (${timeoutMs} ms).` })
+		);
+	});
+	signal?.addEventListener("abort", abort, { once: true });
+
+	try {
+		let session = createSession(socket);
+		await session.expectReply([220]);
+
+		const hostname = os.hostname();
+		const ehlo = await session.send(`EHLO ${hostname}`, [250]);
+		let isEncrypted = secure;
+
+		if (!secure && ehlo.lines.some((line) => /^STARTTLS\b/iu.test(line))) {
+			await session.send("STARTTLS", [220]);
+			session.detach();
+
+			session = createSession(await upgradeToTls(socket, host));
+			await session.send(`EHLO ${hostname}`, [250]);
+			isEncrypted = true;
+		}
+
+		if (username !== undefined) {
+			const isLocal = ["localhost", "127.0.0.1", "::1"].includes(host);
+
+			if (!isEncrypted && !isLocal) {
+				throw new SmtpError({
+					message: `SMTP server ${host} doesn't support STARTTLS, credentials were not sent.`
+				});
+			}
+
+			const credentials = Buffer.from(`\0${username}\0${password ?? ""}`, "utf8");
+			await session.send(`AUTH PLAIN ${credentials.toString("base64")}`, [235]);
+		}
+
+		await session.send(`MAIL FROM:<${message.from}>`, [250]);
+
+		for (const recipient of message.to) {
+			// eslint-disable-next-line no-await-in-loop
+			await session.send(`RCPT TO:<${recipient}>`, [250, 251]);
+		}
+
+		await session.send("DATA", [354]);
+
+		/*
+			Body is base64 encoded, so no line of the message can be a single dot (its end).
+		*/
+		await session.send(`${formatMailMessage(message)}\r\n.`, [250]);
+
+		await session.send("QUIT", [221]).catch(() => {
+			/* The message was already accepted. */
+		});
+	} finally {
+		signal?.removeEventListener("abort", abort);
+		socket.destroy();
+	}
+}
@@ -0,0 +1,145 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import type { Snapshot } from "./snapshotStore";
+import {
+	appendSnapshot,
+	findComparableSnapshot,
+	findSnapshot,
+	loadSnapshots,
+	takeSnapshot
+} from "./snapshotStore";
+
+describe("snapshotStore", () => {
+	const createSnapshot = (takenAt: string): Snapshot => {
+		return {
+			takenAt: takenAt,
+			baseUrl: "https://xxx.atlassian.net",
+			projects: [
+				{
+					projectId: "XYZ",
+					components: [{ id: "1", name: "Backend", hasLead: false, issues: 3 }]
+				}
+			]
+		};
+	};
+
+	describe("takeSnapshot", () => {
+		it("should record all components, with issue counts of the reported ones", () => {
+			const baseUrl = "https://xxx.atlassian.net";
+
+			expect(
+				takeSnapshot({
+					baseUrl: baseUrl,
+					projects: [
+						{
+							projectId: "XYZ",
+							components: [{ id: "10130", issues: 1 }],
+							scannedComponents: [
+								{ id: "10130", name: "Backend", hasLead: false },
+								{ id: "10129", name: "Frontend", hasLead: true }
+							]
+						}
+					],
+					takenAt: new Date("2024-05-01T12:00:00Z")
+				})
+			).toStrictEqual({
+				takenAt: "2024-05-01T12:00:00.000Z",
+				baseUrl: baseUrl,
+				projects: [
+					{
+						projectId: "XYZ",
+						components: [
+							{ id: "10130", name: "Backend", hasLead: false, issues: 1 },
+							{ id: "10129", name: "Frontend", hasLead: true }
+						]
+					}
+				]
+			});
+		});
+	});
+
+	describe("store", () => {
+		let tmpDir: string;
+
+		beforeEach(async () => {
+			tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "jira-snapshots-"));
+		});
+
+		afterEach(async () => {
+			await fs.rm(tmpDir, { recursive: true, force: true });
+		});
+
+		it("should load appended snapshots in order they were taken", async () => {
+			expect.hasAssertions();
+
+			const filePath = path.join(tmpDir, "history", "snapshots.jsonl");
+			const first = createSnapshot("2024-05-01T12:00:00.000Z");
+			const second = createSnapshot("2024-05-02T12:00:00.000Z");
+
+			await appendSnapshot(filePath, second);
+			await appendSnapshot(filePath, first);
+
+			await expect(loadSnapshots(filePath)).resolves.toStrictEqual([first, second]);
+			await expect(fs.readFile(filePath, "utf8")).resolves.toBe(
+				`${JSON.stringify(second)}\n${JSON.stringify(first)}\n`
+			);
+		});
+
+		it("should have no snapshots without a file", async () => {
+			expect.hasAssertions();
+
+			await expect(
+				loadSnapshots(path.join(tmpDir, "missing.jsonl"))
+			).resolves.toStrictEqual([]);
+		});
+
+		it("should fail on lines that are not valid snapshots", async () => {
+			expect.hasAssertions();
+
+			const filePath = path.join(tmpDir, "snapshots.jsonl");
+			await fs.writeFile(
+				filePath,
+				`${JSON.stringify(createSnapshot("2024-05-01T12:00:00.000Z"))}\n{\n`
+			);
+
+			await expect(loadSnapshots(filePath)).rejects.toThrow(
+				`Line 2 of ${filePath} is not a valid snapshot.`
+			);
+		});
+	});
+
+	describe("findSnapshot", () => {
+		it("should return the last snapshot taken at or before a given time", () => {
+			const first = createSnapshot("2024-05-01T12:00:00.000Z");
+			const second = createSnapshot("2024-05-02T12:00:00.000Z");
+
+			expect(findSnapshot([first, second], Date.parse("2024-05-02"))).toBe(first);
+			expect(findSnapshot([first, second], Date.parse(second.takenAt))).toBe(second);
+			expect(findSnapshot([first, second], Date.parse("2024-04-30"))).toBeUndefined();
+		});
+	});
+
+	describe("findComparableSnapshot", () => {
+		it("should return the latest snapshot of the same site and projects", () => {
+			const snapshot = createSnapshot("2024-05-03T12:00:00.000Z");
+			const comparable = createSnapshot("2024-05-01T12:00:00.000Z");
+			const otherSite = {
+				...createSnapshot("2024-05-02T00:00:00.000Z"),
+				baseUrl: "https://yyy.atlassian.net"
+			};
+			const otherProjects = {
+				...createSnapshot("2024-05-02T12:00:00.000Z"),
+				projects: [...snapshot.projects, { projectId: "ABC", components: [] }]
+			};
+
+			expect(
+				findComparableSnapshot([comparable, otherSite, otherProjects], snapshot)
+			).toBe(comparable);
+			expect(
+				findComparableSnapshot([otherSite, otherProjects], snapshot)
+			).toBeUndefined();
+		});
+	});
+});
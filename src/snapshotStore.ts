@@ -0,0 +1,164 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import z from "zod";
+import type { ScannedComponent } from "./auditJiraProjects";
+
+/* -------------------------------------------------------------------------- */
+/*                                   SCHEMAS                                  */
+/* -------------------------------------------------------------------------- */
+
+export type SnapshotComponent = z.infer<typeof SnapshotComponentSchema>;
+
+export const SnapshotComponentSchema = z.object({
+	id: z.string(),
+	name: z.string(),
+	hasLead: z.boolean(),
+
+	/** Known only for reported components, issues of the others are not counted. */
+	issues: z.number().optional()
+});
+
+export type SnapshotProject = z.infer<typeof SnapshotProjectSchema>;
+
+export const SnapshotProjectSchema = z.object({
+	projectId: z.string(),
+	components: SnapshotComponentSchema.array()
+});
+
+/**
+ * Components of scanned projects at the time of a run, stored as a single line of a JSONL file.
+ */
+export type Snapshot = z.infer<typeof SnapshotSchema>;
+
+export const SnapshotSchema = z.object({
+	/** ISO 8601 timestamp. */
+	takenAt: z.string(),
+	baseUrl: z.string(),
+	projects: SnapshotProjectSchema.array()
+});
+
+/* -------------------------------------------------------------------------- */
+/*                                  SNAPSHOTS                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Records all components of audited projects (the audit reports only some of them),
+ * together with issue counts of the reported ones.
+ */
+export function takeSnapshot(query: {
+	baseUrl: string;
+	projects: {
+		projectId: string;
+		components: { id: string; issues: number }[];
+		scannedComponents: ScannedComponent[];
+	}[];
+	takenAt?: Date;
+}): Snapshot {
+	const { baseUrl, projects, takenAt = new Date() } = query;
+
+	return {
+		takenAt: takenAt.toISOString(),
+		baseUrl: baseUrl,
+		projects: projects.map(({ projectId, components, scannedComponents }) => {
+			const issuesByComponentId = new Map(
+				components.map(({ id, issues }) => [id, issues])
+			);
+
+			return {
+				projectId: projectId,
+				components: scannedComponents.map(({ id, name, hasLead }) => {
+					const issues = issuesByComponentId.get(id);
+
+					return issues === undefined
+						? { id, name, hasLead }
+						: { id, name, hasLead, issues };
+				})
+			};
+		})
+	};
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                    STORE                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Appends a snapshot as a new line of a JSONL file, which is created when missing.
+ */
+export async function appendSnapshot(
+	filePath: string,
+	snapshot: Snapshot
+): Promise<void> {
+	await fs.mkdir(path.dirname(filePath), { recursive: true });
+	await fs.appendFile(filePath, `${JSON.stringify(snapshot)}\n`);
+}
+
+/**
+ * Loads snapshots of a JSONL file, ordered by the time they were taken.
+ * A missing file has no snapshots.
+ * @throws {TypeError | Error}
+ */
+export async function loadSnapshots(filePath: string): Promise<Snapshot[]> {
+	const text = await fs.readFile(filePath, "utf8").catch((error: unknown) => {
+		if ((error as { code?: unknown }).code === "ENOENT") {
+			return "";
+		}
+
+		throw error;
+	});
+
+	const snapshots = text.split("\n").flatMap((line, index) => {
+		if (line.trim() === "") {
+			return [];
+		}
+
+		let json: unknown = null;
+
+		try {
+			json = JSON.parse(line);
+		} catch {
+			/* Not a valid JSON. */
+		}
+
+		const result = SnapshotSchema.safeParse(json);
+
+		if (!result.success) {
+			throw new TypeError(`Line ${index + 1} of ${filePath} is not a valid snapshot.`);
+		}
+
+		return [result.data];
+	});
+
+	return snapshots.sort((a, b) => Date.parse(a.takenAt) - Date.parse(b.takenAt));
+}
+
+function getProjectIdsKey({ projects }: Snapshot): string {
+	return JSON.stringify(projects.map(({ projectId }) => projectId).sort());
+}
+
+/**
+ * Returns the latest snapshot of the same Jira site and set of projects as a given one,
+ * snapshots of other scans (stored in the same file) can't be compared with it.
+ */
+export function findComparableSnapshot(
+	snapshots: Snapshot[],
+	snapshot: Snapshot
+): Snapshot | undefined {
+	const projectIdsKey = getProjectIdsKey(snapshot);
+
+	return snapshots
+		.filter((candidate) => {
+			return (
+				candidate.baseUrl === snapshot.baseUrl &&
+				getProjectIdsKey(candidate) === projectIdsKey
+			);
+		})
+		.at(-1);
+}
+
+/**
+ * Returns the last snapshot taken at or before a given time (in ms).
+ */
+export function findSnapshot(snapshots: Snapshot[], time: number): Snapshot | undefined {
+	return snapshots.filter(({ takenAt }) => Date.parse(takenAt) <= time).at(-1);
+}
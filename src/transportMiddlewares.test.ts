@@ -0,0 +1,251 @@
+import { once } from "node:events";
+import http from "node:http";
+import https from "node:https";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "@jest/globals";
+import { applyTransportMiddlewares, fetchTransport } from "./jiraTransport";
+import type { JiraTransportMiddleware, JiraTransportRequest } from "./jiraTransport";
+import {
+	HttpsProxyAgent,
+	createCaBundleMiddleware,
+	createProxyMiddleware,
+	createTimeoutMiddleware,
+	getProxyUrlFromEnv,
+	isProxyBypassed
+} from "./transportMiddlewares";
+
+describe("transportMiddlewares", () => {
+	const request: JiraTransportRequest = {
+		url: "https://xxx.atlassian.net/rest/api/3/project/XYZ",
+		method: "GET",
+		headers: { Accept: "application/json" }
+	};
+
+	let server: http.Server | undefined;
+
+	/**
+	 * Starts a local server, and returns its origin.
+	 */
+	const listen = async (localServer: http.Server): Promise<string> => {
+		server = localServer;
+		server.listen(0, "127.0.0.1");
+		await once(server, "listening");
+
+		const { port } = server.address() as AddressInfo;
+		return `http://127.0.0.1:${port}`;
+	};
+
+	/**
+	 * Returns requests, which a transport wrapped with `middleware` would send.
+	 */
+	const getSentRequests = async (
+		middleware: JiraTransportMiddleware,
+		requests: JiraTransportRequest[]
+	): Promise<JiraTransportRequest[]> => {
+		const sentRequests: JiraTransportRequest[] = [];
+
+		const transport = applyTransportMiddlewares(
+			// eslint-disable-next-line @typescript-eslint/require-await
+			async (sentRequest) => {
+				sentRequests.push(sentRequest);
+				return {
+					status: 200,
+					statusText: "OK",
+					headers: { get: () => null },
+					// eslint-disable-next-line @typescript-eslint/require-await
+					json: async () => ({})
+				};
+			},
+			[middleware]
+		);
+
+		for (const req of requests) {
+			// eslint-disable-next-line no-await-in-loop
+			await transport(req);
+		}
+
+		return sentRequests;
+	};
+
+	afterEach(async () => {
+		server?.closeAllConnections();
+		server?.close();
+		server = undefined;
+		await Promise.resolve();
+	});
+
+	describe("getProxyUrlFromEnv", () => {
+		it("should read HTTPS_PROXY and https_proxy", () => {
+			expect(getProxyUrlFromEnv({ HTTPS_PROXY: "http://proxy:8080" })).toBe(
+				"http://proxy:8080"
+			);
+			expect(getProxyUrlFromEnv({ https_proxy: "http://proxy:3128" })).toBe(
+				"http://proxy:3128"
+			);
+			expect(getProxyUrlFromEnv({})).toBeUndefined();
+		});
+
+		it("should skip hosts of NO_PROXY and no_proxy", () => {
+			const env = { HTTPS_PROXY: "http://proxy:8080", NO_PROXY: "jira.local" };
+
+			expect(
+				getProxyUrlFromEnv(env, "https://jira.local/rest/api/2/project")
+			).toBeUndefined();
+			expect(getProxyUrlFromEnv(env, "https://xxx.atlassian.net")).toBe(
+				"http://proxy:8080"
+			);
+			expect(
+				getProxyUrlFromEnv(
+					{ https_proxy: "http://proxy:3128", no_proxy: "*" },
+					"https://xxx.atlassian.net"
+				)
+			).toBeUndefined();
+		});
+	});
+
+	describe("isProxyBypassed", () => {
+		it("should match exact hosts, domain suffixes and ports", () => {
+			const noProxy = "localhost, .corp.local,example.com *.internal jira.dev:8443";
+
+			expect(isProxyBypassed("https://localhost:8080", noProxy)).toBe(true);
+			expect(isProxyBypassed("https://jira.corp.local", noProxy)).toBe(true);
+			expect(isProxyBypassed("https://corp.local", noProxy)).toBe(false);
+			expect(isProxyBypassed("https://EXAMPLE.com", noProxy)).toBe(true);
+			expect(isProxyBypassed("https://jira.example.com", noProxy)).toBe(true);
+			expect(isProxyBypassed("https://notexample.com", noProxy)).toBe(false);
+			expect(isProxyBypassed("https://jira.internal", noProxy)).toBe(true);
+			expect(isProxyBypassed("https://jira.dev:8443", noProxy)).toBe(true);
+			expect(isProxyBypassed("https://jira.dev", noProxy)).toBe(false);
+		});
+
+		it("should match every host with a wildcard, and none without a list", () => {
+			expect(isProxyBypassed("https://xxx.atlassian.net", "*")).toBe(true);
+			expect(isProxyBypassed("https://xxx.atlassian.net", "")).toBe(false);
+			expect(isProxyBypassed("https://xxx.atlassian.net", undefined)).toBe(false);
+		});
+	});
+
+	describe("createProxyMiddleware", () => {
+		it("should use a proxy agent only for HTTPS requests", async () => {
+			expect.hasAssertions();
+
+			const [httpsRequest, httpRequest] = await getSentRequests(
+				createProxyMiddleware({ proxyUrl: "http://proxy:8080" }),
+				[request, { ...request, url: "http://jira.local/rest/api/2/project" }]
+			);
+
+			expect(httpsRequest).toMatchObject({ agent: expect.any(HttpsProxyAgent) });
+			expect(httpRequest).not.toHaveProperty("agent");
+		});
+
+		it("should send requests to hosts of NO_PROXY directly", async () => {
+			expect.hasAssertions();
+
+			const [proxiedRequest, directRequest] = await getSentRequests(
+				createProxyMiddleware({ proxyUrl: "http://proxy:8080", noProxy: "jira.local" }),
+				[request, { ...request, url: "https://jira.local/rest/api/2/project" }]
+			);
+
+			expect(proxiedRequest).toMatchObject({ agent: expect.any(HttpsProxyAgent) });
+			expect(directRequest).not.toHaveProperty("agent");
+		});
+
+		it("should open a tunnel with the proxy credentials", async () => {
+			expect.hasAssertions();
+
+			const connectRequests: { url: string | undefined; authorization: unknown }[] = [];
+
+			const proxyServer = http.createServer();
+			proxyServer.on("connect", (req: http.IncomingMessage, socket: NodeJS.Socket) => {
+				connectRequests.push({
+					url: req.url,
+					authorization: req.headers["proxy-authorization"]
+				});
+				socket.end("HTTP/1.1 403 Forbidden\r\n\r\n");
+			});
+
+			const proxyOrigin = await listen(proxyServer);
+			const proxyUrl = new URL(proxyOrigin);
+			proxyUrl.username = "bot";
+			proxyUrl.password = "p@ss";
+
+			const transport = applyTransportMiddlewares(fetchTransport, [
+				createProxyMiddleware({ proxyUrl: proxyUrl.href })
+			]);
+
+			await expect(transport(request)).rejects.toThrow(
+				`Proxy ${proxyUrl.host} refused to connect to xxx.atlassian.net:443 (403).`
+			);
+			expect(connectRequests).toStrictEqual([
+				{
+					url: "xxx.atlassian.net:443",
+					authorization: `Basic ${Buffer.from("bot:p@ss").toString("base64")}`
+				}
+			]);
+		});
+	});
+
+	describe("createCaBundleMiddleware", () => {
+		it("should use an agent with the CA bundle only for HTTPS requests", async () => {
+			expect.hasAssertions();
+
+			const [httpsRequest, httpRequest] = await getSentRequests(
+				createCaBundleMiddleware({ ca: "-----BEGIN CERTIFICATE-----" }),
+				[request, { ...request, url: "http://jira.local/rest/api/2/project" }]
+			);
+
+			expect(httpsRequest).toMatchObject({ agent: expect.any(https.Agent) });
+			expect(httpRequest).not.toHaveProperty("agent");
+		});
+	});
+
+	describe("createTimeoutMiddleware", () => {
+		it("should throw an error if timeoutMs is not a positive safe integer", () => {
+			expect(() => {
+				createTimeoutMiddleware({ timeoutMs: 0 });
+			}).toThrow(TypeError);
+		});
+
+		it("should abort requests that take too long", async () => {
+			expect.hasAssertions();
+
+			const origin = await listen(
+				http.createServer(() => {
+					/* Never responds. */
+				})
+			);
+
+			const transport = applyTransportMiddlewares(fetchTransport, [
+				createTimeoutMiddleware({ timeoutMs: 50 })
+			]);
+
+			await expect(transport({ ...request, url: `${origin}/rest` })).rejects.toThrow(
+				"The user aborted a request."
+			);
+		});
+
+		it("should still abort requests with their own signal", async () => {
+			expect.hasAssertions();
+
+			const origin = await listen(
+				http.createServer(() => {
+					/* Never responds. */
+				})
+			);
+
+			const controller = new AbortController();
+			const transport = applyTransportMiddlewares(fetchTransport, [
+				createTimeoutMiddleware({ timeoutMs: 60_000 })
+			]);
+
+			const response = transport({
+				...request,
+				url: `${origin}/rest`,
+				signal: controller.signal
+			});
+			controller.abort();
+
+			await expect(response).rejects.toThrow("The user aborted a request.");
+		});
+	});
+});
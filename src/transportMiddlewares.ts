@@ -0,0 +1,253 @@
+import { once } from "node:events";
+import http from "node:http";
+import https from "node:https";
+import type { Duplex } from "node:stream";
+import tls from "node:tls";
+import type { JiraTransportMiddleware } from "./jiraTransport";
+
+/* -------------------------------------------------------------------------- */
+/*                                    PROXY                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Agent, which opens every connection as a `CONNECT` tunnel through an HTTP(S) proxy,
+ * and then starts TLS inside of it (so the proxy never sees the traffic).
+ */
+export class HttpsProxyAgent extends https.Agent {
+	readonly proxyUrl: URL;
+
+	constructor(opts: { proxyUrl: URL; ca?: string[] | undefined }) {
+		const { proxyUrl, ca } = opts;
+
+		super(ca ? { ca } : {});
+		this.proxyUrl = proxyUrl;
+	}
+
+	/**
+	 * Opens a tunnel to `target` (`host:port`), and returns its socket.
+	 * @throws {Error}
+	 */
+	private async openTunnel(target: string): Promise<Duplex> {
+		const { proxyUrl } = this;
+
+		const headers: Record<string, string> = { Host: target };
+
+		if (proxyUrl.username) {
+			const username = decodeURIComponent(proxyUrl.username);
+			const password = decodeURIComponent(proxyUrl.password);
+			const token = Buffer.from(`${username}:${password}`).toString("base64");
+
+			headers["Proxy-Authorization"] = `Basic ${token}`;
+		}
+
+		const isHttpsProxy = proxyUrl.protocol === "https:";
+
+		const req = (isHttpsProxy ? https : http).request({
+			host: proxyUrl.hostname,
+			port: proxyUrl.port || (isHttpsProxy ? 443 : 80),
+			method: "CONNECT",
+			path: target,
+			headers: headers
+		});
+		req.end();
+
+		const [res, socket] = (await once(req, "connect")) as [http.IncomingMessage, Duplex];
+
+		if (res.statusCode !== 200) {
+			socket.destroy();
+			throw new Error(
+				`Proxy ${proxyUrl.host} refused to connect to ${target} (${String(
+					res.statusCode
+				)}).`
+			);
+		}
+
+		return socket;
+	}
+
+	/* eslint-disable promise/prefer-await-to-callbacks, n/callback-return -- Node.js agents are callback based. */
+
+	/**
+	 * Called by Node.js for every new socket of the agent.
+	 */
+	createConnection(
+		options: tls.ConnectionOptions & { host?: string; port?: number },
+		callback: (error: Error | null, socket?: Duplex) => void
+	): void {
+		const { host = "localhost", port = 443 } = options;
+
+		const connect = async () => {
+			try {
+				const socket = await this.openTunnel(`${host}:${port}`);
+				callback(null, tls.connect({ ...options, socket: socket, servername: host }));
+			} catch (error) {
+				callback(error instanceof Error ? error : new Error(String(error)));
+			}
+		};
+
+		// eslint-disable-next-line @typescript-eslint/no-floating-promises
+		connect();
+	}
+
+	/* eslint-enable promise/prefer-await-to-callbacks, n/callback-return */
+}
+
+/**
+ * Returns hosts, which are reached without a proxy (`NO_PROXY` or `no_proxy`).
+ */
+export function getNoProxyFromEnv(env: NodeJS.ProcessEnv): string | undefined {
+	return env.NO_PROXY ?? env.no_proxy ?? undefined;
+}
+
+/**
+ * Returns whether a request to `url` skips the proxy, `noProxy` is a comma (or space)
+ * separated list of:
+ * - `*` - every host,
+ * - `example.com` - the host and its subdomains,
+ * - `.example.com` (or `*.example.com`) - just subdomains of the host,
+ * - any of them with a port (like `example.com:8443`), which has to match too.
+ */
+export function isProxyBypassed(url: string, noProxy: string | undefined): boolean {
+	const { hostname, port, protocol } = new URL(url);
+	const host = hostname.toLowerCase().replaceAll(/^\[|\]$/gu, "");
+	const urlPort = port || (protocol === "https:" ? "443" : "80");
+
+	return (noProxy ?? "").split(/[\s,]+/u).some((entry) => {
+		if (entry === "*") {
+			return true;
+		}
+
+		const [, hostPattern = entry, entryPort] =
+			/^([^:]*|\[.*\]):(\d+)$/u.exec(entry) ?? [];
+		const pattern = hostPattern
+			.toLowerCase()
+			.replaceAll(/^\[|\]$/gu, "")
+			.replace(/^\*\./u, ".");
+
+		if (pattern === "" || (entryPort !== undefined && entryPort !== urlPort)) {
+			return false;
+		}
+
+		return pattern.startsWith(".")
+			? host.endsWith(pattern)
+			: host === pattern || host.endsWith(`.${pattern}`);
+	});
+}
+
+/**
+ * Returns proxy of HTTPS requests set in the environment (`HTTPS_PROXY` or `https_proxy`),
+ * requests to `url` (when given) excluded by `NO_PROXY` have none.
+ */
+export function getProxyUrlFromEnv(
+	env: NodeJS.ProcessEnv,
+	url?: string
+): string | undefined {
+	if (url !== undefined && isProxyBypassed(url, getNoProxyFromEnv(env))) {
+		return undefined;
+	}
+
+	return env.HTTPS_PROXY ?? env.https_proxy ?? undefined;
+}
+
+/**
+ * Adds CA certificates to the ones bundled with Node.js (instead of replacing them).
+ */
+function getCaCertificates(ca: string | undefined): string[] | undefined {
+	return ca === undefined ? undefined : [...tls.rootCertificates, ca];
+}
+
+/**
+ * Sends HTTPS requests through a proxy, `ca` (PEM) is trusted too, as corporate proxies
+ * often re-sign the traffic with their own certificate. Requests to hosts of `noProxy`
+ * (see `isProxyBypassed`) are sent directly.
+ */
+export function createProxyMiddleware(opts: {
+	proxyUrl: string;
+	ca?: string | undefined;
+	noProxy?: string | undefined;
+}): JiraTransportMiddleware {
+	const { proxyUrl, ca, noProxy } = opts;
+
+	const agent = new HttpsProxyAgent({
+		proxyUrl: new URL(proxyUrl),
+		ca: getCaCertificates(ca)
+	});
+	const directAgent =
+		ca === undefined ? undefined : new https.Agent({ ca: getCaCertificates(ca) });
+
+	return {
+		beforeRequest: (request) => {
+			if (!request.url.startsWith("https:")) {
+				return request;
+			}
+
+			if (isProxyBypassed(request.url, noProxy)) {
+				return directAgent ? { ...request, agent: directAgent } : request;
+			}
+
+			return { ...request, agent };
+		}
+	};
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                     TLS                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Trusts additional CA certificates (PEM bundle) in HTTPS requests sent without a proxy.
+ */
+export function createCaBundleMiddleware(opts: { ca: string }): JiraTransportMiddleware {
+	const agent = new https.Agent({ ca: getCaCertificates(opts.ca) });
+
+	return {
+		beforeRequest: (request) => {
+			return request.url.startsWith("https:") ? { ...request, agent } : request;
+		}
+	};
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  TIMEOUTS                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Aborts every request (every attempt of a retried one) that takes longer than `timeoutMs`.
+ * A `signal` of the request (like the one of a `JiraAPI` attempt) still aborts it too.
+ * Only the `requestTimeout` of `JiraAPI` fails with a `JiraTimeoutError`, this one is
+ * meant for transports used without it.
+ */
+export function createTimeoutMiddleware(opts: {
+	timeoutMs: number;
+}): JiraTransportMiddleware {
+	const { timeoutMs } = opts;
+
+	if (!Number.isSafeInteger(timeoutMs) || timeoutMs <= 0) {
+		throw new TypeError(`Option 'timeoutMs' needs to be a positive safe integer.`);
+	}
+
+	return {
+		beforeRequest: (request) => {
+			const { signal } = request;
+			const timeoutSignal = AbortSignal.timeout(timeoutMs);
+
+			if (!signal) {
+				return { ...request, signal: timeoutSignal };
+			}
+
+			const controller = new AbortController();
+			const abort = (event: Event) => {
+				controller.abort((event.target as AbortSignal).reason);
+			};
+
+			if (signal.aborted) {
+				controller.abort(signal.reason);
+			}
+
+			signal.addEventListener("abort", abort, { once: true });
+			timeoutSignal.addEventListener("abort", abort, { once: true });
+
+			return { ...request, signal: controller.signal };
+		}
+	};
+}
@@ -0,0 +1,258 @@
+import { once } from "node:events";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import type { Report } from "./renderReport";
+import type { ReportChanges, WatchState } from "./watchAudit";
+import {
+	createWatchServer,
+	createWatchState,
+	getReportChanges,
+	hasReportChanged,
+	renderWatchMetrics,
+	watchAudit
+} from "./watchAudit";
+
+describe("watchAudit", () => {
+	const report: Report = {
+		baseUrl: "https://xxx.atlassian.net",
+		projects: [
+			{
+				projectId: "XYZ",
+				components: [
+					{ id: "10130", name: "Backend", issues: 1 },
+					{ id: "10131", name: 'Say "hi"', issues: 5 }
+				]
+			},
+			{ projectId: "ABC", components: [] }
+		]
+	};
+
+	const scannedState: WatchState = {
+		startedAt: new Date("2024-05-01T12:00:00Z"),
+		scans: 3,
+		failures: 1,
+		lastScan: {
+			startedAt: new Date("2024-05-01T12:00:00Z"),
+			finishedAt: new Date("2024-05-01T12:00:02.500Z"),
+			report: report
+		},
+		nextScanAt: new Date("2024-05-01T13:00:00Z")
+	};
+
+	describe("getReportChanges", () => {
+		it("should compare reported components of two scans", () => {
+			const current: Report = {
+				...report,
+				projects: [
+					{
+						projectId: "XYZ",
+						components: [
+							{ id: "10131", name: 'Say "hi"', issues: 6 },
+							{ id: "10132", name: "Frontend", issues: 0 }
+						]
+					}
+				]
+			};
+
+			expect(getReportChanges(report, current)).toStrictEqual({
+				isFirst: false,
+				added: [{ projectId: "XYZ", id: "10132", name: "Frontend" }],
+				removed: [{ projectId: "XYZ", id: "10130", name: "Backend" }]
+			});
+			expect(getReportChanges(undefined, report)).toMatchObject({
+				isFirst: true,
+				removed: []
+			});
+		});
+
+		it("should not take the first scan for a change", () => {
+			expect(hasReportChanged(getReportChanges(undefined, report))).toBe(false);
+			expect(
+				hasReportChanged(getReportChanges(report, { ...report, projects: [] }))
+			).toBe(true);
+		});
+	});
+
+	describe("watchAudit", () => {
+		it("should keep watching after failed scans, until it is stopped", async () => {
+			expect.hasAssertions();
+
+			const controller = new AbortController();
+			const state = createWatchState();
+			const scan = jest
+				.fn<() => Promise<Report>>()
+				.mockRejectedValueOnce(new Error("Jira is down"))
+				.mockResolvedValue(report);
+			const onScan = jest
+				.fn<(scan: { changes: ReportChanges }) => void>()
+				.mockReturnValueOnce()
+				.mockImplementationOnce(() => {
+					controller.abort();
+				});
+			const onError = jest.fn();
+
+			await watchAudit({
+				state: state,
+				schedule: { type: "interval", intervalMs: 1 },
+				scan: scan,
+				onScan: onScan,
+				onError: onError,
+				signal: controller.signal
+			});
+
+			expect(state).toMatchObject({ scans: 3, failures: 1, lastError: undefined });
+			expect(state.lastScan?.report).toBe(report);
+			expect(onError.mock.calls).toStrictEqual([[new Error("Jira is down")]]);
+			expect(onScan.mock.calls.map(([watchScan]) => watchScan.changes)).toMatchObject([
+				{ isFirst: true },
+				{ isFirst: false, added: [] }
+			]);
+		});
+
+		it("should abort scans, which take longer than a timeout", async () => {
+			expect.hasAssertions();
+
+			const controller = new AbortController();
+			const state = createWatchState();
+
+			await watchAudit({
+				state: state,
+				schedule: { type: "interval", intervalMs: 60_000 },
+				scan: async (signal) => {
+					await once(signal, "abort");
+					throw signal.reason;
+				},
+				onError: () => {
+					controller.abort();
+				},
+				scanTimeoutMs: 1,
+				signal: controller.signal
+			});
+
+			expect(state.failures).toBe(1);
+			expect(state.lastError?.message).toMatch(/^TimeoutError: /u);
+			expect(state.lastScan).toBeUndefined();
+		});
+	});
+
+	describe("renderWatchMetrics", () => {
+		it("should render metrics in the Prometheus format", () => {
+			expect(renderWatchMetrics(scannedState)).toBe(
+				[
+					"# HELP jira_audit_scans_total Number of finished scans.",
+					"# TYPE jira_audit_scans_total counter",
+					"jira_audit_scans_total 3",
+					"# HELP jira_audit_scan_failures_total Number of failed scans.",
+					"# TYPE jira_audit_scan_failures_total counter",
+					"jira_audit_scan_failures_total 1",
+					"# HELP jira_audit_up Whether the latest scan succeeded.",
+					"# TYPE jira_audit_up gauge",
+					"jira_audit_up 1",
+					"# HELP jira_audit_last_scan_timestamp_seconds Time when the latest successful scan finished.",
+					"# TYPE jira_audit_last_scan_timestamp_seconds gauge",
+					"jira_audit_last_scan_timestamp_seconds 1714564802.5",
+					"# HELP jira_audit_last_scan_duration_seconds Duration of the latest successful scan.",
+					"# TYPE jira_audit_last_scan_duration_seconds gauge",
+					"jira_audit_last_scan_duration_seconds 2.5",
+					"# HELP jira_audit_components Number of components without a project lead, by project.",
+					"# TYPE jira_audit_components gauge",
+					'jira_audit_components{project="XYZ"} 2',
+					'jira_audit_components{project="ABC"} 0',
+					"# HELP jira_audit_component_issues Number of issues of components without a project lead.",
+					"# TYPE jira_audit_component_issues gauge",
+					'jira_audit_component_issues{project="XYZ",component_id="10130",component="Backend"} 1',
+					'jira_audit_component_issues{project="XYZ",component_id="10131",component="Say \\"hi\\""} 5',
+					""
+				].join("\n")
+			);
+		});
+
+		it("should render only counters before the first successful scan", () => {
+			expect(renderWatchMetrics(createWatchState())).not.toContain(
+				"jira_audit_components"
+			);
+		});
+	});
+
+	describe("createWatchServer", () => {
+		let server: http.Server | undefined;
+
+		afterEach(() => {
+			server?.close();
+			server = undefined;
+		});
+
+		/**
+		 * Starts the server on a free port, and returns a function, which fetches its paths.
+		 */
+		const listen = async (state: WatchState) => {
+			server = createWatchServer(state);
+			server.listen(0, "127.0.0.1");
+			await once(server, "listening");
+
+			const { port } = server.address() as AddressInfo;
+
+			return async (pathname: string) => {
+				const [res] = (await once(
+					http.get(`http://127.0.0.1:${port}${pathname}`),
+					"response"
+				)) as [http.IncomingMessage];
+
+				let body = "";
+				for await (const chunk of res) {
+					body += String(chunk);
+				}
+
+				return { status: res.statusCode, type: res.headers["content-type"], body: body };
+			};
+		};
+
+		it("should serve health, metrics and the latest report", async () => {
+			expect.hasAssertions();
+
+			const get = await listen(scannedState);
+
+			const health = await get("/health");
+			expect(health.status).toBe(200);
+			expect(JSON.parse(health.body)).toStrictEqual({
+				status: "ok",
+				startedAt: "2024-05-01T12:00:00.000Z",
+				lastScanAt: "2024-05-01T12:00:02.500Z",
+				nextScanAt: "2024-05-01T13:00:00.000Z"
+			});
+
+			const metrics = await get("/metrics");
+			expect(metrics.type).toBe("text/plain; version=0.0.4; charset=utf-8");
+			expect(metrics.body).toBe(renderWatchMetrics(scannedState));
+
+			const reportJson = await get("/report.json");
+			expect(reportJson.status).toBe(200);
+			expect(JSON.parse(reportJson.body)).toMatchObject({
+				schemaVersion: 3,
+				baseUrl: report.baseUrl
+			});
+
+			await expect(get("/")).resolves.toMatchObject({ status: 404 });
+		});
+
+		it("should be unhealthy before the first scan, and after a failed one", async () => {
+			expect.hasAssertions();
+
+			const state = createWatchState();
+			const get = await listen(state);
+
+			await expect(get("/health")).resolves.toMatchObject({
+				status: 503,
+				body: expect.stringContaining('"status": "starting"')
+			});
+			await expect(get("/report.json")).resolves.toMatchObject({ status: 503 });
+
+			state.lastError = { failedAt: new Date(), message: "JiraAuthError: Unauthorized" };
+			await expect(get("/health")).resolves.toMatchObject({
+				status: 503,
+				body: expect.stringContaining('"message": "JiraAuthError: Unauthorized"')
+			});
+		});
+	});
+});
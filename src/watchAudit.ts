@@ -0,0 +1,406 @@
+import http from "node:http";
+import { setTimeout as sleep } from "node:timers/promises";
+import type { CronExpression } from "./cronSchedule";
+import { getNextCronTime } from "./cronSchedule";
+import type { Report } from "./renderReport";
+import { renderReport } from "./renderReport";
+
+/* -------------------------------------------------------------------------- */
+/*                                    TYPES                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Default port of the status server (of Prometheus exporters, it isn't registered by anything else).
+ */
+export const DEFAULT_WATCH_PORT = 9464;
+
+export type WatchSchedule =
+	| { type: "interval"; intervalMs: number }
+	| { type: "cron"; expression: CronExpression };
+
+export type WatchScan = {
+	startedAt: Date;
+	finishedAt: Date;
+	report: Report;
+};
+
+/**
+ * State of watching, shared with the status server. It lives only in memory.
+ */
+export type WatchState = {
+	startedAt: Date;
+
+	/** Number of successful and failed scans. */
+	scans: number;
+	failures: number;
+
+	/** The latest successful scan. */
+	lastScan?: WatchScan | undefined;
+
+	/** Error of the latest scan, cleared by a successful one. */
+	lastError?: { failedAt: Date; message: string } | undefined;
+
+	nextScanAt?: Date | undefined;
+};
+
+export type ReportedComponentChange = { projectId: string; id: string; name: string };
+
+/**
+ * Changes of reported components (without a lead, or violating the rules) between scans.
+ */
+export type ReportChanges = {
+	/** Set for the first scan, there is nothing to compare it with. */
+	isFirst: boolean;
+
+	/** Components reported now, but not by the previous scan. */
+	added: ReportedComponentChange[];
+
+	/** Components reported by the previous scan, but not now. */
+	removed: ReportedComponentChange[];
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                   CHANGES                                  */
+/* -------------------------------------------------------------------------- */
+
+function getComponentKey({ projectId, id }: ReportedComponentChange): string {
+	return `${projectId}/${id}`;
+}
+
+function getReportedComponents(report: Report): ReportedComponentChange[] {
+	return report.projects.flatMap(({ projectId, components }) => {
+		return components.map(({ id, name }) => ({ projectId, id, name }));
+	});
+}
+
+/**
+ * Compares components reported by two scans, by project keys and component IDs.
+ */
+export function getReportChanges(
+	previous: Report | undefined,
+	current: Report
+): ReportChanges {
+	const previousComponents = previous ? getReportedComponents(previous) : [];
+	const currentComponents = getReportedComponents(current);
+
+	const previousKeys = new Set(
+		previousComponents.map((component) => getComponentKey(component))
+	);
+	const currentKeys = new Set(
+		currentComponents.map((component) => getComponentKey(component))
+	);
+
+	return {
+		isFirst: previous === undefined,
+		added: currentComponents.filter(
+			(component) => !previousKeys.has(getComponentKey(component))
+		),
+		removed: previousComponents.filter(
+			(component) => !currentKeys.has(getComponentKey(component))
+		)
+	};
+}
+
+/**
+ * Whether reported components changed since the previous scan. The first scan has nothing
+ * to compare with, so it isn't a change.
+ */
+export function hasReportChanged(changes: ReportChanges): boolean {
+	return !changes.isFirst && (changes.added.length > 0 || changes.removed.length > 0);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                    WATCH                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Max delay of timers, longer ones fire immediately.
+ */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+export function createWatchState(): WatchState {
+	return { startedAt: new Date(), scans: 0, failures: 0 };
+}
+
+/**
+ * Returns time of the next scan, intervals are counted from the end of the previous one.
+ */
+export function getNextScanTime(schedule: WatchSchedule, after: Date): Date {
+	switch (schedule.type) {
+		case "interval": {
+			return new Date(after.getTime() + schedule.intervalMs);
+		}
+		case "cron": {
+			return getNextCronTime(schedule.expression, after);
+		}
+		default: {
+			throw new TypeError(
+				`Unknown watch schedule '${String((schedule as { type: unknown }).type)}'.`
+			);
+		}
+	}
+}
+
+/**
+ * Waits until a given time, or until `signal` is aborted.
+ */
+async function sleepUntil(time: Date, signal: AbortSignal): Promise<void> {
+	let delay = time.getTime() - Date.now();
+
+	while (delay > 0 && !signal.aborted) {
+		// eslint-disable-next-line no-await-in-loop
+		await sleep(Math.min(delay, MAX_TIMER_DELAY), undefined, { signal }).catch(() => {
+			// Aborted, the loop ends.
+		});
+		delay = time.getTime() - Date.now();
+	}
+}
+
+/**
+ * Scans right away, and then on a schedule until `signal` is aborted. Failed scans don't
+ * stop watching, they are passed to `onError` (like errors of `onScan`). Every scan gets
+ * its own signal, aborted after `scanTimeoutMs` (if any), or when watching stops.
+ */
+export async function watchAudit(opts: {
+	state: WatchState;
+	schedule: WatchSchedule;
+	scan: (signal: AbortSignal) => Promise<Report>;
+	onScan?: (scan: WatchScan & { changes: ReportChanges }) => Promise<void> | void;
+	onError?: (error: unknown) => void;
+	scanTimeoutMs?: number | undefined;
+	signal: AbortSignal;
+}): Promise<void> {
+	const { state, schedule, scan, onScan, onError, scanTimeoutMs, signal } = opts;
+
+	/**
+	 * Returns the successful scan, or `undefined`, when it failed.
+	 */
+	const runScan = async (): Promise<WatchScan | undefined> => {
+		const controller = new AbortController();
+		const timeoutSignal =
+			scanTimeoutMs === undefined ? undefined : AbortSignal.timeout(scanTimeoutMs);
+		const abort = (event: Event) => {
+			controller.abort((event.target as AbortSignal).reason);
+		};
+
+		signal.addEventListener("abort", abort);
+		timeoutSignal?.addEventListener("abort", abort);
+
+		try {
+			const startedAt = new Date();
+			const report = await scan(controller.signal);
+			state.scans += 1;
+			return { startedAt: startedAt, finishedAt: new Date(), report: report };
+		} catch (error) {
+			if (!signal.aborted) {
+				state.scans += 1;
+				state.failures += 1;
+				state.lastError = {
+					failedAt: new Date(),
+					message:
+						error instanceof Error ? `${error.name}: ${error.message}` : String(error)
+				};
+				onError?.(error);
+			}
+
+			return undefined;
+		} finally {
+			signal.removeEventListener("abort", abort);
+			timeoutSignal?.removeEventListener("abort", abort);
+		}
+	};
+
+	while (!signal.aborted) {
+		state.nextScanAt = undefined;
+
+		// eslint-disable-next-line no-await-in-loop
+		const watchScan = await runScan();
+		const nextScanAt = getNextScanTime(schedule, new Date());
+		state.nextScanAt = nextScanAt;
+
+		if (watchScan) {
+			const changes = getReportChanges(state.lastScan?.report, watchScan.report);
+			state.lastScan = watchScan;
+			state.lastError = undefined;
+
+			try {
+				// eslint-disable-next-line no-await-in-loop
+				await onScan?.({ ...watchScan, changes });
+			} catch (error) {
+				onError?.(error);
+			}
+		}
+
+		// eslint-disable-next-line no-await-in-loop
+		await sleepUntil(nextScanAt, signal);
+	}
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                STATUS SERVER                               */
+/* -------------------------------------------------------------------------- */
+
+function escapeLabelValue(value: string): string {
+	return value.replaceAll("\\", "\\\\").replaceAll('"', '\\"').replaceAll("\n", "\\n");
+}
+
+function formatLabels(labels: Record<string, string>): string {
+	const pairs = Object.entries(labels).map(([name, value]) => {
+		return `${name}="${escapeLabelValue(value)}"`;
+	});
+
+	return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+type Metric = {
+	name: string;
+	help: string;
+	type: "gauge" | "counter";
+	samples: { labels?: Record<string, string>; value: number }[];
+};
+
+/**
+ * Renders metrics of watching in the Prometheus text exposition format.
+ * Metrics of the latest scan are missing until a scan succeeds.
+ */
+export function renderWatchMetrics(state: WatchState): string {
+	const { scans, failures, lastScan, lastError } = state;
+	const problem = lastScan?.report.rules
+		? "violating the rules"
+		: "without a project lead";
+
+	const metrics: Metric[] = [
+		{
+			name: "jira_audit_scans_total",
+			help: "Number of finished scans.",
+			type: "counter",
+			samples: [{ value: scans }]
+		},
+		{
+			name: "jira_audit_scan_failures_total",
+			help: "Number of failed scans.",
+			type: "counter",
+			samples: [{ value: failures }]
+		},
+		{
+			name: "jira_audit_up",
+			help: "Whether the latest scan succeeded.",
+			type: "gauge",
+			samples: [{ value: lastScan && !lastError ? 1 : 0 }]
+		},
+		...(lastScan
+			? ([
+					{
+						name: "jira_audit_last_scan_timestamp_seconds",
+						help: "Time when the latest successful scan finished.",
+						type: "gauge",
+						samples: [{ value: lastScan.finishedAt.getTime() / 1000 }]
+					},
+					{
+						name: "jira_audit_last_scan_duration_seconds",
+						help: "Duration of the latest successful scan.",
+						type: "gauge",
+						samples: [
+							{
+								value:
+									(lastScan.finishedAt.getTime() - lastScan.startedAt.getTime()) / 1000
+							}
+						]
+					},
+					{
+						name: "jira_audit_components",
+						help: `Number of components ${problem}, by project.`,
+						type: "gauge",
+						samples: lastScan.report.projects.map(({ projectId, components }) => {
+							return { labels: { project: projectId }, value: components.length };
+						})
+					},
+					{
+						name: "jira_audit_component_issues",
+						help: `Number of issues of components ${problem}.`,
+						type: "gauge",
+						samples: lastScan.report.projects.flatMap(({ projectId, components }) => {
+							return components.map(({ id, name, issues }) => {
+								return {
+									labels: { project: projectId, component_id: id, component: name },
+									value: issues
+								};
+							});
+						})
+					}
+			  ] satisfies Metric[])
+			: [])
+	];
+
+	return `${metrics
+		.flatMap(({ name, help, type, samples }) => [
+			`# HELP ${name} ${help}`,
+			`# TYPE ${name} ${type}`,
+			...samples.map(
+				({ labels = {}, value }) => `${name}${formatLabels(labels)} ${value}`
+			)
+		])
+		.join("\n")}\n`;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+	res.writeHead(status, { "Content-Type": "application/json; charset=utf-8" });
+	res.end(`${JSON.stringify(body, null, 2)}\n`);
+}
+
+/**
+ * Creates a server with the latest results of watching (it has to be started with `listen`):
+ * - `/health` answers `200`, when the latest scan succeeded, `503` otherwise (or before the first one),
+ * - `/metrics` answers metrics in the Prometheus format,
+ * - `/report.json` answers the latest successful report in the `json` format (`503` before the first one).
+ */
+export function createWatchServer(state: WatchState): http.Server {
+	return http.createServer((req, res) => {
+		const { pathname } = new URL(req.url ?? "/", "http://localhost");
+
+		if (req.method !== "GET" && req.method !== "HEAD") {
+			res.writeHead(405, { Allow: "GET, HEAD" }).end();
+			return;
+		}
+
+		switch (pathname) {
+			case "/health": {
+				const { startedAt, lastScan, lastError, nextScanAt } = state;
+				const status = lastError ? "failing" : lastScan ? "ok" : "starting";
+
+				sendJson(res, status === "ok" ? 200 : 503, {
+					status: status,
+					startedAt: startedAt.toISOString(),
+					lastScanAt: lastScan?.finishedAt.toISOString(),
+					lastError: lastError && {
+						failedAt: lastError.failedAt.toISOString(),
+						message: lastError.message
+					},
+					nextScanAt: nextScanAt?.toISOString()
+				});
+				break;
+			}
+			case "/metrics": {
+				res.writeHead(200, {
+					"Content-Type": "text/plain; version=0.0.4; charset=utf-8"
+				});
+				res.end(renderWatchMetrics(state));
+				break;
+			}
+			case "/report.json": {
+				if (state.lastScan) {
+					res.writeHead(200, { "Content-Type": "application/json; charset=utf-8" });
+					res.end(`${renderReport({ report: state.lastScan.report, format: "json" })}\n`);
+				} else {
+					sendJson(res, 503, { error: "No scan has finished yet." });
+				}
+				break;
+			}
+			default: {
+				sendJson(res, 404, {
+					error: "Not found, try /health, /metrics or /report.json."
+				});
+			}
+		}
+	});
+}
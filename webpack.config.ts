@@ -44,8 +44,38 @@ const PROJECT_ROOT_DIR = path.resolve(__dirname);
 const PROJECT_TSCONFIG = path.resolve(PROJECT_ROOT_DIR, "tsconfig.json");
 const PROJECT_SRC_DIR = path.resolve(PROJECT_ROOT_DIR, "src");
 const PROJECT_DIST_DIR = path.resolve(PROJECT_ROOT_DIR, "dist");
+const PROJECT_LIB_DIR = path.resolve(PROJECT_DIST_DIR, "lib");
 
-const config: WebpackConfigFileExport = (envs, { mode, watch }) => {
+const RESOLVED_EXTENSIONS = [".js", ".cjs", ".mjs", ".jsx", ".ts", ".tsx"];
+
+function createSwcRule(moduleType: "commonjs" | "es6") {
+	return {
+		test: /\.(js|cjs|mjs|jsx|ts|tsx)$/iu,
+		exclude: /node_modules/u,
+		use: {
+			loader: require.resolve("swc-loader"),
+			options: {
+				swcrc: false,
+				module: {
+					type: moduleType
+				},
+				jsc: {
+					/* Targets Node.js 16 or higher */
+					target: "es2021",
+					externalHelpers: true,
+					parser: {
+						syntax: "typescript",
+						tsx: true,
+						decorators: true,
+						dynamicImport: true
+					}
+				}
+			} satisfies swc.Options
+		}
+	};
+}
+
+const cliConfig: WebpackConfigurationFactory = (envs, { mode, watch }) => {
 	const isDevelopment = mode === "development";
 	const isWatch = watch === true;
 	const NODE_ENV = isDevelopment ? "development" : "production";
@@ -58,11 +88,11 @@ const config: WebpackConfigFileExport = (envs, { mode, watch }) => {
 			app: path.resolve(PROJECT_SRC_DIR, "app.ts")
 		},
 		resolve: {
-			extensions: [".js", ".cjs", ".mjs", ".jsx", ".ts", ".tsx"],
+			extensions: RESOLVED_EXTENSIONS,
 			plugins: [
 				new TsconfigPathsPlugin({
 					configFile: PROJECT_TSCONFIG,
-					extensions: [".js", ".cjs", ".mjs", ".jsx", ".ts", ".tsx"]
+					extensions: RESOLVED_EXTENSIONS
 				})
 			]
 		},
@@ -71,7 +101,11 @@ const config: WebpackConfigFileExport = (envs, { mode, watch }) => {
 		output: {
 			path: PROJECT_DIST_DIR,
 			filename: "[name].js",
-			clean: true,
+
+			/*
+        Library builds (see \`createLibraryConfig\`) are kept.
+      */
+			clean: { keep: /^lib[/\\]/u },
 			library: {
 				type: "commonjs"
 			},
@@ -100,32 +134,7 @@ const config: WebpackConfigFileExport = (envs, { mode, watch }) => {
 		node: false,
 
 		module: {
-			rules: [
-				{
-					test: /\.(js|cjs|mjs|jsx|ts|tsx)$/iu,
-					exclude: /node_modules/u,
-					use: {
-						loader: require.resolve("swc-loader"),
-						options: {
-							swcrc: false,
-							module: {
-								type: "commonjs"
-							},
-							jsc: {
-								/* Targets Node.js 16 or higher */
-								target: "es2021",
-								externalHelpers: true,
-								parser: {
-									syntax: "typescript",
-									tsx: true,
-									decorators: true,
-									dynamicImport: true
-								}
-							}
-						} satisfies swc.Options
-					}
-				}
-			]
+			rules: [createSwcRule("commonjs")]
 		},
 
 		optimization: {
@@ -217,4 +226,83 @@ const config: WebpackConfigFileExport = (envs, { mode, watch }) => {
 	};
 };
 
+/**
+ * Library entry point (`src/index.ts`) as a CommonJS (`index.cjs`) or an ES module (`index.mjs`).
+ * Unlike the CLI, nothing is minified, and no banners are added, so that importing
+ * the library has no side effects. Type declarations are emitted by `tsconfig.lib.json`.
+ */
+function createLibraryConfig(
+	libraryType: "commonjs" | "module"
+): WebpackConfigurationFactory {
+	const isModule = libraryType === "module";
+
+	return (envs, { mode, watch }) => {
+		const isWatch = watch === true;
+
+		return {
+			mode: mode,
+			stats: isWatch ? "errors-only" : "normal",
+			devtool: false,
+			context: PROJECT_ROOT_DIR,
+			entry: {
+				index: path.resolve(PROJECT_SRC_DIR, "index.ts")
+			},
+			resolve: {
+				extensions: RESOLVED_EXTENSIONS,
+				plugins: [
+					new TsconfigPathsPlugin({
+						configFile: PROJECT_TSCONFIG,
+						extensions: RESOLVED_EXTENSIONS
+					})
+				]
+			},
+
+			target: "node16",
+			output: {
+				path: PROJECT_LIB_DIR,
+				filename: isModule ? "[name].mjs" : "[name].cjs",
+				module: isModule,
+				library: {
+					type: isModule ? "module" : "commonjs2"
+				}
+			},
+
+			/*
+        Installed npm packages are required (even from the ES module), as some of them
+        (like \`chalk\` and \`node-fetch\`) are CommonJS only.
+      */
+			externalsPresets: { node: true },
+			externals: [
+				NodeExternals({
+					modulesDir: "node_modules",
+					importType: (moduleName) => {
+						return `${isModule ? "node-commonjs" : "commonjs"} ${moduleName}`;
+					}
+				})
+			],
+			node: false,
+
+			module: {
+				rules: [createSwcRule("es6")]
+			},
+
+			optimization: {
+				minimize: false,
+				checkWasmTypes: false,
+				splitChunks: false
+			},
+
+			experiments: {
+				outputModule: isModule
+			}
+		};
+	};
+}
+
+const config: WebpackConfigFileExport = [
+	cliConfig,
+	createLibraryConfig("commonjs"),
+	createLibraryConfig("module")
+];
+
 export default config;